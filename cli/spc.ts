@@ -0,0 +1,333 @@
+#!/usr/bin/env node
+import { readFileSync, watch, writeFileSync } from 'node:fs';
+import {
+  createCassette,
+  createEngine,
+  formatFromFilename,
+  formatIssues,
+  formatTestResults,
+  hasErrors,
+  ledgerToJSONL,
+  mergeRuntime,
+  parseLedgerJSONL,
+  parseSPC,
+  readCassette,
+  recordingTransport,
+  replayingTransport,
+  runTests,
+  stringifySPC,
+  tickInterval,
+  validateSPC,
+  verifyLedger,
+  virtualClock
+} from '../engine';
+import type { EDTEngine, EngineOptions, SPC, State } from '../engine';
+
+// ============================================================================
+// SPC COMMAND LINE
+// ============================================================================
+//
+// Runs SPC files on the DOM-free engine, so pipelines work from a shell, cron
+// or CI without a browser. Everything the engine reports (logs, events, ticks,
+// status transitions) goes to stdout as one JSON object per line; anything
+// meant only for people goes to stderr.
+
+const USAGE = `Usage:
+  spc run <file> [--ticks N] [--state init.json] [--out final.json] [--ledger file] [runtime]
+  spc tick <file> [--state init.json] [--watch] [--interval ms] [--ledger file] [runtime]
+  spc validate <file>
+  spc test <file> [--only name]...
+  spc verify <ledger.jsonl>
+
+--ledger writes the MNEME ledger as JSON lines when the run ends; verify
+checks such a file and reports the first broken link. --interval defaults
+to the file's meta.tick_interval_ms, or 5000.
+
+Runtime options, for runs that repeat exactly:
+  --seed N           seed random() in expressions
+  --clock <iso>      virtual clock starting at <iso>, stepping per tick
+  --step ms          virtual clock step (default 1000; implies --clock)
+  --record <file>    save every HTTP response to a cassette
+  --replay <file>    answer HTTP requests from a cassette, offline
+
+Exit codes: 0 ok, 1 a service entered error, the file is invalid, tests
+failed or the ledger is broken, 2 bad arguments or an unreadable file.`;
+
+const RELOAD_DEBOUNCE_MS = 100;
+
+const VALUE_FLAGS = new Set(['ticks', 'state', 'out', 'interval', 'only', 'seed', 'clock', 'step', 'record', 'replay', 'ledger']);
+const BOOLEAN_FLAGS = new Set(['watch', 'help']);
+
+interface Args {
+  command: string;
+  file: string;
+  flags: Record<string, string | boolean>;
+  only: string[];
+}
+
+function parseArgs(argv: string[]): Args {
+  const positional: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+  const only: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const name = arg.slice(2);
+    if (BOOLEAN_FLAGS.has(name)) {
+      flags[name] = true;
+    } else if (VALUE_FLAGS.has(name)) {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`--${name} needs a value`);
+      if (name === 'only') only.push(value); else flags[name] = value;
+    } else {
+      throw new Error(`Unknown option ${arg}`);
+    }
+  }
+  const [command = '', file = ''] = positional;
+  return { command, file, flags, only };
+}
+
+function integerFlag(flags: Args['flags'], name: string, fallback: number): number {
+  if (flags[name] === undefined) return fallback;
+  const value = Number(flags[name]);
+  if (!Number.isInteger(value) || value < 0) throw new Error(`--${name} must be a whole number, got "${flags[name]}"`);
+  return value;
+}
+
+// ----------------------------------------------------------------------------
+// Output
+// ----------------------------------------------------------------------------
+
+function emit(type: string, record: Record<string, any> = {}): void {
+  process.stdout.write(`${JSON.stringify({ type, time: new Date().toISOString(), ...record })}\n`);
+}
+
+/** Streams the engine's logs, events, ticks and transitions as JSON lines */
+function attach(engine: EDTEngine): void {
+  engine.on('log', ({ level, message, meta }) => emit('log', { level, message, ...(Object.keys(meta).length ? { meta } : {}) }));
+  engine.on('transition', transition => emit('transition', transition));
+  engine.on('tick', report => {
+    for (const evt of report.events) emit('event', { tick: report.tick, ...evt });
+    emit('tick', { tick: report.tick, executed: report.executed });
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Files
+// ----------------------------------------------------------------------------
+
+/** The file parsed but failed validation; exits 1 rather than 2 */
+class InvalidDocumentError extends Error {}
+
+function readDocument(path: string): unknown {
+  if (!path) throw new Error('Missing <file>');
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error: any) {
+    throw new Error(`Cannot read ${path}: ${error?.message ?? error}`);
+  }
+  try {
+    return parseSPC(text, formatFromFilename(path));
+  } catch (error: any) {
+    throw new Error(`${path}: ${error?.message ?? error}`);
+  }
+}
+
+/** Parses and validates; warnings are reported, errors refuse the file */
+function loadSPC(path: string): SPC {
+  const doc = readDocument(path);
+  const issues = validateSPC(doc);
+  for (const issue of issues) emit('issue', { severity: issue.severity, path: issue.path, message: issue.message });
+  if (hasErrors(issues)) throw new InvalidDocumentError(`${path} is not a valid SPC:\n${formatIssues(issues.filter(i => i.severity === 'error'))}`);
+  return doc as SPC;
+}
+
+function loadState(path: string | undefined): State {
+  if (path === undefined) return {};
+  const state = readDocument(path);
+  if (!state || typeof state !== 'object' || Array.isArray(state)) throw new Error(`${path} must hold an object of state keys`);
+  return state as State;
+}
+
+/**
+ * Collects services that failed on any tick: those the engine put in `error`
+ * and those whose handler caught its own failure and wrote `<id>_error`. Error
+ * keys already in the initial state only count once their message changes.
+ */
+function trackFailures(engine: EDTEngine): Set<string> {
+  const failed = new Set<string>();
+  const initial = { ...engine.spc!.state };
+  engine.on('tick', ({ spc }) => {
+    for (const [id, service] of Object.entries(spc.services)) {
+      const key = `${id}_error`;
+      if (service.status === 'error' || (key in spc.state && spc.state[key] !== initial[key])) failed.add(id);
+    }
+  });
+  return failed;
+}
+
+interface Runtime {
+  options: EngineOptions;
+  /** Writes the cassette when recording */
+  save: () => void;
+}
+
+function saveLedger(engine: EDTEngine, flags: Args['flags']): void {
+  if (typeof flags.ledger === 'string') writeFileSync(flags.ledger, ledgerToJSONL(engine.ledger));
+}
+
+function runtimeFrom(flags: Args['flags']): Runtime {
+  if (flags.record !== undefined && flags.replay !== undefined) throw new Error('--record and --replay cannot be combined');
+  const options: EngineOptions = {};
+  if (flags.seed !== undefined) options.seed = integerFlag(flags, 'seed', 0);
+  if (flags.clock !== undefined || flags.step !== undefined) {
+    options.clock = virtualClock(flags.clock as string | undefined, integerFlag(flags, 'step', 1000));
+  }
+  if (typeof flags.replay === 'string') {
+    options.transport = replayingTransport(readCassette(readDocument(flags.replay)));
+  }
+  if (typeof flags.record === 'string') {
+    const path = flags.record;
+    const cassette = createCassette();
+    options.transport = recordingTransport(cassette);
+    return { options, save: () => writeFileSync(path, `${JSON.stringify(cassette, null, 2)}\n`) };
+  }
+  return { options, save: () => {} };
+}
+
+// ----------------------------------------------------------------------------
+// Commands
+// ----------------------------------------------------------------------------
+
+/** Ticks `--ticks` times (default 1) and optionally writes the final document */
+async function run(args: Args): Promise<number> {
+  const spc = loadSPC(args.file);
+  const ticks = integerFlag(args.flags, 'ticks', 1);
+  spc.state = { ...spc.state, ...loadState(args.flags.state as string | undefined) };
+  const runtime = runtimeFrom(args.flags);
+
+  const engine = createEngine(runtime.options);
+  attach(engine);
+  engine.load(spc);
+  const failed = trackFailures(engine);
+  for (let i = 0; i < ticks; i++) await engine.tick();
+  runtime.save();
+  saveLedger(engine, args.flags);
+
+  if (typeof args.flags.out === 'string') {
+    // The engine runs a flattened copy; write the document back in its own shape
+    const exported = engine.exportSPC()!;
+    const final: SPC = { ...exported, services: mergeRuntime(spc.services, exported.services), tests: spc.tests };
+    if (!final.tests) delete final.tests;
+    writeFileSync(args.flags.out, stringifySPC(final, formatFromFilename(args.flags.out)));
+  }
+  emit('done', { ticks, errored: [...failed], state: engine.spc!.state });
+  return failed.size > 0 ? 1 : 0;
+}
+
+/**
+ * One tick, or with `--watch` a tick every `--interval` ms until interrupted.
+ * Watching also reloads the file when it changes, keeping the state so far.
+ */
+async function tick(args: Args): Promise<number> {
+  const spc = loadSPC(args.file);
+  spc.state = { ...spc.state, ...loadState(args.flags.state as string | undefined) };
+  const runtime = runtimeFrom(args.flags);
+  const engine = createEngine(runtime.options);
+  attach(engine);
+  engine.load(spc);
+  const failed = trackFailures(engine);
+
+  if (!args.flags.watch) {
+    await engine.tick();
+    runtime.save();
+    saveLedger(engine, args.flags);
+    emit('done', { ticks: 1, errored: [...failed], state: engine.spc!.state });
+    return failed.size > 0 ? 1 : 0;
+  }
+
+  // Without --interval the file's meta.tick_interval_ms applies, and reloads pick up changes to it
+  const interval = args.flags.interval === undefined ? undefined : integerFlag(args.flags, 'interval', 0);
+  // Editors save in several writes; reload once the file has settled
+  let pending: ReturnType<typeof setTimeout> | null = null;
+  const reload = () => {
+    pending = null;
+    try {
+      const next = loadSPC(args.file);
+      engine.load({ ...next, state: { ...next.state, ...engine.spc!.state } });
+      emit('reload', { file: args.file });
+    } catch (error: any) {
+      emit('log', { level: 'error', message: `Reload skipped: ${error?.message ?? error}` });
+    }
+  };
+  const watcher = watch(args.file, () => {
+    if (pending) clearTimeout(pending);
+    pending = setTimeout(reload, RELOAD_DEBOUNCE_MS);
+  });
+
+  return new Promise(resolve => {
+    process.once('SIGINT', () => {
+      engine.stop();
+      watcher.close();
+      if (pending) clearTimeout(pending);
+      runtime.save();
+      saveLedger(engine, args.flags);
+      emit('done', { ticks: engine.metrics.ticks, errored: [...failed], state: engine.spc!.state });
+      resolve(failed.size > 0 ? 1 : 0);
+    });
+    process.stderr.write(`Ticking ${args.file} every ${interval ?? tickInterval(engine.spc)} ms, watching for changes. Ctrl+C to stop.\n`);
+    engine.start(interval);
+  });
+}
+
+function validate(args: Args): number {
+  const doc = readDocument(args.file);
+  const issues = validateSPC(doc);
+  for (const issue of issues) emit('issue', { severity: issue.severity, path: issue.path, message: issue.message });
+  emit('done', { errors: issues.filter(i => i.severity === 'error').length, warnings: issues.filter(i => i.severity === 'warning').length });
+  return hasErrors(issues) ? 1 : 0;
+}
+
+async function test(args: Args): Promise<number> {
+  const results = await runTests(loadSPC(args.file), args.only.length ? args.only : undefined);
+  for (const { name, passed, assertions } of results) emit('test', { name, passed, assertions });
+  process.stderr.write(`${formatTestResults(results)}\n`);
+  return results.every(result => result.passed) ? 0 : 1;
+}
+
+function verify(args: Args): number {
+  if (!args.file) throw new Error('Missing <file>');
+  let text: string;
+  try {
+    text = readFileSync(args.file, 'utf8');
+  } catch (error: any) {
+    throw new Error(`Cannot read ${args.file}: ${error?.message ?? error}`);
+  }
+  const ledger = parseLedgerJSONL(text);
+  const result = verifyLedger(ledger);
+  emit('done', { entries: ledger.length, ...result });
+  return result.valid ? 0 : 1;
+}
+
+const COMMANDS: Record<string, (args: Args) => number | Promise<number>> = { run, tick, validate, test, verify };
+
+async function main(argv: string[]): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    const command = COMMANDS[args.command];
+    if (args.flags.help || !command) {
+      process.stderr.write(`${USAGE}\n`);
+      return args.flags.help ? 0 : 2;
+    }
+    return await command(args);
+  } catch (error: any) {
+    emit('error', { message: error?.message ?? String(error) });
+    return error instanceof InvalidDocumentError ? 1 : 2;
+  }
+}
+
+main(process.argv.slice(2)).then(code => { process.exitCode = code; });
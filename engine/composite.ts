@@ -0,0 +1,226 @@
+import { computeConnections, consumedKeys, producedKeys } from './dataflow';
+import { rewireSpec } from './spc-rename';
+import type { Position, Service, SPC, State } from './types';
+
+// ============================================================================
+// COMPOSITE SERVICES
+// ============================================================================
+//
+// A `composite` service embeds a set of services behind declared inputs and
+// outputs:
+//
+//   spec:
+//     inputs:   { raw: orders }          # inner key raw reads outer orders
+//     outputs:  { clean: orders_clean }  # inner key clean is published as orders_clean
+//     services: { ... }                  # inner services, by inner id
+//     state:    { ... }                  # optional initial inner state
+//
+// The engine never runs a composite itself. On load every composite is
+// flattened: inner service `x` of composite `c` runs as `c/x`, and every
+// inner state key `k` becomes `c/k`, so two instances of the same composite
+// keep apart their outputs and the `__index_*` / `__window_*` bookkeeping
+// their services derive from their ids. Reads of a declared input go straight
+// to the bound outer key; writes to a declared output are mirrored into the
+// bound outer key. Inner services only run while the composite is running.
+
+export const COMPOSITE_SEPARATOR = '/';
+
+export interface FlatSPC {
+  spc: SPC;
+  /** Namespaced inner key → outer key it is published as */
+  outputs: Record<string, string>;
+}
+
+function record<T = any>(value: unknown): Record<string, T> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, T> : {};
+}
+
+/** The outer key a composite output is published as, by default `<id>_<inner key>` */
+export function compositeOutputKey(id: string, inner: string, bound: unknown): string {
+  return typeof bound === 'string' && bound ? bound : `${id}_${inner}`;
+}
+
+// ----------------------------------------------------------------------------
+// Flattening
+// ----------------------------------------------------------------------------
+
+/** Replaces every composite, however deeply nested, by its namespaced inner services. */
+export function flattenComposites(spc: SPC): FlatSPC {
+  const services: Record<string, Service> = {};
+  const state: State = { ...spc.state };
+  const outputs: Record<string, string> = {};
+
+  for (const [id, service] of Object.entries(spc.services)) {
+    if (service.type !== 'composite') {
+      services[id] = service;
+      continue;
+    }
+    const spec = service.spec || {};
+    const inner = flattenComposites({ ...spc, services: record<Service>(spec.services), state: record(spec.state) });
+    const prefix = `${id}${COMPOSITE_SEPARATOR}`;
+
+    const ids: Record<string, string> = {};
+    const keys: Record<string, string> = {};
+    for (const key of Object.keys(inner.spc.state)) keys[key] = prefix + key;
+    for (const [innerId, child] of Object.entries(inner.spc.services)) {
+      ids[innerId] = prefix + innerId;
+      for (const key of producedKeys(innerId, child)) keys[key] = prefix + key;
+    }
+    for (const key of Object.values(inner.outputs)) keys[key] ??= prefix + key;
+    for (const [key, bound] of Object.entries(record(spec.inputs))) {
+      if (typeof bound === 'string' && bound) keys[key] = bound;
+    }
+
+    const active = service.status === 'running';
+    for (const [innerId, child] of Object.entries(inner.spc.services)) {
+      services[ids[innerId]] = {
+        ...child,
+        id: ids[innerId],
+        spec: rewireSpec(child, { ids, keys }),
+        status: active ? child.status : 'stopped'
+      };
+    }
+    for (const [key, value] of Object.entries(inner.spc.state)) {
+      if (!(keys[key] in state)) state[keys[key]] = value;
+    }
+    for (const [from, to] of Object.entries(inner.outputs)) outputs[keys[from] ?? prefix + from] = keys[to];
+    for (const [key, bound] of Object.entries(record(spec.outputs))) {
+      outputs[keys[key] ?? prefix + key] = compositeOutputKey(id, key, bound);
+    }
+  }
+
+  return { spc: { ...spc, services, state }, outputs };
+}
+
+/** What the engine writes on a service as it runs, as opposed to what its author wrote */
+const RUNTIME_FIELDS = ['status', 'lastRun', 'waiting', 'nextRun', 'lastInputs', 'failures', 'lastError', 'retryAt', 'circuitOpen'] as const;
+
+function copyRuntime(service: Service, ran: Service): Service {
+  const merged: Record<string, any> = { ...service };
+  for (const key of RUNTIME_FIELDS) {
+    if (ran[key] === undefined) delete merged[key];
+    else merged[key] = ran[key];
+  }
+  return merged as Service;
+}
+
+/**
+ * Folds the runtime fields of flattened services (status, last run, schedule
+ * and failure state) back into the document the editor holds, inner services
+ * included. A composite shows the latest run of anything inside it.
+ */
+export function mergeRuntime(services: Record<string, Service>, ran: Record<string, Service>, prefix = ''): Record<string, Service> {
+  const merged = { ...services };
+  for (const [id, service] of Object.entries(services)) {
+    if (service.type === 'composite') {
+      if (service.status !== 'running') continue;
+      const inner = mergeRuntime(record<Service>(service.spec?.services), ran, `${prefix}${id}${COMPOSITE_SEPARATOR}`);
+      const lastRun = Object.values(inner).map(child => child.lastRun).filter(Boolean).sort().pop();
+      merged[id] = { ...service, spec: { ...service.spec, services: inner }, lastRun: lastRun ?? service.lastRun };
+    } else if (ran[prefix + id]) {
+      merged[id] = copyRuntime(service, ran[prefix + id]);
+    }
+  }
+  return merged;
+}
+
+// ----------------------------------------------------------------------------
+// Editing inside a composite
+// ----------------------------------------------------------------------------
+
+/** The composite service at `path` (ids from the top level down), or null when the path no longer exists */
+export function scopeService(doc: Pick<SPC, 'services'>, path: string[]): Service | null {
+  let services = doc.services;
+  let service: Service | null = null;
+  for (const id of path) {
+    service = services[id] ?? null;
+    if (service?.type !== 'composite') return null;
+    services = record<Service>(service.spec?.services);
+  }
+  return service;
+}
+
+/** The composite at `path` seen as a document: its inner services and initial state */
+export function scopeDoc(doc: SPC, path: string[]): SPC | null {
+  if (path.length === 0) return doc;
+  const service = scopeService(doc, path);
+  return service && { ...doc, services: record<Service>(service.spec?.services), state: record(service.spec?.state) };
+}
+
+/** Applies `update` to the composite at `path` and writes the result back into `doc`. */
+export function updateScope(doc: SPC, path: string[], update: (scope: SPC) => SPC): SPC {
+  if (path.length === 0) return update(doc);
+  const [id, ...rest] = path;
+  const composite = doc.services[id];
+  if (composite?.type !== 'composite') return doc;
+
+  const inner = scopeDoc(doc, [id])!;
+  const next = updateScope(inner, rest, update);
+  const spec: Record<string, any> = { ...composite.spec, services: next.services, state: next.state };
+  if (Object.keys(next.state).length === 0) delete spec.state;
+  return { ...doc, services: { ...doc.services, [id]: { ...composite, spec } } };
+}
+
+// ----------------------------------------------------------------------------
+// Grouping
+// ----------------------------------------------------------------------------
+
+/**
+ * Turns `ids` into one composite. Keys the group reads but does not write
+ * become its inputs; keys it writes that anything outside reads, and explicit
+ * output keys, become its outputs. Both keep their names, so the rest of the
+ * pipeline is wired exactly as before. Throws `Error` when a router would
+ * route across the group's boundary.
+ */
+export function groupIntoComposite(
+  doc: Pick<SPC, 'services'>,
+  ids: string[],
+  info: { id: string; title?: string }
+): Record<string, Service> {
+  const chosen = ids.filter(id => doc.services[id]);
+  if (chosen.length === 0) throw new Error('Select the services to group');
+  if (doc.services[info.id] && !chosen.includes(info.id)) throw new Error(`Service id "${info.id}" is taken`);
+  const inside = new Set(chosen);
+
+  for (const conn of computeConnections(doc.services)) {
+    if (conn.kind !== 'route' || inside.has(conn.source) === inside.has(conn.target)) continue;
+    const verb = conn.via === 'on_error' ? 'falls back' : 'routes';
+    throw new Error(`${doc.services[conn.source].type === 'router' ? 'Router' : 'Service'} ${conn.source} ${verb} to ${conn.target} across the group boundary; group them together or not at all`);
+  }
+
+  const produced = new Set(chosen.flatMap(id => producedKeys(id, doc.services[id])));
+  const readInside = new Set(chosen.flatMap(id => consumedKeys(id, doc.services[id]).map(ref => ref.key)));
+  const readOutside = new Set(Object.entries(doc.services)
+    .filter(([id]) => !inside.has(id))
+    .flatMap(([id, service]) => consumedKeys(id, service).map(ref => ref.key)));
+
+  const inputs: Record<string, string> = {};
+  for (const key of readInside) if (!produced.has(key)) inputs[key] = key;
+
+  const outputs: Record<string, string> = {};
+  for (const id of chosen) {
+    const { outputKey, historyKey } = doc.services[id].spec || {};
+    for (const key of producedKeys(id, doc.services[id])) {
+      if (readOutside.has(key) || key === outputKey || key === historyKey) outputs[key] = key;
+    }
+  }
+
+  const positions = chosen.map(id => doc.services[id].position || { x: 0, y: 0 });
+  const origin: Position = { x: Math.min(...positions.map(p => p.x)), y: Math.min(...positions.map(p => p.y)) };
+  const services: Record<string, Service> = {};
+  chosen.forEach((id, i) => {
+    services[id] = { ...doc.services[id], position: { x: positions[i].x - origin.x, y: positions[i].y - origin.y } };
+  });
+
+  const composite: Service = {
+    id: info.id,
+    type: 'composite',
+    title: info.title || `Group of ${chosen.length}`,
+    spec: { inputs, outputs, services },
+    status: chosen.some(id => doc.services[id].status === 'running') ? 'running' : 'stopped',
+    position: origin
+  };
+
+  const rest = Object.fromEntries(Object.entries(doc.services).filter(([id]) => !inside.has(id)));
+  return { ...rest, [info.id]: composite };
+}
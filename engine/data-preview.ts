@@ -0,0 +1,183 @@
+import { primaryOutputKey } from './dataflow';
+import { isMissing, sortRows } from './pipes';
+import type { CastType, Service, SPC } from './types';
+
+// ============================================================================
+// DATA PREVIEW
+// ============================================================================
+//
+// What a service left in state, seen as a table: rows, inferred column types
+// and a pandas-style describe(). A processor is also compared with its input
+// so the preview can show which rows its pipes dropped and which columns they
+// added or removed.
+
+type Row = Record<string, any>;
+
+export type Dtype = CastType | 'object' | 'mixed' | 'empty';
+
+export interface ValueCount {
+  value: any;
+  count: number;
+}
+
+export interface ColumnSummary {
+  name: string;
+  dtype: Dtype;
+  /** Non-missing values */
+  count: number;
+  nulls: number;
+  unique: number;
+  /** Numeric columns only */
+  mean?: number;
+  min?: any;
+  max?: any;
+  /** Most frequent values, most frequent first */
+  top: ValueCount[];
+}
+
+export interface PreviewTable {
+  key: string;
+  rows: Row[];
+  columns: string[];
+}
+
+export interface RowDiff {
+  addedColumns: string[];
+  removedColumns: string[];
+  /** Indexes into the input of rows with no counterpart in the output */
+  dropped: number[];
+  /** Indexes into the output of rows with no counterpart in the input */
+  added: number[];
+}
+
+export interface NodePreview {
+  output: PreviewTable;
+  /** Processors: what they read, and how the output differs from it */
+  input?: PreviewTable;
+  diff?: RowDiff;
+}
+
+const TOP_VALUES = 3;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** Arrays of objects are rows as they are; any other value becomes rows of one `value` column. */
+export function toRows(value: any): Row[] {
+  if (value === undefined) return [];
+  const items = Array.isArray(value) ? value : [value];
+  return items.map(item => (item && typeof item === 'object' && !Array.isArray(item) ? item : { value: item }));
+}
+
+/** Every column any row has, in first-appearance order */
+export function columnsOf(rows: Row[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) Object.keys(row).forEach(column => columns.add(column));
+  return [...columns];
+}
+
+function dtypeOf(value: any): Dtype {
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'string') return ISO_DATE.test(value) && !Number.isNaN(Date.parse(value)) ? 'date' : 'string';
+  return 'object';
+}
+
+/** The narrowest type every present value fits; integers widen to numbers, anything else to `mixed` */
+export function inferDtype(values: any[]): Dtype {
+  let dtype: Dtype = 'empty';
+  for (const value of values) {
+    if (isMissing(value)) continue;
+    const next = dtypeOf(value);
+    if (dtype === 'empty' || dtype === next) dtype = next;
+    else if ((dtype === 'integer' && next === 'number') || (dtype === 'number' && next === 'integer')) dtype = 'number';
+    else return 'mixed';
+  }
+  return dtype;
+}
+
+function valueKey(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/** Per-column summary statistics, like pandas' `describe(include='all')` */
+export function describeRows(rows: Row[]): ColumnSummary[] {
+  return columnsOf(rows).map(name => {
+    const values = rows.map(row => row[name]);
+    const present = values.filter(value => !isMissing(value));
+    const dtype = inferDtype(present);
+
+    const counts = new Map<string, ValueCount>();
+    for (const value of present) {
+      const key = valueKey(value);
+      const entry = counts.get(key);
+      if (entry) entry.count++; else counts.set(key, { value, count: 1 });
+    }
+    const top = [...counts.values()].sort((a, b) => b.count - a.count).slice(0, TOP_VALUES);
+
+    const summary: ColumnSummary = { name, dtype, count: present.length, nulls: values.length - present.length, unique: counts.size, top };
+    if (dtype === 'integer' || dtype === 'number') {
+      summary.mean = present.reduce((sum, value) => sum + value, 0) / present.length;
+      summary.min = Math.min(...present);
+      summary.max = Math.max(...present);
+    } else if (dtype === 'date' || dtype === 'string' || dtype === 'boolean') {
+      const sorted = sortRows(present.map(value => ({ value })), [{ key: 'value' }]);
+      summary.min = sorted[0].value;
+      summary.max = sorted[sorted.length - 1].value;
+    }
+    return summary;
+  });
+}
+
+/** Rows ordered by one column, missing values last */
+export function sortPreview(rows: Row[], column: string | null, descending = false): Row[] {
+  return column ? sortRows(rows, [{ key: column, order: descending ? 'desc' : 'asc' }]) : rows;
+}
+
+/**
+ * Matches output rows to input rows on the columns both have, so a derived
+ * column alone does not count as a change. A row whose shared values changed
+ * shows up as one dropped and one added.
+ */
+export function diffRows(before: Row[], after: Row[]): RowDiff {
+  const beforeColumns = columnsOf(before);
+  const afterColumns = columnsOf(after);
+  const shared = beforeColumns.filter(column => afterColumns.includes(column));
+  const keyOf = (row: Row) => JSON.stringify(shared.map(column => (isMissing(row[column]) ? null : row[column])));
+
+  const unmatched = new Map<string, number[]>();
+  before.forEach((row, i) => {
+    const key = keyOf(row);
+    unmatched.set(key, [...(unmatched.get(key) || []), i]);
+  });
+  const added: number[] = [];
+  after.forEach((row, i) => {
+    const candidates = unmatched.get(keyOf(row));
+    if (candidates?.length) candidates.shift(); else added.push(i);
+  });
+
+  return {
+    addedColumns: afterColumns.filter(column => !beforeColumns.includes(column)),
+    removedColumns: beforeColumns.filter(column => !afterColumns.includes(column)),
+    dropped: [...unmatched.values()].flat().sort((a, b) => a - b),
+    added
+  };
+}
+
+function table(state: Record<string, any>, key: string): PreviewTable {
+  const rows = toRows(state[key]);
+  return { key, rows, columns: columnsOf(rows) };
+}
+
+/** What service `id` wrote to its primary output key, and for processors what it read */
+export function nodePreview(spc: Pick<SPC, 'services' | 'state'>, id: string): NodePreview | null {
+  const service: Service | undefined = spc.services[id];
+  if (!service) return null;
+  const key = primaryOutputKey(id, service);
+  if (!key) return null;
+
+  const output = table(spc.state, key);
+  const inputKey = service.spec?.inputKey;
+  if (service.type !== 'processor' || typeof inputKey !== 'string' || !inputKey) return { output };
+
+  const input = table(spc.state, inputKey);
+  return { output, input, diff: diffRows(input.rows, output.rows) };
+}
@@ -0,0 +1,361 @@
+import type { Service, SPC } from './types';
+
+// ============================================================================
+// DATAFLOW GRAPH
+// ============================================================================
+//
+// Services never name each other for data; they meet at state keys. A
+// producer writes `outputKey`, a consumer reads `inputKey`, a processor's named
+// `inputs`, a monitor check's `dataKey`, or `state.<key>` inside a `{{ }}`
+// template or expression. Routers
+// are the exception: they start other services by id.
+//
+// A composite is a black box here: it reads the outer keys bound to its
+// `inputs` and writes the ones bound to its `outputs`. What happens inside is
+// its own dataflow graph, see `compositeDoc`.
+
+export type ConsumerVia = 'inputKey' | 'input' | 'dataKey' | 'source' | 'reference';
+
+export interface KeyReference {
+  key: string;
+  via: ConsumerVia;
+  /** Path of the referencing field inside `spec` */
+  path: (string | number)[];
+}
+
+export interface Connection {
+  id: string;
+  source: string;
+  target: string;
+  kind: 'data' | 'route';
+  /** State key the edge carries (data edges only) */
+  key?: string;
+  via?: ConsumerVia | 'route' | 'fallback' | 'on_error';
+  path?: (string | number)[];
+}
+
+/** Keys a service writes into state, including the handler defaults used when `outputKey` is omitted. */
+export function producedKeys(id: string, service: Service): string[] {
+  const keys = outputKeys(id, service);
+  // The engine writes failed runs there on the service's behalf (see recovery.ts); never the primary output
+  const deadLetter = service.spec?.on_error?.dead_letter_key;
+  if (typeof deadLetter === 'string' && deadLetter && !keys.includes(deadLetter)) keys.push(deadLetter);
+  return keys;
+}
+
+/** The keys the service's handler writes, the primary output first */
+function outputKeys(id: string, service: Service): string[] {
+  const spec = service.spec || {};
+  const keys = new Set<string>();
+  if (typeof spec.outputKey === 'string' && spec.outputKey) keys.add(spec.outputKey);
+
+  switch (service.type) {
+    case 'connector':
+    case 'csv_loader':
+      if (!spec.outputKey) keys.add(`${id}_data`);
+      break;
+    case 'processor':
+      if (!spec.outputKey) keys.add(`${id}_output`);
+      break;
+    case 'aggregator':
+      if (!spec.outputKey) keys.add(`${id}_aggregated`);
+      break;
+    case 'iterator':
+      keys.add(spec.historyKey || `${id}_history`);
+      break;
+    case 'monitor':
+      keys.add(`${id}_monitoring`);
+      break;
+    case 'router':
+      keys.add(`${id}_target`);
+      keys.add(`${id}_matched`);
+      break;
+    case 'vault':
+      keys.add(`${id}_status`);
+      break;
+    case 'adapter':
+      keys.add(`${id}_last_sent`);
+      break;
+    case 'composite':
+      for (const [inner, key] of Object.entries(record(spec.outputs))) {
+        keys.add(typeof key === 'string' && key ? key : `${id}_${inner}`);
+      }
+      break;
+  }
+  return [...keys];
+}
+
+function record(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * A composite's inner services as a document of their own, in which the
+ * declared inputs count as available state.
+ */
+export function compositeDoc(service: Service): SPC {
+  const spec = service.spec || {};
+  const inputs = Object.fromEntries(Object.keys(record(spec.inputs)).map(key => [key, null]));
+  return { spc_version: '1.0', meta: {}, services: record(spec.services) as Record<string, Service>, state: { ...inputs, ...record(spec.state) } };
+}
+
+/** Every key that exists in initial state or is written by some service. */
+export function availableKeys(doc: { services: Record<string, Service>; state?: Record<string, any> }): string[] {
+  const keys = new Set(Object.keys(doc.state || {}));
+  for (const [id, service] of Object.entries(doc.services || {})) {
+    if (service && typeof service === 'object') producedKeys(id, service).forEach(k => keys.add(k));
+  }
+  return [...keys];
+}
+
+/** The key a new downstream connection should read from this service. */
+export function primaryOutputKey(id: string, service: Service): string | undefined {
+  return outputKeys(id, service)[0];
+}
+
+// The bare identifier only: `row.state.x` is a field of the row, not a state key
+const STATE_REF = /(?<![.\w$])state\s*(?:\?\.|\.)\s*([A-Za-z_$][\w$]*)|(?<![.\w$])state\s*(?:\?\.)?\[\s*(['"])(.+?)\2\s*\]/g;
+
+/** State keys mentioned as `state.x`, `state?.x` or `state['x']` in an expression or template. */
+export function stateReferences(text: string): string[] {
+  const keys = new Set<string>();
+  for (const match of text.matchAll(STATE_REF)) {
+    keys.add(match[1] ?? match[3]);
+  }
+  return [...keys];
+}
+
+/** Rewrites `state.x` references to renamed keys, switching to `state['...']` when the new key is no identifier. */
+export function renameStateReferences(text: string, renames: Record<string, string>): string {
+  return text.replace(STATE_REF, (match, dotted, quote, bracketed) => {
+    const key = dotted ?? bracketed;
+    const renamed = renames[key];
+    if (renamed === undefined) return match;
+    if (bracketed !== undefined) return match.replace(`${quote}${key}${quote}`, `${quote}${renamed}${quote}`);
+    if (/^[A-Za-z_$][\w$]*$/.test(renamed)) return match.slice(0, -key.length) + renamed;
+    return `${match.slice(0, -key.length).replace(/\s*(\?\.|\.)\s*$/, m => (m.includes('?') ? '?.' : ''))}['${renamed}']`;
+  });
+}
+
+function collectReferences(value: any, path: (string | number)[], out: KeyReference[]) {
+  if (typeof value === 'string') {
+    for (const key of stateReferences(value)) out.push({ key, via: 'reference', path });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, idx) => collectReferences(item, [...path, idx], out));
+  } else if (value && typeof value === 'object') {
+    for (const [k, v] of Object.entries(value)) collectReferences(v, [...path, k], out);
+  }
+}
+
+/** Every state key a service reads, and where in its spec it reads it. */
+export function consumedKeys(id: string, service: Service): KeyReference[] {
+  const spec = service.spec || {};
+  const refs: KeyReference[] = [];
+
+  if (typeof spec.inputKey === 'string' && spec.inputKey) {
+    refs.push({ key: spec.inputKey, via: 'inputKey', path: ['inputKey'] });
+  }
+  if (service.type === 'processor' && spec.inputs && typeof spec.inputs === 'object') {
+    for (const [name, key] of Object.entries(spec.inputs)) {
+      if (typeof key === 'string' && key) refs.push({ key, via: 'input', path: ['inputs', name] });
+    }
+  }
+  if (service.type === 'monitor' && Array.isArray(spec.checks)) {
+    spec.checks.forEach((check: any, idx: number) => {
+      if (typeof check?.dataKey === 'string' && check.dataKey) {
+        refs.push({ key: check.dataKey, via: 'dataKey', path: ['checks', idx, 'dataKey'] });
+      }
+    });
+  }
+  if (service.type === 'csv_loader' && typeof spec.source === 'string' && !/^(https?:|data:)/.test(spec.source)) {
+    refs.push({ key: spec.source, via: 'source', path: ['source'] });
+  }
+  if (service.type === 'composite') {
+    for (const [name, key] of Object.entries(record(spec.inputs))) {
+      if (typeof key === 'string' && key) refs.push({ key, via: 'input', path: ['inputs', name] });
+    }
+    return refs; // inner references name inner keys
+  }
+
+  collectReferences(spec, [], refs);
+  return refs;
+}
+
+/** Derives every canvas edge: producer `outputKey` → consumer reference, plus router targets and `on_error` fallbacks. */
+export function computeConnections(services: Record<string, Service>): Connection[] {
+  const producers = new Map<string, string[]>();
+  for (const [id, service] of Object.entries(services)) {
+    for (const key of producedKeys(id, service)) {
+      producers.set(key, [...(producers.get(key) || []), id]);
+    }
+  }
+
+  const connections: Connection[] = [];
+  const seen = new Set<string>();
+  const push = (conn: Omit<Connection, 'id'>) => {
+    const id = `${conn.source}->${conn.target}:${conn.key ?? conn.via}`;
+    if (seen.has(id)) return;
+    seen.add(id);
+    connections.push({ id, ...conn });
+  };
+
+  for (const [targetId, service] of Object.entries(services)) {
+    for (const ref of consumedKeys(targetId, service)) {
+      for (const sourceId of producers.get(ref.key) || []) {
+        if (sourceId === targetId) continue;
+        push({ source: sourceId, target: targetId, kind: 'data', key: ref.key, via: ref.via, path: ref.path });
+      }
+    }
+
+    if (service.type === 'router') {
+      const { routes = [], fallback } = service.spec || {};
+      routes.forEach((route: any, idx: number) => {
+        if (route?.target && services[route.target]) {
+          push({ source: targetId, target: route.target, kind: 'route', via: 'route', path: ['routes', idx] });
+        }
+      });
+      if (fallback && services[fallback]) {
+        push({ source: targetId, target: fallback, kind: 'route', via: 'fallback', path: ['fallback'] });
+      }
+    }
+
+    const onErrorTarget = service.spec?.on_error?.fallback;
+    if (onErrorTarget && onErrorTarget !== targetId && services[onErrorTarget]) {
+      push({ source: targetId, target: onErrorTarget, kind: 'route', via: 'on_error', path: ['on_error', 'fallback'] });
+    }
+  }
+
+  return connections;
+}
+
+/** Upstream services of each node in edge order, one canvas input handle apiece. */
+export function inputSources(connections: Connection[]): Record<string, string[]> {
+  const sources: Record<string, string[]> = {};
+  for (const conn of connections) {
+    const list = (sources[conn.target] ||= []);
+    if (!list.includes(conn.source)) list.push(conn.source);
+  }
+  return sources;
+}
+
+// ============================================================================
+// REWIRING
+// ============================================================================
+
+export type RewireResult =
+  | { ok: true; serviceId: string; spec: Record<string, any>; message: string }
+  | { ok: false; message: string };
+
+/**
+ * Wires `sourceId` into `targetId` by pointing the target at the source's
+ * output key (or, for routers, by adding a route whose condition is `true`).
+ * A processor that already has an `inputKey` gains a named input instead.
+ * Returns the one spec that changes so the caller can apply it through its
+ * own update path.
+ */
+export function connectServices(services: Record<string, Service>, sourceId: string, targetId: string): RewireResult {
+  const source = services[sourceId];
+  const target = services[targetId];
+  if (!source || !target) return { ok: false, message: 'Unknown service' };
+  if (sourceId === targetId) return { ok: false, message: 'Cannot connect a service to itself' };
+
+  if (source.type === 'router') {
+    const routes = [...(source.spec.routes || [])];
+    if (routes.some((r: any) => r?.target === targetId)) {
+      return { ok: false, message: `${sourceId} already routes to ${targetId}` };
+    }
+    // Routes unconditionally until the user narrows it; an empty condition would never match
+    routes.push({ condition: 'true', target: targetId });
+    return { ok: true, serviceId: sourceId, spec: { ...source.spec, routes }, message: `${sourceId} routes to ${targetId}` };
+  }
+
+  const key = primaryOutputKey(sourceId, source);
+  if (!key) return { ok: false, message: `${sourceId} does not produce any state` };
+
+  if (target.type === 'monitor') {
+    const checks = [...(target.spec.checks || [])];
+    const open = checks.findIndex((c: any) => !c?.dataKey);
+    if (open >= 0) {
+      checks[open] = { ...checks[open], dataKey: key };
+    } else {
+      checks.push({ name: key, dataKey: key, expression: 'data != null' });
+    }
+    return { ok: true, serviceId: targetId, spec: { ...target.spec, checks }, message: `${targetId} checks ${key}` };
+  }
+
+  if (target.type === 'processor' && target.spec.inputKey) {
+    const inputs: Record<string, string> = { ...(target.spec.inputs || {}) };
+    if (target.spec.inputKey === key || Object.values(inputs).includes(key)) {
+      return { ok: false, message: `${targetId} already reads ${key}` };
+    }
+    const base = sourceId.replace(/\W+/g, '_');
+    let name = base;
+    for (let n = 2; name in inputs; n++) name = `${base}_${n}`;
+    inputs[name] = key;
+    return { ok: true, serviceId: targetId, spec: { ...target.spec, inputs }, message: `${targetId}.inputs.${name} = ${key}` };
+  }
+
+  if (target.type === 'composite') {
+    const inputs: Record<string, string> = { ...(target.spec.inputs || {}) };
+    if (Object.values(inputs).includes(key)) return { ok: false, message: `${targetId} already reads ${key}` };
+    const open = Object.keys(inputs).find(name => !inputs[name]);
+    if (!open) return { ok: false, message: `${targetId} has no unbound input; declare one under spec.inputs` };
+    inputs[open] = key;
+    return { ok: true, serviceId: targetId, spec: { ...target.spec, inputs }, message: `${targetId}.inputs.${open} = ${key}` };
+  }
+
+  if (['processor', 'aggregator', 'iterator'].includes(target.type)) {
+    return { ok: true, serviceId: targetId, spec: { ...target.spec, inputKey: key }, message: `${targetId}.inputKey = ${key}` };
+  }
+
+  return { ok: false, message: `${target.type} services have no input to wire; reference {{state.${key}}} in the spec instead` };
+}
+
+/** Undoes a connection. Template and expression references cannot be rewritten safely and are refused. */
+export function disconnect(services: Record<string, Service>, conn: Connection): RewireResult {
+  if (conn.kind === 'route') {
+    const router = services[conn.source];
+    if (!router) return { ok: false, message: 'Unknown service' };
+    const spec = { ...router.spec };
+    if (conn.via === 'on_error') {
+      const { action: _action, fallback: _fallback, ...onError } = spec.on_error || {};
+      if (Object.keys(onError).length > 0) spec.on_error = onError;
+      else delete spec.on_error;
+      return { ok: true, serviceId: conn.source, spec, message: `${conn.source} no longer falls back to ${conn.target}` };
+    }
+    if (conn.via === 'fallback') {
+      delete spec.fallback;
+    } else {
+      spec.routes = (spec.routes || []).filter((r: any) => r?.target !== conn.target);
+    }
+    return { ok: true, serviceId: conn.source, spec, message: `${conn.source} no longer routes to ${conn.target}` };
+  }
+
+  const target = services[conn.target];
+  if (!target) return { ok: false, message: 'Unknown service' };
+
+  switch (conn.via) {
+    case 'inputKey':
+    case 'source':
+      return { ok: true, serviceId: conn.target, spec: { ...target.spec, [conn.via]: '' }, message: `Unwired ${conn.target}.${conn.via}` };
+
+    case 'input': {
+      const name = conn.path?.[1] as string;
+      const inputs = { ...(target.spec.inputs || {}), [name]: '' };
+      return { ok: true, serviceId: conn.target, spec: { ...target.spec, inputs }, message: `Unwired ${conn.target}.inputs.${name}` };
+    }
+
+    case 'dataKey': {
+      const idx = conn.path?.[1] as number;
+      const checks = [...(target.spec.checks || [])];
+      checks[idx] = { ...checks[idx], dataKey: '' };
+      return { ok: true, serviceId: conn.target, spec: { ...target.spec, checks }, message: `Unwired ${conn.target} check ${idx}` };
+    }
+
+    default:
+      return {
+        ok: false,
+        message: `${conn.target} reads ${conn.key} in spec.${(conn.path || []).join('.')}; edit that expression to remove the edge`
+      };
+  }
+}
@@ -0,0 +1,674 @@
+import type {
+  EngineEvent,
+  EngineEventMap,
+  EngineMetrics,
+  EngineOptions,
+  HandlerContext,
+  HandlerResult,
+  LedgerEntry,
+  LogLevel,
+  PrimitiveHandler,
+  RuntimeClock,
+  Service,
+  ServiceStatus,
+  SPC,
+  State,
+  TickSnapshot,
+  Transport
+} from './types';
+import { flattenComposites, mergeRuntime } from './composite';
+import { consumedKeys } from './dataflow';
+import { planExecution } from './execution-plan';
+import type { ExecutionPlan } from './execution-plan';
+import { chainEntry, CHECKPOINT_INTERVAL, sha256, stateHash, truncateLedger, verifyLedger } from './ledger';
+import type { LedgerFields } from './ledger';
+import { appendDeadLetter, clearFailures, deadLetterKey, decideFailure } from './recovery';
+import { liveTransport, seededRandom, serviceSeed, wallClock } from './runtime';
+import { checkSchedule, tickInterval } from './schedule';
+import { validateSpec } from './spc-schema';
+
+// ============================================================================
+// EDT MICRO-KERNEL ENGINE (DOM-free)
+// ============================================================================
+
+type Listener<T> = (payload: T) => void;
+
+const MAX_LEDGER = 1000;
+/** Ticks kept in `history` unless `EngineOptions.historyLimit` says otherwise */
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * A view of `state` that serialises each key the first time a handler reads
+ * it, into `reads`. Handlers keep bookkeeping under keys no spec names (an
+ * iterator's `__index_*`, an aggregator's window), so the input hash has to
+ * follow what they actually read; listing the keys reads all of them.
+ */
+function trackReads(state: State, reads: Map<string, string>): State {
+  const read = (key: string) => {
+    if (!reads.has(key)) reads.set(key, JSON.stringify(state[key] ?? null));
+  };
+  return new Proxy(state, {
+    get(target, key, receiver) {
+      if (typeof key === 'string') read(key);
+      return Reflect.get(target, key, receiver);
+    },
+    has(target, key) {
+      if (typeof key === 'string') read(key);
+      return Reflect.has(target, key);
+    },
+    ownKeys(target) {
+      Object.keys(target).forEach(read);
+      return Reflect.ownKeys(target);
+    }
+  });
+}
+
+type ServiceOutcome =
+  | { id: string; inputHash: string; result: HandlerResult | null }
+  | { id: string; inputHash: string; result: null; error: string };
+
+export class EDTEngine {
+  spc: SPC | null = null;
+  running = false;
+  handlers = new Map<string, PrimitiveHandler>();
+  metrics: EngineMetrics = { ticks: 0, events: 0, lifecycleResets: 0 };
+  ledger: LedgerEntry[] = [];
+  /** The last `historyLimit` ticks, oldest first */
+  history: TickSnapshot[] = [];
+  currentPhase = 0;
+  /** Order services run in, rebuilt on every load */
+  plan: ExecutionPlan = { order: [], batches: [], cycles: [] };
+  /** Milliseconds between ticks; `meta.tick_interval_ms` unless `start` was given one */
+  tickMs = tickInterval(null);
+
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+  private listeners = new Map<keyof EngineEventMap, Set<Listener<any>>>();
+  /** Namespaced composite output key → outer key it is mirrored into */
+  private outputs: Record<string, string> = {};
+  /** The document as it was before the oldest tick in `history` */
+  private origin: SPC | null = null;
+  private clock: RuntimeClock;
+  private transport: Transport;
+  private seed: number | undefined;
+  /** The interval passed to `start`, which overrides the document's */
+  private fixedTickMs: number | undefined;
+  private historyLimit: number;
+  /** The live state the last snapshot was taken from, by reference, and that snapshot's copy of it */
+  private lastSnapshot: { live: State; copy: State } | null = null;
+
+  constructor(options: EngineOptions = {}) {
+    this.clock = options.clock ?? wallClock;
+    this.transport = options.transport ?? liveTransport;
+    this.seed = options.seed;
+    this.historyLimit = Math.max(1, options.historyLimit ?? DEFAULT_HISTORY_LIMIT);
+  }
+
+  on<K extends keyof EngineEventMap>(type: K, listener: Listener<EngineEventMap[K]>): () => void {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    const set = this.listeners.get(type)!;
+    set.add(listener);
+    return () => { set.delete(listener); };
+  }
+
+  private emit<K extends keyof EngineEventMap>(type: K, payload: EngineEventMap[K]): void {
+    this.listeners.get(type)?.forEach(listener => listener(payload));
+  }
+
+  load(spc: SPC): void {
+    const flat = flattenComposites(JSON.parse(JSON.stringify(spc)));
+    // The studio loads back the state of the last tick report; values it has not replaced stay shared
+    const last = this.lastSnapshot;
+    if (last) {
+      const live: State = {};
+      for (const [key, value] of Object.entries(spc.state || {})) {
+        if (key in last.copy && last.copy[key] === value && key in flat.spc.state) live[key] = flat.spc.state[key];
+      }
+      this.lastSnapshot = { live, copy: last.copy };
+    }
+    this.spc = flat.spc;
+    this.outputs = flat.outputs;
+    this.plan = planExecution(flat.spc.services, flat.outputs);
+
+    const tickMs = this.fixedTickMs ?? tickInterval(flat.spc);
+    if (this.interval && tickMs !== this.tickMs) {
+      clearInterval(this.interval);
+      this.interval = setInterval(() => this.scheduledTick(), tickMs);
+      this.log('info', `Tick interval changed to ${tickMs} ms`);
+    }
+    this.tickMs = tickMs;
+  }
+
+  /** Copies writes to composite outputs out to the keys they are published as, through every level of nesting */
+  private publishOutputs(spc: SPC, patch: Record<string, any>): void {
+    for (const [key, value] of Object.entries(patch)) {
+      for (let alias = this.outputs[key]; alias !== undefined && alias !== key; alias = this.outputs[alias]) {
+        spc.state[alias] = value;
+      }
+    }
+  }
+
+  /** Clears the ledger, history and metrics */
+  reset(): void {
+    this.ledger = [];
+    this.history = [];
+    this.origin = null;
+    this.lastSnapshot = null;
+    this.metrics = { ticks: 0, events: 0, lifecycleResets: 0 };
+  }
+
+  /** The engine clock as an ISO string */
+  now(): string {
+    return new Date(this.clock.now()).toISOString();
+  }
+
+  setPhase(n: number): void {
+    this.currentPhase = n;
+    this.emit('phase', n);
+  }
+
+  async tick(): Promise<EngineEvent[]> {
+    // Overlapping ticks would interleave patches from two scans of the same state
+    if (!this.spc || this.ticking) return [];
+    this.ticking = true;
+
+    const spc = this.spc;
+    try {
+      this.clock.advance?.(this.metrics.ticks);
+      this.transport.advance?.(this.metrics.ticks);
+      if (this.history.length === 0) this.origin = clone(spc);
+      this.setPhase(1);
+      const ctx = this.createContext(spc);
+      const results: EngineEvent[] = [];
+      const executedServices: { id: string; service: Service; result: HandlerResult }[] = [];
+      const patches: Record<string, State> = {};
+
+      // PHASE 1: DETERMINE RUNNABLE SERVICES
+      const scheduled = this.plan.order.filter(id => spc.services[id]?.status === 'running');
+      ctx.log('lifecycle', `Tick ${this.metrics.ticks}: ${scheduled.length} services scheduled`);
+
+      // PHASE 2: EXECUTE SERVICES, upstream batches first
+      this.setPhase(2);
+      for (const batch of this.plan.batches) {
+        // Checked per batch: a router earlier in this tick may have started or stopped a target,
+        // and on_change schedules compare against what upstream wrote this tick
+        const runnable = batch.filter(id => spc.services[id]?.status === 'running' && this.isDue(id, spc, ctx));
+        if (runnable.length === 0) continue;
+
+        const outcomes = await Promise.all(runnable.map(id => this.runService(id, spc, ctx)));
+
+        // Applied in plan order, so concurrent services leave the same state and ledger every run
+        for (const outcome of outcomes) {
+          if (!outcome) continue;
+          const { id, inputHash, result } = outcome;
+          const service = spc.services[id];
+          if ('error' in outcome) {
+            this.handleFailure(id, outcome.error, spc, ctx);
+            continue;
+          }
+          if (!result) continue;
+          if (service.failures) {
+            ctx.log('info', `Service ${id} recovered after ${service.failures} failure(s)`);
+            delete spc.state[`${id}_error`];
+          }
+          clearFailures(service);
+          Object.assign(spc.state, result.patch || {});
+          patches[id] = result.patch || {};
+          this.publishOutputs(spc, result.patch || {});
+          if (result.events) results.push(...result.events);
+          service.lastRun = this.now();
+
+          const outputHash = sha256(JSON.stringify(result.patch || {}));
+          this.recordLedgerEntry(id, inputHash, outputHash, result);
+          for (const [target, status] of Object.entries(result.statuses || {})) {
+            if (spc.services[target]) this.transition(target, spc.services[target], status, `set by ${id}`);
+          }
+
+          executedServices.push({ id, service, result });
+        }
+      }
+
+      // PHASE 3: LIFECYCLE ENFORCEMENT
+      this.setPhase(3);
+      for (const { id, service, result } of executedServices) {
+        const newStatus = this.applyLifecyclePolicy(id, service, result, spc);
+
+        if (newStatus && newStatus !== service.status) {
+          this.metrics.lifecycleResets++;
+          this.transition(id, service, newStatus, 'policy');
+        }
+      }
+
+      // PHASE 4: FINALIZE TICK
+      this.setPhase(4);
+      const tick = this.metrics.ticks;
+      this.metrics.ticks++;
+      this.metrics.events += results.length;
+
+      const snapshot = this.snapshotOf(spc, tick, executedServices.map(e => e.id), results, patches);
+      this.history.push(snapshot);
+      if (this.history.length > this.historyLimit) this.origin = this.history.shift()!.spc;
+
+      this.emit('tick', { tick, executed: snapshot.executed, events: results, spc: snapshot.spc });
+
+      this.setPhase(0);
+      return results;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Whether a running service's `schedule` lets it run this tick. A service
+   * held back is marked `waiting` with its next run time; an invalid
+   * schedule, which validateSPC also reports, puts the service in error.
+   */
+  private isDue(id: string, spc: SPC, ctx: HandlerContext): boolean {
+    const service = spc.services[id];
+    if (service.retryAt) {
+      // A retry or circuit trial runs when its time comes, whatever the schedule says
+      if (Date.parse(service.retryAt) > this.clock.now()) {
+        service.waiting = true;
+        service.nextRun = service.retryAt;
+        return false;
+      }
+      delete service.retryAt;
+      delete service.waiting;
+      delete service.nextRun;
+      return true;
+    }
+    const schedule = service.spec?.schedule;
+    const inputs = schedule?.on_change
+      ? this.hash(consumedKeys(id, service).map(ref => [ref.key, spc.state[ref.key] ?? null]))
+      : undefined;
+    try {
+      const { due, nextRun } = checkSchedule(schedule, {
+        tick: this.metrics.ticks,
+        now: this.clock.now(),
+        lastRun: service.lastRun ? Date.parse(service.lastRun) : null,
+        inputsChanged: inputs !== service.lastInputs,
+        tickMs: this.tickMs
+      });
+      if (!due) {
+        service.waiting = true;
+        service.nextRun = nextRun === null ? null : new Date(nextRun).toISOString();
+        return false;
+      }
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      ctx.log('error', `Service ${id} failed: ${message}`);
+      spc.state[`${id}_error`] = message;
+      this.transition(id, service, 'error', 'invalid schedule');
+      return false;
+    }
+    delete service.waiting;
+    delete service.nextRun;
+    if (inputs === undefined) delete service.lastInputs;
+    else service.lastInputs = inputs;
+    return true;
+  }
+
+  /**
+   * Records a failed run in `<id>_error`, the service's failure count and its
+   * dead-letter list, then retries, opens the circuit or applies `on_error`
+   * as recovery.ts decides.
+   */
+  private handleFailure(id: string, error: string, spc: SPC, ctx: HandlerContext): void {
+    const service = spc.services[id];
+    const failures = (service.failures ?? 0) + 1;
+    service.failures = failures;
+    service.lastError = error;
+    spc.state[`${id}_error`] = error;
+    ctx.log('error', `Service ${id} failed: ${error}`);
+
+    const key = deadLetterKey(id, service.spec);
+    spc.state[key] = appendDeadLetter(spc.state[key], {
+      tick: this.metrics.ticks,
+      timestamp: this.now(),
+      serviceId: id,
+      error,
+      attempt: failures,
+      inputs: Object.fromEntries(consumedKeys(id, service).map(ref => [ref.key, clone(spc.state[ref.key] ?? null)]))
+    });
+    this.publishOutputs(spc, { [key]: spc.state[key] });
+
+    // Jitter draws from its own stream so retries do not shift the handler's random()
+    const random = this.seed === undefined ? Math.random : seededRandom(serviceSeed(this.seed, this.metrics.ticks, `${id}:retry`));
+    const decision = decideFailure(service.spec, failures, random);
+    const at = (ms: number) => new Date(this.clock.now() + ms).toISOString();
+    switch (decision.kind) {
+      case 'retry':
+        service.retryAt = at(decision.delayMs);
+        ctx.log('warn', `Service ${id}: retry ${decision.attempt}/${decision.of} in ${decision.delayMs} ms`);
+        return;
+      case 'open':
+        service.circuitOpen = true;
+        service.retryAt = at(decision.cooldownMs);
+        ctx.log('warn', `Service ${id}: circuit open after ${failures} failures; trial run at ${service.retryAt}`);
+        return;
+      case 'skip':
+        ctx.log('warn', `Service ${id}: failed run skipped (on_error: skip)`);
+        return;
+      case 'fallback': {
+        this.transition(id, service, 'error', 'failed');
+        const target = decision.target ? spc.services[decision.target] : undefined;
+        if (target) {
+          this.transition(decision.target!, target, 'running', `fallback for ${id}`);
+        } else {
+          ctx.log('warn', `Service ${id}: fallback service "${decision.target ?? ''}" not found`);
+        }
+        return;
+      }
+      case 'stop':
+        this.transition(id, service, 'error', 'failed');
+    }
+  }
+
+  /** Runs one service's handler; its patch is applied by `tick` once the whole batch is done */
+  private async runService(id: string, spc: SPC, ctx: HandlerContext): Promise<ServiceOutcome | null> {
+    const service = spc.services[id];
+    const handler = this.handlers.get(service.type);
+    if (!handler) {
+      ctx.log('warn', `No handler for type: ${service.type}`);
+      return null;
+    }
+    // Only the keys it reads: hashing all of state per service would dominate a tick over large tables
+    const reads = new Map<string, string>();
+    const spec = JSON.stringify(service.spec);
+    const random = this.seed === undefined ? Math.random : seededRandom(serviceSeed(this.seed, this.metrics.ticks, id));
+    let outcome: { result: HandlerResult | null } | { result: null; error: string };
+    try {
+      validateSpec(service.type, service.spec);
+      const result = await handler.run(id, service.spec, { ...ctx, state: trackReads(spc.state, reads), random });
+      outcome = { result: result || null };
+    } catch (error: any) {
+      outcome = { result: null, error: error?.message || String(error) };
+    }
+    const inputs = [...reads].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)).map(([key, json]) => `${JSON.stringify(key)}:${json}`);
+    const inputHash = sha256(`{"serviceId":${JSON.stringify(id)},"spec":${spec},"inputs":{${inputs.join(',')}}}`);
+    return { id, inputHash, ...outcome };
+  }
+
+  /**
+   * Copies the document and patches for the history. A state value still the
+   * same object as at the last snapshot, and not in a patch (handlers may
+   * return an object they changed in place), is shared with that snapshot
+   * rather than copied again, so an unchanged table is held once, not once
+   * per tick. Snapshots are read-only.
+   */
+  private snapshotOf(spc: SPC, tick: number, executed: string[], events: EngineEvent[], patches: Record<string, State>): TickSnapshot {
+    const written = new Set<string>();
+    for (const patch of Object.values(patches)) {
+      for (const key of Object.keys(patch)) {
+        for (let alias: string | undefined = key; alias !== undefined && !written.has(alias); alias = this.outputs[alias]) written.add(alias);
+      }
+    }
+    const last = this.lastSnapshot;
+    const state: State = {};
+    for (const [key, value] of Object.entries(spc.state)) {
+      if (value === undefined) continue;
+      const unchanged = last && !written.has(key) && key in last.copy && last.live[key] === value;
+      state[key] = unchanged ? last.copy[key] : clone(value);
+    }
+    this.lastSnapshot = { live: { ...spc.state }, copy: state };
+
+    const copyPatch = (patch: State) => Object.fromEntries(Object.entries(patch)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, spc.state[key] === value && key in state ? state[key] : clone(value)]));
+    const { state: _state, ...doc } = spc;
+    return {
+      tick,
+      timestamp: this.now(),
+      executed,
+      events,
+      patches: Object.fromEntries(Object.entries(patches).map(([id, patch]) => [id, copyPatch(patch)])),
+      spc: { ...clone(doc), state }
+    };
+  }
+
+  /** The document as it was before `tick` ran, or null when that tick is no longer in the history */
+  snapshotBefore(tick: number): SPC | null {
+    const first = this.history[0]?.tick ?? this.metrics.ticks;
+    if (tick < first || tick > this.metrics.ticks) return null;
+    return tick === first ? this.origin : this.history[tick - first - 1].spc;
+  }
+
+  /**
+   * Puts statuses and state back to how they were before `tick` ran and
+   * forgets the later ticks, ledger entries included. Specs stay as they are
+   * now, so edits made since apply when the ticks run again. Returns the
+   * snapshots that were dropped.
+   */
+  rewind(tick: number): TickSnapshot[] {
+    if (!this.spc) throw new Error('No SPC loaded');
+    if (this.running || this.ticking) throw new Error('Stop the engine before rewinding');
+    const first = this.history[0]?.tick ?? this.metrics.ticks;
+    if (!Number.isInteger(tick) || tick < first || tick > this.metrics.ticks) {
+      throw new Error(`Tick ${tick} is not in the recorded history (ticks ${first}–${this.metrics.ticks})`);
+    }
+
+    const before = this.snapshotBefore(tick);
+    const dropped = this.history.splice(tick - first);
+    if (before) {
+      this.spc.services = mergeRuntime(this.spc.services, clone(before.services));
+      this.spc.state = clone(before.state);
+    }
+    this.ledger = this.ledger.filter(entry => entry.tick < tick);
+    this.metrics.ticks = tick;
+    this.lastSnapshot = null;
+    this.log('info', `Rewound to tick ${tick}`);
+    this.emit('rewind', { tick, spc: clone(this.spc) });
+    return dropped;
+  }
+
+  /**
+   * Rewinds to `fromTick` and runs as many ticks as were dropped, or `ticks`.
+   * Returns the original and the new snapshots so the two runs can be compared.
+   */
+  async replay(fromTick: number, ticks?: number): Promise<{ original: TickSnapshot[]; rerun: TickSnapshot[] }> {
+    const original = this.rewind(fromTick);
+    for (let i = 0; i < (ticks ?? original.length); i++) await this.tick();
+    return { original, rerun: this.history.filter(s => s.tick >= fromTick) };
+  }
+
+  applyLifecyclePolicy(id: string, service: Service, result: HandlerResult, spc: SPC): ServiceStatus | null {
+    const { type, spec = {} } = service;
+
+    switch (type) {
+      case 'adapter':
+        if (spec.hold || spec.persistent) return 'running';
+        // stop regardless of event emission to avoid latch on idempotent path
+        return 'stopped';
+
+      case 'monitor':
+        // Stop if oneShot and alert fired
+        if (spec.oneShot && (result?.events?.length ?? 0) > 0) return 'stopped';
+        return spec.persistent === false ? 'stopped' : 'running';
+
+      case 'router':
+        // Routers stay running unless explicitly stopped
+        return spec.persistent === false ? 'stopped' : 'running';
+
+      case 'iterator': {
+        const idx = spc.state[`__index_${id}`] ?? 0;
+        const len = spc.state[spec.inputKey]?.length ?? 0;
+        if (!spec.loop && idx >= len) return 'stopped';
+        return 'running';
+      }
+
+      case 'connector':
+      case 'processor':
+      case 'aggregator':
+      case 'vault':
+        return spec.persistent === false ? 'stopped' : 'running';
+
+      default:
+        // Conservative default
+        return spec.persistent === false ? 'stopped' : 'running';
+    }
+  }
+
+  /** Sets a service's status and records the change in the log, the ledger and a `transition` event */
+  private transition(id: string, service: Service, to: ServiceStatus, reason: string): void {
+    const from = service.status;
+    if (from === to) return;
+    service.status = to;
+    this.log('lifecycle', `${id}: ${from} → ${to} (${reason})`);
+    this.recordLifecycleTransition(id, from, to);
+    this.emit('transition', { serviceId: id, from, to });
+  }
+
+  recordLifecycleTransition(serviceId: string, fromStatus: ServiceStatus | undefined, toStatus: ServiceStatus): void {
+    this.appendLedger({
+      tick: this.metrics.ticks,
+      timestamp: this.now(),
+      type: 'lifecycle',
+      serviceId,
+      transition: `${fromStatus} → ${toStatus}`
+    });
+  }
+
+  recordLedgerEntry(serviceId: string, inputHash: string, outputHash: string, result: HandlerResult): void {
+    this.appendLedger({
+      tick: this.metrics.ticks,
+      timestamp: this.now(),
+      type: 'execution',
+      serviceId,
+      inputHash,
+      outputHash,
+      eventCount: result.events?.length || 0
+    });
+  }
+
+  /** Chains an entry, adds a checkpoint every CHECKPOINT_INTERVAL entries and trims the window */
+  private appendLedger(fields: LedgerFields): void {
+    const entry = chainEntry(this.ledger, fields);
+    this.ledger.push(entry);
+    if ((entry.seq + 1) % CHECKPOINT_INTERVAL === 0) {
+      this.ledger.push(chainEntry(this.ledger, {
+        tick: entry.tick,
+        timestamp: entry.timestamp,
+        type: 'checkpoint',
+        stateHash: stateHash(this.spc?.state ?? {})
+      }));
+    }
+    truncateLedger(this.ledger, MAX_LEDGER);
+  }
+
+  /** Continues an exported ledger, e.g. one imported alongside its SPC. A broken chain is refused */
+  restoreLedger(entries: LedgerEntry[]): void {
+    const verification = verifyLedger(entries);
+    if (!verification.valid) {
+      throw new Error(`Ledger is broken at #${verification.brokenSeq ?? verification.brokenIndex}: ${verification.reason}`);
+    }
+    this.ledger = entries.slice();
+    truncateLedger(this.ledger, MAX_LEDGER);
+  }
+
+  createContext(spc: SPC, random: () => number = Math.random): HandlerContext {
+    const request = async (url: string, opts?: RequestInit) => {
+      const { status, body } = await this.transport(url, opts);
+      if (status < 200 || status >= 300) {
+        throw new Error(`HTTP ${status} @ ${url}${body ? ' – ' + body.slice(0, 120) : ''}`);
+      }
+      return body;
+    };
+    return {
+      clock: () => this.now(),
+      random,
+      state: spc.state,
+      services: spc.services,
+      hash: (...parts) => this.hash(parts),
+      log: (level, msg, meta) => this.log(level, msg, meta),
+      fetch: (url, opts) => request(url, opts).then(body => JSON.parse(body)),
+      fetchText: request
+    };
+  }
+
+  register(handler: PrimitiveHandler): void {
+    this.handlers.set(handler.type, handler);
+    this.log('info', `Registered handler: ${handler.type}`);
+  }
+
+  /** A tick nobody awaits: a rejection is logged and emitted as `error` rather than left unhandled */
+  private scheduledTick(): void {
+    this.tick().catch((error: any) => {
+      this.log('error', `Tick failed: ${error.message}`);
+      this.emit('error', error);
+    });
+  }
+
+  /** Ticks every `intervalMs`, or at the document's `meta.tick_interval_ms` (5 s by default) */
+  start(intervalMs?: number): void {
+    if (!this.running) {
+      this.running = true;
+      this.fixedTickMs = intervalMs;
+      this.tickMs = intervalMs ?? tickInterval(this.spc);
+      this.interval = setInterval(() => this.scheduledTick(), this.tickMs);
+      this.log('info', `Engine started with lifecycle manager, ticking every ${this.tickMs} ms`);
+      this.emit('start', undefined);
+      this.scheduledTick();
+    }
+  }
+
+  stop(): void {
+    if (this.running) {
+      this.running = false;
+      if (this.interval) clearInterval(this.interval);
+      this.interval = null;
+      this.log('info', 'Engine stopped');
+      this.emit('stop', undefined);
+    }
+  }
+
+  setServiceStatus(serviceId: string, status: ServiceStatus): void {
+    const service = this.spc?.services[serviceId];
+    if (service) {
+      const oldStatus = service.status;
+      service.status = status;
+      this.log('lifecycle', `${serviceId}: ${oldStatus} → ${status} (manual)`);
+    }
+  }
+
+  /** Clears a service's failures and `<id>_error` and sets it running, for a manual retry */
+  resetService(serviceId: string): void {
+    const service = this.spc?.services[serviceId];
+    if (!service) return;
+    clearFailures(service);
+    delete service.waiting;
+    delete service.nextRun;
+    delete this.spc!.state[`${serviceId}_error`];
+    this.transition(serviceId, service, 'running', 'reset');
+  }
+
+  hash(parts: unknown): string {
+    const s = typeof parts === 'string' ? parts : JSON.stringify(parts);
+    const bytes = new TextEncoder().encode(s);
+    let h = 2166136261 >>> 0;
+    for (const b of bytes) {
+      h ^= b;
+      h = Math.imul(h, 16777619);
+    }
+    return ('00000000' + (h >>> 0).toString(16)).slice(-8);
+  }
+
+  log(level: LogLevel, message: string, meta: Record<string, any> = {}): void {
+    this.emit('log', { level, message, meta });
+  }
+
+  exportSPC(): SPC | null {
+    if (!this.spc) return null;
+    return {
+      ...this.spc,
+      meta: {
+        ...this.spc.meta,
+        exported_at: this.now(),
+        engine_version: '2.1.0-lifecycle',
+        ledger_size: this.ledger.length,
+        lifecycle_resets: this.metrics.lifecycleResets
+      }
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { computeConnections, consumedKeys, producedKeys } from './dataflow';
+import type { Service } from './types';
+
+// ============================================================================
+// EXECUTION ORDER
+// ============================================================================
+//
+// A tick runs producers before their consumers, so every service sees this
+// tick's upstream outputs whatever order the document lists them in. The
+// dependencies are the dataflow edges (see `computeConnections`): state keys
+// read through `inputKey`, `inputs`, `dataKey` or `{{ state.x }}`, and router
+// targets. Services with no path between them share a batch and may run
+// concurrently. Services on a cycle cannot be ordered; they run one after
+// another in document order, and validation reports the cycle as an error.
+
+export interface ExecutionPlan {
+  /** Every service id, dependencies first */
+  order: string[];
+  /** Run one after another; the services inside a batch do not depend on each other */
+  batches: string[][];
+  /** Services that depend on each other in a loop, each set in document order */
+  cycles: string[][];
+}
+
+/**
+ * Upstream services of each service. `outputs` maps a composite's namespaced
+ * output keys to the outer keys they are published as (see FlatSPC), so a
+ * flattened document keeps the edges the composite boundary implies.
+ */
+export function dependencies(services: Record<string, Service>, outputs: Record<string, string> = {}): Record<string, string[]> {
+  const upstream: Record<string, Set<string>> = {};
+  for (const id of Object.keys(services)) upstream[id] = new Set();
+  for (const conn of computeConnections(services)) upstream[conn.target]?.add(conn.source);
+
+  const published = new Map<string, string[]>();
+  for (const [id, service] of Object.entries(services)) {
+    for (const key of producedKeys(id, service)) {
+      for (let alias = outputs[key]; alias !== undefined && alias !== key; alias = outputs[alias]) {
+        published.set(alias, [...(published.get(alias) || []), id]);
+      }
+    }
+  }
+  if (published.size > 0) {
+    for (const [id, service] of Object.entries(services)) {
+      for (const ref of consumedKeys(id, service)) {
+        for (const source of published.get(ref.key) || []) {
+          if (source !== id) upstream[id].add(source);
+        }
+      }
+    }
+  }
+  return Object.fromEntries(Object.entries(upstream).map(([id, set]) => [id, [...set]]));
+}
+
+/** Tarjan's algorithm; components come out in document order of their first member */
+function components(ids: string[], upstream: Record<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const found: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    low.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+    for (const next of upstream[id] || []) {
+      if (!index.has(next)) {
+        visit(next);
+        low.set(id, Math.min(low.get(id)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(id, Math.min(low.get(id)!, index.get(next)!));
+      }
+    }
+    if (low.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      found.push(component);
+    }
+  };
+  for (const id of ids) if (!index.has(id)) visit(id);
+
+  const position = new Map(ids.map((id, i) => [id, i]));
+  return found
+    .map(component => component.sort((a, b) => position.get(a)! - position.get(b)!))
+    .sort((a, b) => position.get(a[0])! - position.get(b[0])!);
+}
+
+export function planExecution(services: Record<string, Service>, outputs: Record<string, string> = {}): ExecutionPlan {
+  const ids = Object.keys(services);
+  const upstream = dependencies(services, outputs);
+  const comps = components(ids, upstream);
+  const componentOf = new Map<string, number>();
+  comps.forEach((members, c) => members.forEach(id => componentOf.set(id, c)));
+  const cycles = comps.filter(members => members.length > 1);
+
+  // Kahn's algorithm over the components, one level at a time
+  const waitingOn = comps.map((members, self) => new Set(
+    members.flatMap(id => upstream[id]).map(id => componentOf.get(id)!).filter(c => c !== self)
+  ));
+  const batches: string[][] = [];
+  const done = new Set<number>();
+  while (done.size < comps.length) {
+    const ready = comps.map((_, c) => c).filter(c => !done.has(c) && [...waitingOn[c]].every(dep => done.has(dep)));
+    const single = ready.filter(c => comps[c].length === 1).map(c => comps[c][0]);
+    if (single.length > 0) batches.push(single);
+    for (const c of ready) {
+      if (comps[c].length > 1) comps[c].forEach(id => batches.push([id]));
+      done.add(c);
+    }
+  }
+
+  return { order: batches.flat(), batches, cycles };
+}
+
+/** Where each service runs in a tick: 1 for the first batch, 2 for the next and so on */
+export function executionSteps(plan: ExecutionPlan): Record<string, number> {
+  const steps: Record<string, number> = {};
+  plan.batches.forEach((batch, i) => batch.forEach(id => { steps[id] = i + 1; }));
+  return steps;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { evaluate, FORBIDDEN_PROPERTIES, type EvalOptions } from './expression-evaluator';
+import { ExpressionError, MAX_EXPRESSION_LENGTH, parseExpression } from './expression-parser';
+
+const run = (src: string, scope: Record<string, any> = {}, options?: EvalOptions) => evaluate(parseExpression(src), scope, options);
+
+function failure(fn: () => unknown): ExpressionError {
+  try {
+    fn();
+  } catch (error: any) {
+    expect(error).toBeInstanceOf(ExpressionError);
+    return error;
+  }
+  throw new Error('Expected an ExpressionError');
+}
+
+describe('evaluate', () => {
+  it('reads the scope and calls library functions', () => {
+    expect(run('row.qty * 2 + max(1, 5)', { row: { qty: 3 } })).toBe(11);
+    expect(run('upper(row?.name ?? "none")', { row: null })).toBe('NONE');
+    expect(run('row.tags.includes("b") ? Math.PI > 3 : false', { row: { tags: ['a', 'b'] } })).toBe(true);
+  });
+
+  it('takes now and random from the options', () => {
+    const options = { now: () => '2024-01-01T00:00:00.000Z', random: () => 0.5 };
+    expect(run('now()', {}, options)).toBe('2024-01-01T00:00:00.000Z');
+    expect(run('randomInt(1, 3)', {}, options)).toBe(2);
+  });
+});
+
+describe('sandbox', () => {
+  it.each([...FORBIDDEN_PROPERTIES])('refuses to read %s', name => {
+    const error = failure(() => run(`row["${name}"]`, { row: {} }));
+    expect(error.message).toBe(`Access to "${name}" is not allowed`);
+    expect(error.phase).toBe('eval');
+  });
+
+  it('never reads inherited properties or functions', () => {
+    expect(run('row.toString', { row: {} })).toBeUndefined();
+    expect(run('row.hasOwnProperty', { row: {} })).toBeUndefined();
+    expect(run('row.fn', { row: { fn: () => 1 } })).toBeUndefined();
+    expect(run('"abc".valueOf', {})).toBeUndefined();
+  });
+
+  it('only calls library functions and listed methods', () => {
+    expect(failure(() => run('eval("1")')).message).toBe('Unknown function "eval"');
+    expect(failure(() => run('require("fs")')).message).toBe('Unknown function "require"');
+    expect(failure(() => run('"a".constructor("x")')).message).toBe('string has no method "constructor"');
+    expect(failure(() => run('row.fn()', { row: { fn: () => 1 } })).message).toBe('object has no method "fn"');
+    expect(failure(() => run('Math.constructor')).message).toBe('Math.constructor is not available');
+  });
+
+  it('rejects unknown names and JavaScript keywords', () => {
+    expect(failure(() => run('globalThis')).message).toBe('Unknown name "globalThis"');
+    expect(failure(() => run('this')).message).toBe('"this" is not allowed in expressions');
+    expect(failure(() => run('new Date()')).message).toBe('"new" is not allowed in expressions');
+  });
+});
+
+describe('limits', () => {
+  it('stops after maxSteps nodes', () => {
+    expect(run('1 + 2 + 3', {}, { limits: { maxSteps: 5 } })).toBe(6);
+    const error = failure(() => run('1 + 2 + 3 + 4', {}, { limits: { maxSteps: 5 } }));
+    expect(error.message).toBe('Expression exceeded 5 steps');
+  });
+
+  it('stops once the time budget is spent', () => {
+    const scope = {};
+    Object.defineProperty(scope, 'slow', {
+      enumerable: true,
+      get() {
+        const until = Date.now() + 1;
+        while (Date.now() <= until) { /* spin */ }
+        return 1;
+      }
+    });
+    const src = Array(300).fill('slow').join('+');
+    expect(failure(() => run(src, scope, { limits: { timeoutMs: 5 } })).message).toBe('Expression exceeded 5ms');
+  });
+
+  it('caps the length of strings it builds', () => {
+    const limits = { maxStringLength: 10 };
+    expect(run('s + s', { s: 'abcde' }, { limits })).toBe('abcdeabcde');
+    expect(failure(() => run('s + s + s', { s: 'abcde' }, { limits })).message).toBe('String longer than 10 characters');
+    expect(failure(() => run('s.padStart(11)', { s: 'a' }, { limits })).message).toBe('String longer than 10 characters');
+    expect(failure(() => run('s.concat(s, s)', { s: 'abcde' }, { limits })).message).toBe('String longer than 10 characters');
+    expect(failure(() => run('upper(s + "a")', { s: 'abcdefghij' }, { limits })).message).toBe('String longer than 10 characters');
+  });
+
+  it('refuses source text that is too long or nested too deeply', () => {
+    expect(failure(() => parseExpression('1+'.repeat(MAX_EXPRESSION_LENGTH) + '1')).message).toBe(`Expression longer than ${MAX_EXPRESSION_LENGTH} characters`);
+    expect(failure(() => parseExpression('('.repeat(100) + '1' + ')'.repeat(100))).message).toBe('Expression nested too deeply');
+  });
+});
@@ -0,0 +1,219 @@
+import { FUNCTIONS, MATH_NAMESPACE, METHODS } from './expression-functions';
+import type { FunctionEnv } from './expression-functions';
+import { ExpressionError } from './expression-parser';
+import type { ExprNode } from './expression-parser';
+
+// ============================================================================
+// EXPRESSION EVALUATOR
+// ============================================================================
+//
+// Walks a parsed expression against a plain scope object. Property reads only
+// see own data properties (never prototypes), calls only reach the function
+// library, and every evaluation is bounded by a step count and a wall-clock
+// budget so a hostile spec cannot hang a tick.
+
+export interface EvalLimits {
+  /** Maximum AST nodes visited per evaluation */
+  maxSteps: number;
+  /** Wall-clock budget per evaluation */
+  timeoutMs: number;
+  /** Longest string any operation may produce */
+  maxStringLength: number;
+}
+
+export const DEFAULT_LIMITS: EvalLimits = { maxSteps: 10_000, timeoutMs: 50, maxStringLength: 1_000_000 };
+
+export interface EvalOptions {
+  limits?: Partial<EvalLimits>;
+  now?: () => string;
+  random?: () => number;
+}
+
+export const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'constructor', 'prototype', '__defineGetter__', '__defineSetter__', '__lookupGetter__', '__lookupSetter__']);
+
+/** Marks a short-circuited optional chain until it reaches the enclosing Chain node. */
+const SHORT_CIRCUIT = Symbol('short-circuit');
+
+const MATH = Object.freeze({ __namespace: 'Math' });
+
+class Evaluator {
+  private steps = 0;
+  private deadline: number;
+  private limits: EvalLimits;
+  private env: FunctionEnv;
+
+  constructor(private scope: Record<string, any>, options: EvalOptions) {
+    this.limits = { ...DEFAULT_LIMITS, ...options.limits };
+    this.deadline = Date.now() + this.limits.timeoutMs;
+    this.env = { now: options.now || (() => new Date().toISOString()), random: options.random || Math.random };
+  }
+
+  run(node: ExprNode): any {
+    const value = this.eval(node);
+    return value === SHORT_CIRCUIT || value === MATH ? undefined : value;
+  }
+
+  private fail(message: string, node: ExprNode): never {
+    throw new ExpressionError(message, node.start, node.end, 'eval');
+  }
+
+  private tick(node: ExprNode) {
+    this.steps++;
+    if (this.steps > this.limits.maxSteps) this.fail(`Expression exceeded ${this.limits.maxSteps} steps`, node);
+    if ((this.steps & 255) === 0 && Date.now() > this.deadline) {
+      this.fail(`Expression exceeded ${this.limits.timeoutMs}ms`, node);
+    }
+  }
+
+  private checkString<T>(value: T, node: ExprNode): T {
+    if (typeof value === 'string' && value.length > this.limits.maxStringLength) {
+      this.fail(`String longer than ${this.limits.maxStringLength} characters`, node);
+    }
+    return value;
+  }
+
+  private eval(node: ExprNode): any {
+    this.tick(node);
+
+    switch (node.type) {
+      case 'Literal':
+        return node.value;
+
+      case 'Identifier':
+        if (node.name === 'Math') return MATH;
+        if (!Object.prototype.hasOwnProperty.call(this.scope, node.name)) this.fail(`Unknown name "${node.name}"`, node);
+        return this.scope[node.name];
+
+      case 'Array':
+        return node.elements.map(el => this.value(el));
+
+      case 'Chain': {
+        const value = this.eval(node.expression);
+        return value === SHORT_CIRCUIT ? undefined : value;
+      }
+
+      case 'Member': {
+        const object = this.eval(node.object);
+        if (object === SHORT_CIRCUIT) return SHORT_CIRCUIT;
+        if (node.optional && (object === null || object === undefined)) return SHORT_CIRCUIT;
+        const key = node.computed ? this.value(node.property) : node.property.type === 'Literal' ? node.property.value : undefined;
+        return this.read(object, key, node.property);
+      }
+
+      case 'Call':
+        return this.call(node);
+
+      case 'Unary': {
+        const arg = this.value(node.argument);
+        if (node.op === '!') return !arg;
+        if (node.op === '-') return -arg;
+        return +arg;
+      }
+
+      case 'Logical': {
+        const left = this.value(node.left);
+        if (node.op === '&&') return left ? this.value(node.right) : left;
+        if (node.op === '||') return left ? left : this.value(node.right);
+        return left !== null && left !== undefined ? left : this.value(node.right);
+      }
+
+      case 'Binary':
+        return this.binary(node.op, this.value(node.left), this.value(node.right), node);
+
+      case 'Conditional':
+        return this.value(node.test) ? this.value(node.consequent) : this.value(node.alternate);
+    }
+  }
+
+  /** Evaluates a node that must produce a plain value */
+  private value(node: ExprNode): any {
+    const value = this.eval(node);
+    if (value === MATH) this.fail('Math can only be used as Math.<name>', node);
+    return value === SHORT_CIRCUIT ? undefined : value;
+  }
+
+  private read(object: any, key: any, node: ExprNode): any {
+    if (object === MATH) {
+      if (typeof key === 'string' && Object.prototype.hasOwnProperty.call(MATH_NAMESPACE.constants, key)) return MATH_NAMESPACE.constants[key];
+      this.fail(`Math.${key} is not available`, node);
+    }
+    if (object === null || object === undefined) {
+      this.fail(`Cannot read "${key}" of ${object}`, node);
+    }
+    if (typeof key === 'number' && (typeof object === 'string' || Array.isArray(object))) return object[key];
+
+    const name = String(key);
+    if (FORBIDDEN_PROPERTIES.has(name)) this.fail(`Access to "${name}" is not allowed`, node);
+    if ((typeof object === 'string' || Array.isArray(object)) && name === 'length') return object.length;
+    if (typeof object !== 'object' && typeof object !== 'string') return undefined;
+    if (!Object.prototype.hasOwnProperty.call(object, name)) return undefined;
+
+    const value = object[name];
+    return typeof value === 'function' ? undefined : value;
+  }
+
+  private call(node: Extract<ExprNode, { type: 'Call' }>): any {
+    const { callee } = node;
+
+    if (callee.type === 'Identifier') {
+      const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, callee.name) ? FUNCTIONS[callee.name] : undefined;
+      if (!fn) this.fail(`Unknown function "${callee.name}"`, callee);
+      const args = node.args.map(arg => this.value(arg));
+      return this.checkString(fn(this.env, ...args), node);
+    }
+
+    if (callee.type !== 'Member' || callee.computed || callee.property.type !== 'Literal') {
+      this.fail('Only named functions and methods can be called', callee);
+    }
+
+    const receiver = this.eval(callee.object);
+    if (receiver === SHORT_CIRCUIT) return SHORT_CIRCUIT;
+    if (callee.optional && (receiver === null || receiver === undefined)) return SHORT_CIRCUIT;
+
+    const name: string = callee.property.value;
+    const args = node.args.map(arg => this.value(arg));
+
+    if (receiver === MATH) {
+      const fn = Object.prototype.hasOwnProperty.call(MATH_NAMESPACE.functions, name) ? MATH_NAMESPACE.functions[name] : undefined;
+      if (!fn) this.fail(`Math.${name} is not available`, callee.property);
+      return fn(this.env, ...args);
+    }
+
+    const kind = typeof receiver === 'string' ? 'string' : Array.isArray(receiver) ? 'array' : typeof receiver === 'number' ? 'number' : null;
+    if (!kind || !METHODS[kind].includes(name)) {
+      this.fail(`${kind ?? (receiver === null ? 'null' : typeof receiver)} has no method "${name}"`, callee.property);
+    }
+    if ((name === 'padStart' || name === 'padEnd') && args[0] > this.limits.maxStringLength) {
+      this.fail(`String longer than ${this.limits.maxStringLength} characters`, node);
+    }
+
+    const result = (receiver as any)[name](...args);
+    return this.checkString(result, node);
+  }
+
+  private binary(op: string, a: any, b: any, node: ExprNode): any {
+    switch (op) {
+      case '+': return this.checkString(a + b, node);
+      case '-': return a - b;
+      case '*': return a * b;
+      case '/': return a / b;
+      case '%': return a % b;
+      case '**': return a ** b;
+      case '===': return a === b;
+      case '!==': return a !== b;
+      // Loose on purpose, so '5' == 5 holds as it does in JavaScript
+      case '==': return a == b;
+      case '!=': return a != b;
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '>': return a > b;
+      case '>=': return a >= b;
+      default: return this.fail(`Unknown operator "${op}"`, node);
+    }
+  }
+}
+
+/** Evaluates a parsed expression; throws `ExpressionError` on runtime failures and exceeded limits. */
+export function evaluate(node: ExprNode, scope: Record<string, any>, options: EvalOptions = {}): any {
+  return new Evaluator(scope, options).run(node);
+}
@@ -0,0 +1,174 @@
+// ============================================================================
+// EXPRESSION FUNCTION LIBRARY
+// ============================================================================
+//
+// The only callables an expression can reach. Global functions are called by
+// name (`round(row.price, 2)`), a few JavaScript methods without callbacks are
+// allowed on strings, arrays and numbers (`row.name.toLowerCase()`), and
+// `Math.*` maps onto the math functions below. Dates are ISO strings and every
+// date function works in UTC, so results do not depend on the viewer's zone.
+// `now()` and `random()` read the engine's clock and seeded generator, so a
+// replayed run sees the same values.
+
+export interface FunctionEnv {
+  /** Current time as an ISO string; the engine passes its clock */
+  now: () => string;
+  /** Uniform number in [0, 1); the engine passes its seeded generator */
+  random: () => number;
+}
+
+type ExprFunction = (env: FunctionEnv, ...args: any[]) => any;
+
+const DAY_MS = 86_400_000;
+const HOUR_MS = 3_600_000;
+
+function toNumber(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isNaN(n) ? null : n;
+}
+
+function toDate(value: any): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function dateOp<T>(fn: (date: Date) => T) {
+  return (_env: FunctionEnv, value: any) => {
+    const date = toDate(value);
+    return date ? fn(date) : null;
+  };
+}
+
+/** `max(1, 2)` and `max([1, 2])` both work */
+function spread(args: any[]): any[] {
+  return args.length === 1 && Array.isArray(args[0]) ? args[0] : args;
+}
+
+function numbers(args: any[]): number[] {
+  return spread(args).map(toNumber).filter((n): n is number => n !== null);
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+export const FUNCTIONS: Record<string, ExprFunction> = {
+  // math
+  abs: (_e, x) => Math.abs(x),
+  ceil: (_e, x) => Math.ceil(x),
+  floor: (_e, x) => Math.floor(x),
+  round: (_e, x, digits = 0) => {
+    const factor = 10 ** digits;
+    return Math.round(x * factor) / factor;
+  },
+  trunc: (_e, x) => Math.trunc(x),
+  sign: (_e, x) => Math.sign(x),
+  sqrt: (_e, x) => Math.sqrt(x),
+  pow: (_e, x, y) => Math.pow(x, y),
+  exp: (_e, x) => Math.exp(x),
+  log: (_e, x) => Math.log(x),
+  log10: (_e, x) => Math.log10(x),
+  min: (_e, ...args) => {
+    const nums = numbers(args);
+    return nums.length ? Math.min(...nums) : null;
+  },
+  max: (_e, ...args) => {
+    const nums = numbers(args);
+    return nums.length ? Math.max(...nums) : null;
+  },
+  clamp: (_e, x, lo, hi) => Math.min(Math.max(x, lo), hi),
+  random: (env) => env.random(),
+  randomInt: (env, lo, hi) => lo + Math.floor(env.random() * (hi - lo + 1)),
+  sum: (_e, ...args) => numbers(args).reduce((acc, n) => acc + n, 0),
+  avg: (_e, ...args) => {
+    const nums = numbers(args);
+    return nums.length ? nums.reduce((acc, n) => acc + n, 0) / nums.length : null;
+  },
+
+  // strings and collections
+  lower: (_e, s) => String(s ?? '').toLowerCase(),
+  upper: (_e, s) => String(s ?? '').toUpperCase(),
+  trim: (_e, s) => String(s ?? '').trim(),
+  len: (_e, x) => (typeof x === 'string' || Array.isArray(x) ? x.length : x && typeof x === 'object' ? Object.keys(x).length : 0),
+  contains: (_e, haystack, needle) =>
+    Array.isArray(haystack) ? haystack.includes(needle) : String(haystack ?? '').includes(String(needle)),
+  startsWith: (_e, s, prefix) => String(s ?? '').startsWith(String(prefix)),
+  endsWith: (_e, s, suffix) => String(s ?? '').endsWith(String(suffix)),
+  replace: (_e, s, from, to) => String(s ?? '').split(String(from)).join(String(to)),
+  split: (_e, s, sep) => String(s ?? '').split(String(sep)),
+  join: (_e, arr, sep = ',') => (Array.isArray(arr) ? arr.join(String(sep)) : String(arr ?? '')),
+  substr: (_e, s, start, end) => String(s ?? '').slice(start, end),
+  padStart: (_e, s, width, fill = ' ') => String(s ?? '').padStart(Math.min(width, 10_000), String(fill)),
+  str: (_e, x) => (x === null || x === undefined ? '' : typeof x === 'object' ? JSON.stringify(x) : String(x)),
+  num: (_e, x) => toNumber(x),
+  int: (_e, x) => {
+    const n = toNumber(x);
+    return n === null ? null : Math.trunc(n);
+  },
+  keys: (_e, obj) => (obj && typeof obj === 'object' ? Object.keys(obj) : []),
+  coalesce: (_e, ...args) => args.find(a => a !== null && a !== undefined) ?? null,
+  isNull: (_e, x) => x === null || x === undefined || (typeof x === 'number' && Number.isNaN(x)),
+
+  // dates (ISO strings, UTC)
+  now: (env) => env.now(),
+  today: (env) => env.now().slice(0, 10),
+  date: dateOp(d => d.toISOString()),
+  timestamp: dateOp(d => d.getTime()),
+  year: dateOp(d => d.getUTCFullYear()),
+  month: dateOp(d => d.getUTCMonth() + 1),
+  day: dateOp(d => d.getUTCDate()),
+  hour: dateOp(d => d.getUTCHours()),
+  minute: dateOp(d => d.getUTCMinutes()),
+  weekday: dateOp(d => d.getUTCDay()),
+  addDays: (_e, value, n) => {
+    const date = toDate(value);
+    return date ? new Date(date.getTime() + n * DAY_MS).toISOString() : null;
+  },
+  addHours: (_e, value, n) => {
+    const date = toDate(value);
+    return date ? new Date(date.getTime() + n * HOUR_MS).toISOString() : null;
+  },
+  diffDays: (_e, a, b) => {
+    const [da, db] = [toDate(a), toDate(b)];
+    return da && db ? (da.getTime() - db.getTime()) / DAY_MS : null;
+  },
+  diffHours: (_e, a, b) => {
+    const [da, db] = [toDate(a), toDate(b)];
+    return da && db ? (da.getTime() - db.getTime()) / HOUR_MS : null;
+  },
+  formatDate: (_e, value, pattern = 'YYYY-MM-DD') => {
+    const d = toDate(value);
+    if (!d) return null;
+    const parts: Record<string, string> = {
+      YYYY: String(d.getUTCFullYear()),
+      MM: pad(d.getUTCMonth() + 1),
+      DD: pad(d.getUTCDate()),
+      HH: pad(d.getUTCHours()),
+      mm: pad(d.getUTCMinutes()),
+      ss: pad(d.getUTCSeconds())
+    };
+    return String(pattern).replace(/YYYY|MM|DD|HH|mm|ss/g, token => parts[token]);
+  }
+};
+
+const MATH_FUNCTIONS = ['abs', 'ceil', 'floor', 'round', 'trunc', 'sign', 'sqrt', 'pow', 'exp', 'log', 'log10', 'min', 'max', 'random'];
+
+/** `Math` inside an expression: constants plus the math functions above. */
+export const MATH_NAMESPACE = {
+  constants: { PI: Math.PI, E: Math.E } as Record<string, number>,
+  functions: Object.fromEntries(MATH_FUNCTIONS.map(name => [name, FUNCTIONS[name]]))
+};
+
+/** Methods callable on values of each runtime type. None take callbacks. */
+export const METHODS: Record<'string' | 'array' | 'number', string[]> = {
+  string: [
+    'toLowerCase', 'toUpperCase', 'trim', 'trimStart', 'trimEnd', 'startsWith', 'endsWith', 'includes',
+    'indexOf', 'lastIndexOf', 'slice', 'substring', 'split', 'replace', 'replaceAll', 'charAt', 'padStart',
+    'padEnd', 'at', 'concat', 'toString'
+  ],
+  array: ['includes', 'indexOf', 'lastIndexOf', 'join', 'slice', 'concat', 'at'],
+  number: ['toFixed', 'toString']
+};
+
+/** Every name that can appear after a `.` in a call, for static checks. */
+export const METHOD_NAMES = new Set([...METHODS.string, ...METHODS.array, ...METHODS.number, ...MATH_FUNCTIONS]);
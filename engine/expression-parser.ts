@@ -0,0 +1,359 @@
+// ============================================================================
+// EXPRESSION PARSER
+// ============================================================================
+//
+// Spec expressions (`select`, `derive`, `condition`, `{{ }}` templates) are a
+// small JavaScript-like language: literals, `data` / `state` / `row`, property
+// access with optional chaining, arithmetic, comparison, logical and ternary
+// operators, and calls to whitelisted functions. There is no assignment, no
+// `new`, no function literals and no way to reach globals. Every node keeps the
+// source range it came from so errors can point at the offending text.
+
+export class ExpressionError extends Error {
+  /** Offending source range, as string offsets (end exclusive) */
+  start: number;
+  end: number;
+  phase: 'parse' | 'eval';
+
+  constructor(message: string, start: number, end: number, phase: 'parse' | 'eval' = 'parse') {
+    super(message);
+    this.name = 'ExpressionError';
+    this.start = start;
+    this.end = Math.max(end, start + 1);
+    this.phase = phase;
+  }
+}
+
+export type ExprNode =
+  | { type: 'Literal'; value: any; start: number; end: number }
+  | { type: 'Identifier'; name: string; start: number; end: number }
+  | { type: 'Array'; elements: ExprNode[]; start: number; end: number }
+  | { type: 'Member'; object: ExprNode; property: ExprNode; computed: boolean; optional: boolean; start: number; end: number }
+  | { type: 'Call'; callee: ExprNode; args: ExprNode[]; optional: boolean; start: number; end: number }
+  | { type: 'Chain'; expression: ExprNode; start: number; end: number }
+  | { type: 'Unary'; op: '!' | '-' | '+'; argument: ExprNode; start: number; end: number }
+  | { type: 'Binary'; op: string; left: ExprNode; right: ExprNode; start: number; end: number }
+  | { type: 'Logical'; op: '&&' | '||' | '??'; left: ExprNode; right: ExprNode; start: number; end: number }
+  | { type: 'Conditional'; test: ExprNode; consequent: ExprNode; alternate: ExprNode; start: number; end: number };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'punct' | 'eof';
+  value: any;
+  start: number;
+  end: number;
+}
+
+const PUNCTUATORS = [
+  '===', '!==', '?.', '??', '==', '!=', '<=', '>=', '&&', '||', '**',
+  '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', ',', '(', ')', '[', ']'
+];
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' };
+
+const KEYWORDS: Record<string, any> = { true: true, false: false, null: null, undefined };
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(src[i + 1] || ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(src.slice(i))!;
+      i += match[0].length;
+      if (/[A-Za-z_$]/.test(src[i] || '')) throw new ExpressionError('Invalid number', start, i + 1);
+      tokens.push({ type: 'number', value: Number(match[0]), start, end: i });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(src.slice(i))!;
+      i += match[0].length;
+      tokens.push({ type: 'name', value: match[0], start, end: i });
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < src.length && src[i] !== ch) {
+        if (src[i] === '\\') {
+          const next = src[i + 1];
+          if (next === undefined) break;
+          if (next === 'u' && /^[0-9a-fA-F]{4}$/.test(src.slice(i + 2, i + 6))) {
+            value += String.fromCharCode(parseInt(src.slice(i + 2, i + 6), 16));
+            i += 6;
+            continue;
+          }
+          value += ESCAPES[next] ?? next;
+          i += 2;
+          continue;
+        }
+        value += src[i++];
+      }
+      if (src[i] !== ch) throw new ExpressionError('Unterminated string', start, src.length);
+      i++;
+      tokens.push({ type: 'string', value, start, end: i });
+      continue;
+    }
+
+    const punct = PUNCTUATORS.find(p => src.startsWith(p, i));
+    // `a?.5:1` is a ternary, not optional chaining
+    if (punct && !(punct === '?.' && /[0-9]/.test(src[i + 2] || ''))) {
+      i += punct.length;
+      tokens.push({ type: 'punct', value: punct, start, end: i });
+      continue;
+    }
+    if (punct === '?.') {
+      i++;
+      tokens.push({ type: 'punct', value: '?', start, end: i });
+      continue;
+    }
+
+    if (ch === '`') throw new ExpressionError('Template literals are not supported; use + or {{ }}', start, start + 1);
+    if (ch === '=') throw new ExpressionError('Assignment is not allowed; use === to compare', start, start + 1);
+    throw new ExpressionError(`Unexpected character "${ch}"`, start, start + 1);
+  }
+
+  tokens.push({ type: 'eof', value: null, start: src.length, end: src.length });
+  return tokens;
+}
+
+const BINARY_PRECEDENCE: [string[], 'Binary' | 'Logical'][] = [
+  [['??'], 'Logical'],
+  [['||'], 'Logical'],
+  [['&&'], 'Logical'],
+  [['===', '!==', '==', '!='], 'Binary'],
+  [['<', '<=', '>', '>='], 'Binary'],
+  [['+', '-'], 'Binary'],
+  [['*', '/', '%'], 'Binary']
+];
+
+/** Guards the recursive-descent parser and evaluator against pathological input */
+export const MAX_EXPRESSION_LENGTH = 2_000;
+const MAX_DEPTH = 64;
+
+const RESERVED = new Set(['new', 'function', 'this', 'class', 'import', 'delete', 'void', 'typeof', 'instanceof', 'in', 'var', 'let', 'const', 'return', 'yield', 'await']);
+
+class Parser {
+  private tokens: Token[];
+  private pos = 0;
+  private depth = 0;
+
+  constructor(private src: string) {
+    if (src.length > MAX_EXPRESSION_LENGTH) {
+      throw new ExpressionError(`Expression longer than ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH, src.length);
+    }
+    this.tokens = tokenize(src);
+  }
+
+  parse(): ExprNode {
+    if (this.peek().type === 'eof') throw new ExpressionError('Empty expression', 0, Math.max(1, this.src.length));
+    const node = this.conditional();
+    const next = this.peek();
+    if (next.type !== 'eof') throw this.unexpected(next);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    const token = this.peek();
+    if (token.type !== 'punct' || token.value !== value) {
+      throw new ExpressionError(
+        token.type === 'eof' ? `Expected "${value}" before end of expression` : `Expected "${value}"`,
+        token.start,
+        token.end
+      );
+    }
+    return this.next();
+  }
+
+  private unexpected(token: Token): ExpressionError {
+    if (token.type === 'eof') return new ExpressionError('Unexpected end of expression', token.start, token.end);
+    return new ExpressionError(`Unexpected "${this.src.slice(token.start, token.end)}"`, token.start, token.end);
+  }
+
+  private nested(parse: () => ExprNode): ExprNode {
+    if (++this.depth > MAX_DEPTH) {
+      const token = this.peek();
+      throw new ExpressionError('Expression nested too deeply', token.start, token.end);
+    }
+    const node = parse();
+    this.depth--;
+    return node;
+  }
+
+  private conditional(): ExprNode {
+    return this.nested(() => this.ternary());
+  }
+
+  private ternary(): ExprNode {
+    const test = this.binary(0);
+    if (!this.isPunct('?')) return test;
+    this.next();
+    const consequent = this.conditional();
+    this.expect(':');
+    const alternate = this.conditional();
+    return { type: 'Conditional', test, consequent, alternate, start: test.start, end: alternate.end };
+  }
+
+  private binary(level: number): ExprNode {
+    if (level >= BINARY_PRECEDENCE.length) return this.exponent();
+    const [ops, type] = BINARY_PRECEDENCE[level];
+    let left = this.binary(level + 1);
+    while (this.peek().type === 'punct' && ops.includes(this.peek().value)) {
+      const op = this.next().value;
+      const right = this.binary(level + 1);
+      left = { type, op, left, right, start: left.start, end: right.end } as ExprNode;
+    }
+    return left;
+  }
+
+  private exponent(): ExprNode {
+    const base = this.unary();
+    if (!this.isPunct('**')) return base;
+    this.next();
+    const power = this.nested(() => this.exponent());
+    return { type: 'Binary', op: '**', left: base, right: power, start: base.start, end: power.end };
+  }
+
+  private unary(): ExprNode {
+    const token = this.peek();
+    if (token.type === 'punct' && (token.value === '!' || token.value === '-' || token.value === '+')) {
+      this.next();
+      const argument = this.nested(() => this.unary());
+      return { type: 'Unary', op: token.value, argument, start: token.start, end: argument.end };
+    }
+    return this.postfix();
+  }
+
+  private postfix(): ExprNode {
+    let node = this.primary();
+    let optionalChain = false;
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'punct') break;
+
+      if (token.value === '.' || token.value === '?.') {
+        this.next();
+        const optional = token.value === '?.';
+        optionalChain ||= optional;
+
+        if (optional && this.isPunct('[')) {
+          node = this.computedMember(node, true);
+          continue;
+        }
+        if (optional && this.isPunct('(')) {
+          node = this.call(node, true);
+          continue;
+        }
+
+        const name = this.next();
+        if (name.type !== 'name') throw new ExpressionError('Expected a property name', name.start, name.end);
+        node = {
+          type: 'Member',
+          object: node,
+          property: { type: 'Literal', value: name.value, start: name.start, end: name.end },
+          computed: false,
+          optional,
+          start: node.start,
+          end: name.end
+        };
+      } else if (token.value === '[') {
+        node = this.computedMember(node, false);
+      } else if (token.value === '(') {
+        node = this.call(node, false);
+      } else {
+        break;
+      }
+    }
+
+    return optionalChain ? { type: 'Chain', expression: node, start: node.start, end: node.end } : node;
+  }
+
+  private computedMember(object: ExprNode, optional: boolean): ExprNode {
+    this.expect('[');
+    const property = this.conditional();
+    const close = this.expect(']');
+    return { type: 'Member', object, property, computed: true, optional, start: object.start, end: close.end };
+  }
+
+  private call(callee: ExprNode, optional: boolean): ExprNode {
+    if (callee.type !== 'Identifier' && !(callee.type === 'Member' && !callee.computed)) {
+      throw new ExpressionError('Only named functions and methods can be called', callee.start, callee.end);
+    }
+    this.expect('(');
+    const args = this.list(')');
+    const close = this.expect(')');
+    return { type: 'Call', callee, args, optional, start: callee.start, end: close.end };
+  }
+
+  private list(close: string): ExprNode[] {
+    const items: ExprNode[] = [];
+    while (!this.isPunct(close)) {
+      items.push(this.conditional());
+      if (!this.isPunct(',')) break;
+      this.next();
+    }
+    return items;
+  }
+
+  private primary(): ExprNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'Literal', value: token.value, start: token.start, end: token.end };
+
+      case 'name':
+        if (token.value in KEYWORDS) return { type: 'Literal', value: KEYWORDS[token.value], start: token.start, end: token.end };
+        if (RESERVED.has(token.value)) {
+          throw new ExpressionError(`"${token.value}" is not allowed in expressions`, token.start, token.end);
+        }
+        return { type: 'Identifier', name: token.value, start: token.start, end: token.end };
+
+      case 'punct':
+        if (token.value === '(') {
+          const inner = this.conditional();
+          this.expect(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          const elements = this.list(']');
+          const close = this.expect(']');
+          return { type: 'Array', elements, start: token.start, end: close.end };
+        }
+        throw this.unexpected(token);
+
+      default:
+        throw this.unexpected(token);
+    }
+  }
+}
+
+/** Parses an expression, throwing an `ExpressionError` with the offending range on bad syntax. */
+export function parseExpression(src: string): ExprNode {
+  return new Parser(src).parse();
+}
@@ -0,0 +1,193 @@
+import { evaluate, FORBIDDEN_PROPERTIES } from './expression-evaluator';
+import type { EvalLimits } from './expression-evaluator';
+import { FUNCTIONS, METHOD_NAMES } from './expression-functions';
+import { ExpressionError, parseExpression } from './expression-parser';
+import type { ExprNode } from './expression-parser';
+import type { LogLevel, State } from './types';
+
+// ============================================================================
+// EXPRESSION HELPERS
+// ============================================================================
+
+export interface ExpressionEnv {
+  /** Engine clock for now() / today() */
+  clock?: () => string;
+  /** Engine generator for random() / randomInt() */
+  random?: () => number;
+  /** Where evaluation failures are reported; defaults to console.warn */
+  log?: (level: LogLevel, message: string) => void;
+  limits?: Partial<EvalLimits>;
+}
+
+export interface ExpressionScope {
+  data?: any;
+  state?: State;
+  row?: any;
+  env?: ExpressionEnv;
+}
+
+export interface Rule {
+  name?: string;
+  if?: string;
+  then?: Record<string, any>;
+}
+
+/** Names an expression may refer to; anything else is a typo or an escape attempt. */
+export const EXPRESSION_GLOBALS = ['data', 'state', 'row', 'Math'];
+
+const TEMPLATE_PART = /\{\{(.+?)\}\}/g;
+
+const MAX_CACHED = 500;
+const compiled = new Map<string, ExprNode | ExpressionError>();
+
+function compile(expr: string): ExprNode {
+  let entry = compiled.get(expr);
+  if (!entry) {
+    try {
+      entry = parseExpression(expr);
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+      entry = error;
+    }
+    if (compiled.size >= MAX_CACHED) compiled.clear();
+    compiled.set(expr, entry);
+  }
+  if (entry instanceof ExpressionError) throw entry;
+  return entry;
+}
+
+function walk(node: ExprNode, visit: (node: ExprNode) => void) {
+  visit(node);
+  switch (node.type) {
+    case 'Array': node.elements.forEach(el => walk(el, visit)); break;
+    case 'Member': walk(node.object, visit); if (node.computed) walk(node.property, visit); break;
+    case 'Call':
+      // a bare callee names a library function, not a scope variable
+      if (node.callee.type !== 'Identifier') walk(node.callee, visit);
+      node.args.forEach(arg => walk(arg, visit));
+      break;
+    case 'Chain': walk(node.expression, visit); break;
+    case 'Unary': walk(node.argument, visit); break;
+    case 'Binary':
+    case 'Logical': walk(node.left, visit); walk(node.right, visit); break;
+    case 'Conditional': walk(node.test, visit); walk(node.consequent, visit); walk(node.alternate, visit); break;
+  }
+}
+
+/**
+ * Parses an expression and checks the names it uses, without running it.
+ * Returns null when it is fine, otherwise the error with its source range.
+ */
+export function checkExpression(expr: string): ExpressionError | null {
+  let ast: ExprNode;
+  try {
+    ast = compile(expr);
+  } catch (error) {
+    if (error instanceof ExpressionError) return error;
+    throw error;
+  }
+
+  let problem: ExpressionError | null = null;
+  walk(ast, node => {
+    if (problem) return;
+    if (node.type === 'Call' && node.callee.type === 'Identifier' && !Object.prototype.hasOwnProperty.call(FUNCTIONS, node.callee.name)) {
+      problem = new ExpressionError(`Unknown function "${node.callee.name}"`, node.callee.start, node.callee.end);
+    } else if (node.type === 'Call' && node.callee.type === 'Member' && node.callee.property.type === 'Literal') {
+      const prop = node.callee.property;
+      if (!METHOD_NAMES.has(prop.value)) problem = new ExpressionError(`Unknown method "${prop.value}"`, prop.start, prop.end);
+    } else if (node.type === 'Member' && node.property.type === 'Literal' && FORBIDDEN_PROPERTIES.has(String(node.property.value))) {
+      problem = new ExpressionError(`Access to "${node.property.value}" is not allowed`, node.property.start, node.property.end);
+    } else if (node.type === 'Identifier' && !EXPRESSION_GLOBALS.includes(node.name)) {
+      problem = new ExpressionError(`Unknown name "${node.name}"; use data, state or row`, node.start, node.end);
+    }
+  });
+  return problem;
+}
+
+/** Checks every `{{ }}` part of a template; positions are offsets into the whole string. */
+export function checkTemplate(text: string): ExpressionError | null {
+  for (const match of text.matchAll(TEMPLATE_PART)) {
+    const error = checkExpression(match[1]);
+    if (error) {
+      const offset = match.index! + 2;
+      return new ExpressionError(error.message, error.start + offset, error.end + offset);
+    }
+  }
+  return null;
+}
+
+/** `message (col N)`, for logs and validation issues */
+export function describeExpressionError(error: ExpressionError): string {
+  return `${error.message} (col ${error.start + 1})`;
+}
+
+export function applyRules(data: any, rules: Rule[], context?: { state?: State } & ExpressionEnv): any {
+  let result = JSON.parse(JSON.stringify(data));
+  for (const rule of rules) {
+    if (!rule.if || evalExpression(rule.if, { data: result, state: context?.state || {}, env: context })) {
+      for (const [key, template] of Object.entries(rule.then || {})) {
+        result[key] = templateObject(template, { data: result, state: context?.state || {}, env: context });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Evaluates a spec expression in the sandbox. Failures (syntax, unknown names,
+ * exceeded limits) are reported through `env.log` and yield null.
+ */
+export function evalExpression(expr: string, context: ExpressionScope): any {
+  const { env } = context;
+  try {
+    return evaluate(
+      compile(expr),
+      { data: context.data, state: context.state, row: context.row },
+      { now: env?.clock, random: env?.random, limits: env?.limits }
+    );
+  } catch (error: any) {
+    const reason = error instanceof ExpressionError ? describeExpressionError(error) : error?.message;
+    const shown = expr.length > 80 ? `${expr.slice(0, 77)}...` : expr;
+    const message = `Expression "${shown}" failed: ${reason}`;
+    if (env?.log) env.log('warn', message); else console.warn(message);
+    return null;
+  }
+}
+
+export function templateObject(obj: any, context: ExpressionScope): any {
+  if (typeof obj === 'string') {
+    const match = obj.match(/^\{\{(.+?)\}\}$/);
+    if (match) {
+      return evalExpression(match[1].trim(), context);
+    }
+
+    return obj.replace(TEMPLATE_PART, (_, expr) => {
+      const result = evalExpression(expr.trim(), context);
+      return result !== null && result !== undefined ? result : '';
+    });
+  }
+
+  if (Array.isArray(obj)) {
+    return obj.map(item => templateObject(item, context));
+  }
+
+  if (typeof obj === 'object' && obj !== null) {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(obj)) {
+      result[key] = templateObject(value, context);
+    }
+    return result;
+  }
+
+  return obj;
+}
+
+export function pick(obj: Record<string, any>, fields: string[]): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const field of fields) {
+    if (Object.prototype.hasOwnProperty.call(obj, field)) {
+      result[field] = obj[field];
+    }
+  }
+  return result;
+}
@@ -0,0 +1,43 @@
+import { EDTEngine } from './edt-engine';
+import { PRIMITIVE_HANDLERS } from './primitives';
+import type { EngineOptions } from './types';
+
+export * from './types';
+export * from './expression-parser';
+export * from './expression-evaluator';
+export * from './expression-functions';
+export * from './expressions';
+export * from './pipes';
+export * from './spc-schema';
+export * from './spc-format';
+export * from './spc-diff';
+export * from './spc-merge';
+export * from './spc-rename';
+export * from './spc-templates';
+export * from './spc-clipboard';
+export * from './dataflow';
+export * from './execution-plan';
+export * from './schedule';
+export * from './recovery';
+export * from './layout';
+export * from './composite';
+export * from './data-preview';
+export * from './spc-tests';
+export * from './runtime';
+export * from './timeline';
+export * from './ledger';
+export * from './edt-engine';
+export * from './primitives';
+
+/**
+ * Builds an engine with every built-in primitive registered; the studio, the
+ * CLI and edt-microkernel.html all start here. Pass a virtual clock, a seed
+ * and a replaying transport for a run that repeats exactly.
+ */
+export function createEngine(options: EngineOptions = {}): EDTEngine {
+  const engine = new EDTEngine(options);
+  for (const handler of PRIMITIVE_HANDLERS) {
+    engine.register(handler);
+  }
+  return engine;
+}
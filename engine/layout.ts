@@ -0,0 +1,233 @@
+import { computeConnections } from './dataflow';
+import type { Position, Service } from './types';
+
+// ============================================================================
+// DATAFLOW LAYOUT
+// ============================================================================
+//
+// Layered (Sugiyama-style) layout over the producer → consumer graph that
+// `computeConnections` derives, router targets included:
+//
+//   1. cycles are broken by reversing back edges found depth-first;
+//   2. each service goes one layer right of its furthest producer;
+//   3. edges spanning several layers get placeholder slots, so long edges
+//      run between nodes instead of through them;
+//   4. layers are reordered by neighbour barycentre, sweeping right and left,
+//      keeping whichever order had the fewest crossings.
+
+export interface LayoutOptions {
+  nodeWidth?: number;
+  nodeHeight?: number;
+  /** Horizontal gap between layers */
+  gapX?: number;
+  /** Vertical gap between nodes in a layer */
+  gapY?: number;
+  origin?: Position;
+}
+
+const DEFAULTS: Required<LayoutOptions> = {
+  nodeWidth: 240,
+  nodeHeight: 110,
+  gapX: 80,
+  gapY: 40,
+  origin: { x: 100, y: 100 }
+};
+
+const SWEEPS = 8;
+
+/** Unique producer → consumer pairs, self-loops dropped */
+function graphEdges(services: Record<string, Service>): [string, string][] {
+  const seen = new Set<string>();
+  const edges: [string, string][] = [];
+  for (const conn of computeConnections(services)) {
+    const key = `${conn.source}\u0000${conn.target}`;
+    if (conn.source === conn.target || seen.has(key)) continue;
+    seen.add(key);
+    edges.push([conn.source, conn.target]);
+  }
+  return edges;
+}
+
+/** Reverses the edges that close a cycle, visiting services in document order */
+function acyclic(ids: string[], edges: [string, string][]): [string, string][] {
+  const out = new Map(ids.map(id => [id, [] as string[]]));
+  edges.forEach(([from, to]) => out.get(from)!.push(to));
+  const state = new Map<string, 'active' | 'done'>();
+  const back = new Set<string>();
+
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    for (const next of out.get(id)!) {
+      if (state.get(next) === 'active') back.add(`${id}\u0000${next}`);
+      else if (!state.has(next)) visit(next);
+    }
+    state.set(id, 'done');
+  };
+  ids.forEach(id => { if (!state.has(id)) visit(id); });
+
+  return edges.map(([from, to]) => (back.has(`${from}\u0000${to}`) ? [to, from] : [from, to]));
+}
+
+/** Longest-path layering: sources in layer 0, everything else right of all its producers */
+function assignLayers(ids: string[], edges: [string, string][]): Map<string, number> {
+  const incoming = new Map(ids.map(id => [id, [] as string[]]));
+  edges.forEach(([from, to]) => incoming.get(to)!.push(from));
+  const layer = new Map<string, number>();
+  const place = (id: string): number => {
+    if (layer.has(id)) return layer.get(id)!;
+    layer.set(id, 0); // guards against re-entry; the graph is acyclic by now
+    const value = Math.max(-1, ...incoming.get(id)!.map(place)) + 1;
+    layer.set(id, value);
+    return value;
+  };
+  ids.forEach(place);
+  return layer;
+}
+
+function countCrossings(layers: string[][], edges: [string, string][]): number {
+  const index = new Map<string, number>();
+  layers.forEach(layer => layer.forEach((id, i) => index.set(id, i)));
+  const byLayer = new Map<number, [number, number][]>();
+  const layerOf = new Map<string, number>();
+  layers.forEach((layer, l) => layer.forEach(id => layerOf.set(id, l)));
+  for (const [from, to] of edges) {
+    const l = layerOf.get(from)!;
+    byLayer.set(l, [...(byLayer.get(l) || []), [index.get(from)!, index.get(to)!]]);
+  }
+  let crossings = 0;
+  for (const pairs of byLayer.values()) {
+    for (let i = 0; i < pairs.length; i++) {
+      for (let j = i + 1; j < pairs.length; j++) {
+        const [a1, b1] = pairs[i];
+        const [a2, b2] = pairs[j];
+        if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+      }
+    }
+  }
+  return crossings;
+}
+
+/** Orders each layer by the mean position of its neighbours in the layer before (or after). */
+function reorder(layers: string[][], neighbours: Map<string, string[]>, fromLeft: boolean) {
+  const range = fromLeft ? layers.map((_, l) => l).slice(1) : layers.map((_, l) => l).slice(0, -1).reverse();
+  for (const l of range) {
+    const fixed = layers[fromLeft ? l - 1 : l + 1];
+    const pos = new Map(fixed.map((id, i) => [id, i]));
+    const barycentre = new Map(layers[l].map((id, i) => {
+      const adjacent = (neighbours.get(id) || []).filter(n => pos.has(n)).map(n => pos.get(n)!);
+      return [id, adjacent.length ? adjacent.reduce((a, b) => a + b, 0) / adjacent.length : i];
+    }));
+    layers[l] = [...layers[l]].sort((a, b) => barycentre.get(a)! - barycentre.get(b)!);
+  }
+}
+
+/** Positions for every service, arranged left to right along the dataflow. */
+export function layoutServices(services: Record<string, Service>, options: LayoutOptions = {}): Record<string, Position> {
+  const { nodeWidth, nodeHeight, gapX, gapY, origin } = { ...DEFAULTS, ...options };
+  const ids = Object.keys(services);
+  if (ids.length === 0) return {};
+
+  const edges = acyclic(ids, graphEdges(services));
+  const layerOf = assignLayers(ids, edges);
+
+  // Split long edges into one-layer hops through placeholder slots
+  const hops: [string, string][] = [];
+  edges.forEach(([from, to], e) => {
+    let prev = from;
+    for (let l = layerOf.get(from)! + 1; l < layerOf.get(to)!; l++) {
+      const slot = `\u0000${e}:${l}`;
+      layerOf.set(slot, l);
+      hops.push([prev, slot]);
+      prev = slot;
+    }
+    hops.push([prev, to]);
+  });
+
+  const layers: string[][] = [];
+  for (const [id, l] of layerOf) (layers[l] ||= []).push(id);
+
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  for (const [from, to] of hops) {
+    up.set(to, [...(up.get(to) || []), from]);
+    down.set(from, [...(down.get(from) || []), to]);
+  }
+
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = countCrossings(best, hops);
+  for (let sweep = 0; sweep < SWEEPS && bestCrossings > 0; sweep++) {
+    reorder(layers, up, true);
+    reorder(layers, down, false);
+    const crossings = countCrossings(layers, hops);
+    if (crossings < bestCrossings) {
+      best = layers.map(layer => [...layer]);
+      bestCrossings = crossings;
+    }
+  }
+
+  // Centre every layer on the tallest one
+  const rowHeight = nodeHeight + gapY;
+  const tallest = Math.max(...best.map(layer => layer.length));
+  const positions: Record<string, Position> = {};
+  best.forEach((layer, l) => {
+    const offset = ((tallest - layer.length) * rowHeight) / 2;
+    layer.forEach((id, i) => {
+      if (id in services) {
+        positions[id] = { x: origin.x + l * (nodeWidth + gapX), y: origin.y + offset + i * rowHeight };
+      }
+    });
+  });
+  return positions;
+}
+
+function overlaps(a: Position, b: Position, width: number, height: number): boolean {
+  return Math.abs(a.x - b.x) < width && Math.abs(a.y - b.y) < height;
+}
+
+/**
+ * A free spot for a new service: right of `anchorId` when given, else right of
+ * everything. Moves down one row at a time until nothing overlaps.
+ */
+export function placeNear(services: Record<string, Service>, anchorId: string | null, options: LayoutOptions = {}): Position {
+  const { nodeWidth, nodeHeight, gapX, gapY, origin } = { ...DEFAULTS, ...options };
+  const placed = Object.values(services).flatMap(s => (s.position ? [s.position] : []));
+  const anchor = anchorId ? services[anchorId]?.position : undefined;
+
+  let spot: Position;
+  if (anchor) {
+    spot = { x: anchor.x + nodeWidth + gapX, y: anchor.y };
+  } else if (placed.length > 0) {
+    spot = { x: Math.max(...placed.map(p => p.x)) + nodeWidth + gapX, y: origin.y };
+  } else {
+    return { ...origin };
+  }
+
+  while (placed.some(p => overlaps(p, spot, nodeWidth + gapX / 2, nodeHeight + gapY / 2))) {
+    spot = { x: spot.x, y: spot.y + nodeHeight + gapY };
+  }
+  return spot;
+}
+
+/**
+ * Fills in missing positions: a document with none at all gets the full
+ * layout, otherwise each unplaced service goes next to its first producer.
+ */
+export function withPositions<T extends { services: Record<string, Service> }>(doc: T, options: LayoutOptions = {}): T {
+  const missing = Object.keys(doc.services).filter(id => !doc.services[id].position);
+  if (missing.length === 0) return doc;
+
+  const services = { ...doc.services };
+  if (missing.length === Object.keys(services).length) {
+    const positions = layoutServices(services, options);
+    for (const id of missing) services[id] = { ...services[id], position: positions[id] };
+    return { ...doc, services };
+  }
+
+  const producers = new Map<string, string>();
+  for (const [from, to] of graphEdges(services)) if (!producers.has(to)) producers.set(to, from);
+  for (const id of missing) {
+    const anchor = producers.get(id);
+    services[id] = { ...services[id], position: placeNear(services, anchor && services[anchor].position ? anchor : null, options) };
+  }
+  return { ...doc, services };
+}
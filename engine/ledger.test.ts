@@ -0,0 +1,120 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { canonicalJSON, chainEntry, CHECKPOINT_INTERVAL, GENESIS_HASH, ledgerToJSONL, parseLedgerJSONL, sha256, truncateLedger, verifyLedger } from './ledger';
+import type { LedgerEntry } from './types';
+
+function execution(tick: number) {
+  return { tick, timestamp: '2024-01-01T00:00:00.000Z', type: 'execution' as const, serviceId: 's', inputHash: 'in', outputHash: 'out', eventCount: 0 };
+}
+
+/** `count` entries with a checkpoint after every `every` of them, as the engine writes them */
+function chain(count: number, every = CHECKPOINT_INTERVAL): LedgerEntry[] {
+  const ledger: LedgerEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = chainEntry(ledger, execution(i));
+    ledger.push(entry);
+    if ((i + 1) % every === 0) {
+      ledger.push(chainEntry(ledger, { tick: i, timestamp: entry.timestamp, type: 'checkpoint', stateHash: sha256('{}') }));
+    }
+  }
+  return ledger;
+}
+
+describe('sha256', () => {
+  it('matches the standard test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('agrees with node:crypto across block boundaries and on UTF-8 input', () => {
+    for (const text of ['a'.repeat(55), 'a'.repeat(56), 'a'.repeat(64), 'a'.repeat(1000), 'héllo → wörld']) {
+      expect(sha256(text)).toBe(createHash('sha256').update(text, 'utf8').digest('hex'));
+    }
+  });
+});
+
+describe('canonicalJSON', () => {
+  it('sorts keys and drops undefined fields', () => {
+    expect(canonicalJSON({ b: 1, a: { d: [1, undefined], c: undefined } })).toBe('{"a":{"d":[1,null]},"b":1}');
+  });
+});
+
+describe('chain', () => {
+  it('links each entry to the one before it', () => {
+    const ledger = chain(3);
+    expect(ledger.map(e => e.seq)).toEqual([0, 1, 2]);
+    expect(ledger[0].prevHash).toBe(GENESIS_HASH);
+    expect(ledger[1].prevHash).toBe(ledger[0].hash);
+    expect(verifyLedger(ledger)).toMatchObject({ valid: true, checked: 3, anchor: GENESIS_HASH, head: ledger[2].hash });
+  });
+
+  it('reports an edited entry', () => {
+    const ledger = chain(3);
+    ledger[1] = { ...ledger[1], tick: 99 };
+    expect(verifyLedger(ledger)).toMatchObject({ valid: false, brokenIndex: 1, brokenSeq: 1, reason: 'Contents do not match the entry hash' });
+  });
+
+  it('reports a deleted entry', () => {
+    const ledger = chain(3);
+    ledger.splice(1, 1);
+    expect(verifyLedger(ledger)).toMatchObject({ valid: false, brokenIndex: 1, reason: 'Sequence jumps from #0 to #2' });
+  });
+
+  it('reports swapped entries', () => {
+    const ledger = chain(3);
+    [ledger[1], ledger[2]] = [ledger[2], ledger[1]];
+    expect(verifyLedger(ledger).valid).toBe(false);
+  });
+
+  it('reports an entry that was edited and rehashed', () => {
+    const ledger = chain(3);
+    ledger[1] = chainEntry(ledger.slice(0, 1), execution(99));
+    expect(verifyLedger(ledger)).toMatchObject({ valid: false, brokenIndex: 2, reason: 'prevHash does not match the hash of #1' });
+  });
+});
+
+describe('truncateLedger', () => {
+  it('leaves a ledger within the limit alone', () => {
+    const ledger = chain(5, 2);
+    expect(truncateLedger(ledger, 100)).toBe(0);
+    expect(ledger).toHaveLength(7);
+  });
+
+  it('cuts just before a checkpoint, so the window still verifies', () => {
+    const ledger = chain(10, 3);
+    const before = ledger.length;
+    const dropped = truncateLedger(ledger, 8);
+    expect(dropped).toBeGreaterThan(0);
+    expect(ledger).toHaveLength(before - dropped);
+    expect(ledger.length).toBeLessThanOrEqual(8);
+    expect(ledger[0].type).toBe('checkpoint');
+    const result = verifyLedger(ledger);
+    expect(result.valid).toBe(true);
+    expect(result.anchor).toBe(ledger[0].prevHash);
+  });
+
+  it('keeps everything when there is no checkpoint to cut at', () => {
+    const ledger = chain(10, 1000);
+    expect(truncateLedger(ledger, 5)).toBe(0);
+    expect(ledger).toHaveLength(10);
+  });
+
+  it('rejects a window that does not start at a checkpoint', () => {
+    const ledger = chain(10, 3).slice(2);
+    expect(verifyLedger(ledger)).toMatchObject({ valid: false, brokenIndex: 0 });
+  });
+});
+
+describe('JSONL', () => {
+  it('round-trips a ledger', () => {
+    const ledger = chain(4, 2);
+    const parsed = parseLedgerJSONL(ledgerToJSONL(ledger));
+    expect(parsed).toEqual(ledger);
+    expect(verifyLedger(parsed).valid).toBe(true);
+  });
+
+  it('names the line that is not an entry', () => {
+    expect(() => parseLedgerJSONL('\n{"type":"nope"}\n')).toThrow('Line 2: not a ledger entry');
+    expect(() => parseLedgerJSONL('{')).toThrow(/^Line 1:/);
+  });
+});
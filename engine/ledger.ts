@@ -0,0 +1,203 @@
+import type { LedgerEntry, State } from './types';
+
+// ============================================================================
+// MNEME LEDGER
+// ============================================================================
+//
+// Every ledger entry (execution, lifecycle or checkpoint) carries a running
+// sequence number and the SHA-256 of the entry before it, and its own hash
+// covers all of its other fields. Editing, reordering or deleting an entry
+// breaks the chain at that point. The engine keeps a bounded window: it only
+// ever drops whole runs of entries up to a checkpoint, so the retained
+// ledger starts at a checkpoint whose `prevHash` anchors it to the entries
+// that were dropped.
+
+export const GENESIS_HASH = '0'.repeat(64);
+/** A checkpoint is written after this many entries */
+export const CHECKPOINT_INTERVAL = 100;
+
+// ----------------------------------------------------------------------------
+// SHA-256
+// ----------------------------------------------------------------------------
+
+// Synchronous on purpose: entries are written mid-tick, and WebCrypto's
+// digest() is async-only.
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/** Hex SHA-256 of the UTF-8 encoding of `text` */
+export function sha256(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const bitLength = bytes.length * 8;
+  const padded = new Uint8Array((((bytes.length + 8) >> 6) + 1) << 6);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      hh = g; g = f; f = e; e = (d + t1) >>> 0;
+      d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d; h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+  return Array.from(h, word => word.toString(16).padStart(8, '0')).join('');
+}
+
+/** JSON with object keys sorted, so a hash does not depend on key order */
+export function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(item => canonicalJSON(item ?? null)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJSON(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// ----------------------------------------------------------------------------
+// Chain
+// ----------------------------------------------------------------------------
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+/** What the engine supplies; `chainEntry` adds the sequence number and hashes */
+export type LedgerFields = DistributiveOmit<LedgerEntry, 'seq' | 'prevHash' | 'hash'>;
+
+/** SHA-256 over every field of the entry except `hash` itself */
+export function entryHash(entry: DistributiveOmit<LedgerEntry, 'hash'>): string {
+  const { hash: _hash, ...fields } = entry as Partial<LedgerEntry>;
+  return sha256(canonicalJSON(fields));
+}
+
+/** Links `fields` after the last entry of `ledger` */
+export function chainEntry(ledger: LedgerEntry[], fields: LedgerFields): LedgerEntry {
+  const last = ledger[ledger.length - 1];
+  const linked = { ...fields, seq: last ? last.seq + 1 : 0, prevHash: last ? last.hash : GENESIS_HASH } as DistributiveOmit<LedgerEntry, 'hash'>;
+  return { ...linked, hash: entryHash(linked) } as LedgerEntry;
+}
+
+export function stateHash(state: State): string {
+  return sha256(canonicalJSON(state));
+}
+
+/**
+ * Drops the oldest entries once `ledger` holds more than `max`, always up to
+ * (not including) a checkpoint so the window keeps a verifiable start.
+ * Returns how many entries were dropped.
+ */
+export function truncateLedger(ledger: LedgerEntry[], max: number): number {
+  let dropped = 0;
+  while (ledger.length > max) {
+    const next = ledger.findIndex((entry, i) => i > 0 && entry.type === 'checkpoint');
+    if (next <= 0) break;
+    ledger.splice(0, next);
+    dropped += next;
+  }
+  return dropped;
+}
+
+// ----------------------------------------------------------------------------
+// Verification
+// ----------------------------------------------------------------------------
+
+export interface LedgerVerification {
+  valid: boolean;
+  /** Entries checked before the first failure (all of them when valid) */
+  checked: number;
+  /** Index and sequence number of the first broken entry */
+  brokenIndex?: number;
+  brokenSeq?: number;
+  reason?: string;
+  /** What the retained window hangs from: the genesis hash, or the hash of the last dropped entry */
+  anchor: string;
+  /** Hash of the last entry; pin it to detect later rewriting of the whole chain */
+  head: string;
+}
+
+/**
+ * Walks the chain and reports the first entry whose hash, link or sequence
+ * number does not hold. A window that does not start at sequence 0 must start
+ * at a checkpoint; its `prevHash` is then taken as the anchor.
+ */
+export function verifyLedger(ledger: LedgerEntry[]): LedgerVerification {
+  const first = ledger[0];
+  const anchor = first?.prevHash ?? GENESIS_HASH;
+  const head = ledger[ledger.length - 1]?.hash ?? GENESIS_HASH;
+  const broken = (index: number, reason: string): LedgerVerification => ({
+    valid: false, checked: index, brokenIndex: index, brokenSeq: ledger[index]?.seq, reason, anchor, head
+  });
+
+  if (first) {
+    if (first.seq === 0 && first.prevHash !== GENESIS_HASH) return broken(0, 'First entry does not start from the genesis hash');
+    if (first.seq !== 0 && first.type !== 'checkpoint') return broken(0, `Window starts at #${first.seq}, which is not a checkpoint; earlier entries were removed`);
+  }
+  for (let i = 0; i < ledger.length; i++) {
+    const entry = ledger[i];
+    if (typeof entry?.hash !== 'string' || typeof entry.seq !== 'number') return broken(i, 'Entry is missing its hash or sequence number');
+    if (i > 0) {
+      const prev = ledger[i - 1];
+      if (entry.seq !== prev.seq + 1) return broken(i, `Sequence jumps from #${prev.seq} to #${entry.seq}`);
+      if (entry.prevHash !== prev.hash) return broken(i, `prevHash does not match the hash of #${prev.seq}`);
+    }
+    if (entryHash(entry) !== entry.hash) return broken(i, 'Contents do not match the entry hash');
+  }
+  return { valid: true, checked: ledger.length, anchor, head };
+}
+
+// ----------------------------------------------------------------------------
+// JSONL
+// ----------------------------------------------------------------------------
+
+export const LEDGER_FILE_SUFFIX = '.ledger.jsonl';
+
+/** Named after the pipeline, so the ledger sits next to its `.spc.*` file */
+export function ledgerFilename(name: string): string {
+  const slug = (name || 'pipeline').trim().replace(/\s+/g, '-').toLowerCase();
+  return `${slug}${LEDGER_FILE_SUFFIX}`;
+}
+
+export function ledgerToJSONL(ledger: LedgerEntry[]): string {
+  return ledger.map(entry => JSON.stringify(entry)).join('\n') + (ledger.length ? '\n' : '');
+}
+
+/** Parses one entry per line; blank lines are skipped. Does not verify, see verifyLedger */
+export function parseLedgerJSONL(text: string): LedgerEntry[] {
+  const entries: LedgerEntry[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch (error: any) {
+      throw new Error(`Line ${index + 1}: ${error?.message ?? error}`);
+    }
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry) || !['execution', 'lifecycle', 'checkpoint'].includes(entry.type)) {
+      throw new Error(`Line ${index + 1}: not a ledger entry`);
+    }
+    entries.push(entry);
+  });
+  return entries;
+}
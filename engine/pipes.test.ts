@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { aggregate, castValue, runPipes, type PipeContext } from './pipes';
+import type { PipeSpec } from './types';
+
+function context(inputs: Record<string, any> = {}): PipeContext & { warnings: string[] } {
+  const warnings: string[] = [];
+  return { state: {}, inputs, warnings, log: (level, message) => { if (level === 'warn') warnings.push(message); } };
+}
+
+const run = (data: any, pipes: PipeSpec[], ctx = context()) => runPipes(data, pipes, ctx);
+
+describe('join', () => {
+  const orders = [
+    { id: 1, customer: 'a', total: 10 },
+    { id: 2, customer: 'b', total: 20 },
+    { id: 3, customer: null, total: 30 }
+  ];
+  const customers = [
+    { customer: 'a', name: 'Ann', total: 100 },
+    { customer: 'c', name: 'Cy', total: 300 },
+    { customer: null, name: 'Nobody', total: 0 }
+  ];
+  const join = (how: 'inner' | 'left' | 'right' | 'outer' | 'anti') =>
+    run(orders, [{ join: { with: 'customers', on: ['customer'], how } }], context({ customers }));
+
+  it('keeps matching rows and suffixes clashing columns for an inner join', () => {
+    expect(join('inner')).toEqual([
+      { id: 1, customer: 'a', total_x: 10, name: 'Ann', total_y: 100 }
+    ]);
+  });
+
+  it('keeps unmatched left rows with nulls for a left join; missing keys never match', () => {
+    expect(join('left')).toEqual([
+      { id: 1, customer: 'a', total_x: 10, name: 'Ann', total_y: 100 },
+      { id: 2, customer: 'b', total_x: 20, name: null, total_y: null },
+      { id: 3, customer: null, total_x: 30, name: null, total_y: null }
+    ]);
+  });
+
+  it('keeps every right row, in right order, for a right join', () => {
+    expect(join('right')).toEqual([
+      { id: 1, customer: 'a', total_x: 10, name: 'Ann', total_y: 100 },
+      { id: null, customer: 'c', total_x: null, name: 'Cy', total_y: 300 },
+      { id: null, customer: null, total_x: null, name: 'Nobody', total_y: 0 }
+    ]);
+  });
+
+  it('appends unmatched right rows after the left join for an outer join', () => {
+    const rows = join('outer');
+    expect(rows).toHaveLength(5);
+    expect(rows.slice(3).map((r: any) => r.name)).toEqual(['Cy', 'Nobody']);
+  });
+
+  it('keeps only the left rows without a match for an anti join', () => {
+    expect(join('anti')).toEqual([orders[1], orders[2]]);
+  });
+
+  it('repeats a left row for every match', () => {
+    const lines = [{ order: 1, sku: 'x' }, { order: 1, sku: 'y' }];
+    expect(run([{ order: 1 }], [{ join: { with: 'lines', on: ['order'] } }], context({ lines }))).toEqual(lines);
+  });
+
+  it('uses custom suffixes', () => {
+    const rows = run(orders.slice(0, 1), [{ join: { with: 'customers', on: ['customer'], suffixes: ['', '_customer'] } }], context({ customers }));
+    expect(rows).toEqual([{ id: 1, customer: 'a', total: 10, name: 'Ann', total_customer: 100 }]);
+  });
+
+  it('warns about an undeclared input and joins against nothing', () => {
+    const ctx = context();
+    expect(run(orders, [{ join: { with: 'missing', on: ['customer'], how: 'left' } }], ctx)).toHaveLength(3);
+    expect(ctx.warnings).toEqual(['Unknown input "missing"; declare it under spec.inputs']);
+  });
+});
+
+describe('pivot', () => {
+  const sales = [
+    { region: 'north', quarter: 'q1', amount: 1 },
+    { region: 'north', quarter: 'q2', amount: 2 },
+    { region: 'south', quarter: 'q1', amount: 3 },
+    { region: 'north', quarter: 'q1', amount: 4 }
+  ];
+
+  it('spreads values into columns, in first-appearance order', () => {
+    expect(run(sales, [{ pivot: { index: ['region'], columns: 'quarter', values: 'amount', agg: 'sum' } }])).toEqual([
+      { region: 'north', q1: 5, q2: 2 },
+      { region: 'south', q1: 3, q2: null }
+    ]);
+  });
+
+  it('takes the first value by default', () => {
+    expect(run(sales, [{ pivot: { index: ['region'], columns: 'quarter', values: 'amount' } }])[0]).toEqual({ region: 'north', q1: 1, q2: 2 });
+  });
+});
+
+describe('melt', () => {
+  const wide = [{ id: 1, a: 10, b: 20 }, { id: 2, a: 30 }];
+
+  it('turns the named columns into rows, variable by variable', () => {
+    expect(run(wide, [{ melt: { idVars: ['id'], valueVars: ['a', 'b'], varName: 'key', valueName: 'val' } }])).toEqual([
+      { id: 1, key: 'a', val: 10 },
+      { id: 2, key: 'a', val: 30 },
+      { id: 1, key: 'b', val: 20 },
+      { id: 2, key: 'b', val: null }
+    ]);
+  });
+
+  it('melts every other column when valueVars is not given', () => {
+    expect(run(wide, [{ melt: { idVars: ['id'] } }]).map((r: any) => r.variable)).toEqual(['a', 'a', 'b', 'b']);
+  });
+
+  it('is undone by a pivot', () => {
+    const long = run(wide, [{ melt: { idVars: ['id'] } }]);
+    expect(run(long, [{ pivot: { index: ['id'], columns: 'variable', values: 'value' } }])).toEqual([
+      { id: 1, a: 10, b: 20 },
+      { id: 2, a: 30, b: null }
+    ]);
+  });
+});
+
+describe('other operations', () => {
+  it('runs the operations of one step in a fixed order', () => {
+    const rows = [{ n: '3' }, { n: '1' }, { n: null }, { n: '2' }];
+    expect(run(rows, [{ limit: 2, sort: [{ key: 'n', order: 'desc' }], cast: { n: 'number' }, dropna: [] }])).toEqual([{ n: 3 }, { n: 2 }]);
+  });
+
+  it('groups and aggregates', () => {
+    const rows = [{ k: 'a', v: 1 }, { k: 'b', v: 2 }, { k: 'a', v: null }, { k: 'a', v: 3 }];
+    expect(run(rows, [{ groupBy: { by: ['k'], agg: { n: { op: 'count' }, total: { column: 'v', op: 'sum' }, avg: { column: 'v', op: 'mean' } } } }])).toEqual([
+      { k: 'a', n: 3, total: 4, avg: 2 },
+      { k: 'b', n: 1, total: 2, avg: 2 }
+    ]);
+  });
+
+  it('warns instead of applying a table operation to a non-array', () => {
+    const ctx = context();
+    expect(run(5, [{ sort: [{ key: 'n' }] }], ctx)).toBe(5);
+    expect(ctx.warnings).toEqual(['Cannot sort on number']);
+  });
+
+  it('aggregates and casts with missing values left out', () => {
+    expect(aggregate([1, null, NaN, 3], 'mean')).toBe(2);
+    expect(aggregate([], 'max')).toBeNull();
+    expect(aggregate(['a', 'a', 'b'], 'nunique')).toBe(2);
+    expect(castValue(' yes ', 'boolean')).toBe(true);
+    expect(castValue('', 'number')).toBeNull();
+    expect(castValue('4.7', 'integer')).toBe(4);
+  });
+});
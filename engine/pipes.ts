@@ -0,0 +1,404 @@
+import { evalExpression, pick } from './expressions';
+import type { AggOp, AggregationSpec, CastType, JoinSpec, LogLevel, MeltSpec, PipeSpec, PivotSpec, SortKeySpec, State } from './types';
+
+// ============================================================================
+// PROCESSOR PIPES
+// ============================================================================
+//
+// Table operations over an array of row objects, modelled on their pandas
+// namesakes. Missing means null, undefined or NaN. Groups, pivot rows and
+// melted variables come out in first-appearance order, and sorting always puts
+// missing values last, so a pipeline gives the same rows in every runtime.
+// Joins follow SQL: a row whose key has a missing value never matches.
+// Values of different types compare as strings; cast a column first to get
+// numeric ordering.
+
+/** Execution order for the operations of a single pipe step. */
+export const PIPE_OPS = [
+  'concat', 'union', 'join', 'select', 'dropna', 'fillna', 'cast', 'rename', 'project', 'derive',
+  'explode', 'melt', 'pivot', 'groupBy', 'dedupe', 'sort', 'offset', 'limit'
+] as const;
+
+export const AGG_OPS: AggOp[] = ['sum', 'mean', 'count', 'min', 'max', 'first', 'last', 'nunique'];
+export const CAST_TYPES: CastType[] = ['number', 'integer', 'string', 'boolean', 'date'];
+export const JOIN_TYPES: NonNullable<JoinSpec['how']>[] = ['inner', 'left', 'right', 'outer', 'anti'];
+
+export interface PipeContext {
+  state: State;
+  log: (level: LogLevel, message: string) => void;
+  clock?: () => string;
+  random?: () => number;
+  /** The processor's named `inputs`, already read from state */
+  inputs?: Record<string, any>;
+}
+
+type Row = Record<string, any>;
+type PipeOp = typeof PIPE_OPS[number];
+
+export function isMissing(value: any): boolean {
+  return value === null || value === undefined || (typeof value === 'number' && Number.isNaN(value));
+}
+
+function has(obj: Record<string, any>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+function compareValues(a: any, b: any): number {
+  if ((typeof a === 'number' && typeof b === 'number') || (typeof a === 'boolean' && typeof b === 'boolean')) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  const sa = String(a);
+  const sb = String(b);
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+function keyOf(row: Row, columns: string[]): string {
+  return JSON.stringify(columns.map(c => (isMissing(row[c]) ? null : row[c])));
+}
+
+function groupRows(rows: Row[], columns: string[]): Row[][] {
+  const groups = new Map<string, Row[]>();
+  for (const row of rows) {
+    const key = keyOf(row, columns);
+    const group = groups.get(key);
+    if (group) group.push(row); else groups.set(key, [row]);
+  }
+  return [...groups.values()];
+}
+
+export function aggregate(values: any[], op: AggOp): any {
+  const present = values.filter(v => !isMissing(v));
+  const numbers = () => present.map(Number).filter(n => !Number.isNaN(n));
+
+  switch (op) {
+    case 'count':
+      return present.length;
+    case 'sum':
+      return numbers().reduce((acc, n) => acc + n, 0);
+    case 'mean': {
+      const nums = numbers();
+      return nums.length ? nums.reduce((acc, n) => acc + n, 0) / nums.length : null;
+    }
+    case 'min':
+      return present.length ? present.reduce((a, b) => (compareValues(b, a) < 0 ? b : a)) : null;
+    case 'max':
+      return present.length ? present.reduce((a, b) => (compareValues(b, a) > 0 ? b : a)) : null;
+    case 'first':
+      return present.length ? present[0] : null;
+    case 'last':
+      return present.length ? present[present.length - 1] : null;
+    case 'nunique':
+      return new Set(present.map(v => JSON.stringify(v))).size;
+    default:
+      throw new Error(`Unknown aggregation: ${op}`);
+  }
+}
+
+export function castValue(value: any, type: CastType): any {
+  if (isMissing(value)) return null;
+
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const n = typeof value === 'string' && value.trim() === '' ? NaN : Number(value);
+      if (Number.isNaN(n)) return null;
+      return type === 'integer' ? Math.trunc(n) : n;
+    }
+    case 'string':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'boolean': {
+      if (typeof value !== 'string') return Boolean(value);
+      const s = value.trim().toLowerCase();
+      if (['true', '1', 'yes', 'y'].includes(s)) return true;
+      if (['false', '0', 'no', 'n', ''].includes(s)) return false;
+      return null;
+    }
+    case 'date': {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? null : date.toISOString();
+    }
+    default:
+      throw new Error(`Unknown cast type: ${type}`);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Table operations
+// ----------------------------------------------------------------------------
+
+function groupBy(rows: Row[], spec: { by: string[]; agg: Record<string, AggregationSpec> }): Row[] {
+  const by = spec.by || [];
+  return groupRows(rows, by).map(group => {
+    const out = pick(group[0], by);
+    for (const [name, { column, op }] of Object.entries(spec.agg || {})) {
+      out[name] = op === 'count' && !column
+        ? group.length
+        : aggregate(column ? group.map(r => r[column]) : [], op);
+    }
+    return out;
+  });
+}
+
+/** Stable multi-key sort with missing values last, whatever the order. */
+export function sortRows(rows: Row[], keys: SortKeySpec[]): Row[] {
+  return [...rows].sort((a, b) => {
+    for (const { key, order } of keys) {
+      const va = a[key];
+      const vb = b[key];
+      if (isMissing(va) || isMissing(vb)) {
+        if (isMissing(va) && isMissing(vb)) continue;
+        return isMissing(va) ? 1 : -1;
+      }
+      const cmp = compareValues(va, vb);
+      if (cmp !== 0) return order === 'desc' ? -cmp : cmp;
+    }
+    return 0;
+  });
+}
+
+function dedupe(rows: Row[], columns: string[]): Row[] {
+  const seen = new Set<string>();
+  return rows.filter(row => {
+    const key = columns.length ? keyOf(row, columns) : JSON.stringify(row);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function pivot(rows: Row[], spec: PivotSpec): Row[] {
+  const { index = [], columns, values, agg = 'first' } = spec;
+  const names: string[] = [];
+
+  const groups = groupRows(rows, index).map(group => {
+    const cells = new Map<string, any[]>();
+    for (const row of group) {
+      const name = String(row[columns]);
+      if (!names.includes(name)) names.push(name);
+      cells.set(name, [...(cells.get(name) || []), row[values]]);
+    }
+    return { head: pick(group[0], index), cells };
+  });
+
+  return groups.map(({ head, cells }) => {
+    const out = { ...head };
+    for (const name of names) {
+      out[name] = cells.has(name) ? aggregate(cells.get(name)!, agg) : null;
+    }
+    return out;
+  });
+}
+
+function melt(rows: Row[], spec: MeltSpec): Row[] {
+  const { idVars = [], varName = 'variable', valueName = 'value' } = spec;
+  let valueVars = spec.valueVars;
+  if (!valueVars || valueVars.length === 0) {
+    const columns = new Set<string>();
+    rows.forEach(row => Object.keys(row).forEach(k => columns.add(k)));
+    valueVars = [...columns].filter(c => !idVars.includes(c));
+  }
+
+  const out: Row[] = [];
+  for (const variable of valueVars) {
+    for (const row of rows) {
+      out.push({ ...pick(row, idVars), [varName]: variable, [valueName]: row[variable] ?? null });
+    }
+  }
+  return out;
+}
+
+function explode(rows: Row[], column: string): Row[] {
+  return rows.flatMap(row => {
+    const value = row[column];
+    if (!Array.isArray(value)) return [row];
+    if (value.length === 0) return [{ ...row, [column]: null }];
+    return value.map(item => ({ ...row, [column]: item }));
+  });
+}
+
+function namedInput(name: string, ctx: PipeContext): Row[] {
+  const inputs = ctx.inputs || {};
+  if (!has(inputs, name)) {
+    ctx.log('warn', `Unknown input "${name}"; declare it under spec.inputs`);
+    return [];
+  }
+  const rows = inputs[name];
+  if (isMissing(rows)) return [];
+  if (!Array.isArray(rows)) {
+    ctx.log('warn', `Input "${name}" is not an array`);
+    return [];
+  }
+  return rows;
+}
+
+function columnsOf(rows: Row[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(k => columns.add(k)));
+  return [...columns];
+}
+
+function indexRows(rows: Row[], on: string[]): Map<string, number[]> {
+  const index = new Map<string, number[]>();
+  rows.forEach((row, i) => {
+    if (on.some(c => isMissing(row[c]))) return;
+    const key = keyOf(row, on);
+    const hits = index.get(key);
+    if (hits) hits.push(i); else index.set(key, [i]);
+  });
+  return index;
+}
+
+function join(left: Row[], spec: JoinSpec, ctx: PipeContext): Row[] {
+  const right = namedInput(spec.with, ctx);
+  const on = spec.on || [];
+  const how = spec.how || 'inner';
+  const [leftSuffix, rightSuffix] = spec.suffixes || ['_x', '_y'];
+
+  const leftColumns = columnsOf(left);
+  const rightColumns = columnsOf(right);
+  const clashing = new Set(leftColumns.filter(c => !on.includes(c) && rightColumns.includes(c)));
+
+  const merge = (l: Row | null, r: Row | null): Row => {
+    const out: Row = {};
+    for (const c of leftColumns) {
+      if (on.includes(c)) out[c] = (l ? l[c] : r?.[c]) ?? null;
+      else out[clashing.has(c) ? c + leftSuffix : c] = l?.[c] ?? null;
+    }
+    for (const c of rightColumns) {
+      if (on.includes(c)) {
+        if (!has(out, c)) out[c] = (l ? l[c] : r?.[c]) ?? null;
+      } else {
+        out[clashing.has(c) ? c + rightSuffix : c] = r?.[c] ?? null;
+      }
+    }
+    return out;
+  };
+
+  const matches = (row: Row, index: Map<string, number[]>) =>
+    on.some(c => isMissing(row[c])) ? [] : index.get(keyOf(row, on)) || [];
+
+  if (how === 'right') {
+    const leftIndex = indexRows(left, on);
+    return right.flatMap(r => {
+      const hits = matches(r, leftIndex);
+      return hits.length ? hits.map(i => merge(left[i], r)) : [merge(null, r)];
+    });
+  }
+
+  const rightIndex = indexRows(right, on);
+  if (how === 'anti') return left.filter(l => matches(l, rightIndex).length === 0);
+
+  const out: Row[] = [];
+  const matched = new Set<number>();
+  for (const l of left) {
+    const hits = matches(l, rightIndex);
+    hits.forEach(i => {
+      matched.add(i);
+      out.push(merge(l, right[i]));
+    });
+    if (hits.length === 0 && how !== 'inner') out.push(merge(l, null));
+  }
+  if (how === 'outer') {
+    right.forEach((r, i) => {
+      if (!matched.has(i)) out.push(merge(null, r));
+    });
+  }
+  return out;
+}
+
+// ----------------------------------------------------------------------------
+// Runner
+// ----------------------------------------------------------------------------
+
+/** Row-wise operations apply to a lone object too; the rest need an array of rows. */
+const ROW_OPS: PipeOp[] = ['fillna', 'cast', 'rename', 'project', 'derive'];
+
+function applyToRow(op: PipeOp, arg: any, row: Row, ctx: PipeContext): Row {
+  switch (op) {
+    case 'fillna': {
+      const copy = { ...row };
+      for (const [column, value] of Object.entries<any>(arg)) {
+        if (isMissing(copy[column])) copy[column] = value;
+      }
+      return copy;
+    }
+    case 'cast': {
+      const copy = { ...row };
+      for (const [column, type] of Object.entries<CastType>(arg)) {
+        if (has(copy, column)) copy[column] = castValue(copy[column], type);
+      }
+      return copy;
+    }
+    case 'rename':
+      return Object.fromEntries(Object.entries(row).map(([k, v]) => [has(arg, k) ? arg[k] : k, v]));
+    case 'project':
+      return pick(row, arg);
+    case 'derive': {
+      const copy = { ...row };
+      for (const [k, expr] of Object.entries<string>(arg)) {
+        copy[k] = evalExpression(expr, { data: row, state: ctx.state, row, env: ctx });
+      }
+      return copy;
+    }
+    default:
+      return row;
+  }
+}
+
+function applyToRows(op: PipeOp, arg: any, rows: Row[], ctx: PipeContext): Row[] {
+  switch (op) {
+    case 'concat':
+      return [...rows, ...arg.flatMap((name: string) => namedInput(name, ctx))];
+    case 'union':
+      return dedupe([...rows, ...arg.flatMap((name: string) => namedInput(name, ctx))], []);
+    case 'join':
+      return join(rows, arg, ctx);
+    case 'select':
+      return rows.filter(row => evalExpression(arg, { row, state: ctx.state, env: ctx }));
+    case 'dropna':
+      return rows.filter(row => !(arg.length ? arg : Object.keys(row)).some((c: string) => isMissing(row[c])));
+    case 'explode':
+      return explode(rows, arg);
+    case 'melt':
+      return melt(rows, arg);
+    case 'pivot':
+      return pivot(rows, arg);
+    case 'groupBy':
+      return groupBy(rows, arg);
+    case 'dedupe':
+      return dedupe(rows, arg);
+    case 'sort':
+      return sortRows(rows, arg);
+    case 'offset':
+      return rows.slice(Math.max(0, arg));
+    case 'limit':
+      return rows.slice(0, Math.max(0, arg));
+    default:
+      return rows.map(row => applyToRow(op, arg, row, ctx));
+  }
+}
+
+export function applyPipe(data: any, pipe: PipeSpec, ctx: PipeContext): any {
+  let result = data;
+
+  for (const op of PIPE_OPS) {
+    const arg = (pipe as Record<string, any>)[op];
+    if (arg === undefined || arg === null || arg === '') continue;
+
+    if (Array.isArray(result)) {
+      result = applyToRows(op, arg, result, ctx);
+    } else if (op === 'select') {
+      // a lone object passes through select unchanged
+    } else if (ROW_OPS.includes(op) && typeof result === 'object' && result !== null) {
+      result = applyToRow(op, arg, result, ctx);
+    } else {
+      ctx.log('warn', `Cannot ${op} on ${result === null ? 'null' : typeof result}`);
+    }
+  }
+
+  return result;
+}
+
+export function runPipes(data: any, pipes: PipeSpec[], ctx: PipeContext): any {
+  return pipes.reduce((result, pipe) => applyPipe(result, pipe, ctx), data);
+}
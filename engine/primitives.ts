@@ -0,0 +1,418 @@
+import { applyRules, evalExpression, templateObject } from './expressions';
+import { runPipes } from './pipes';
+import type { PrimitiveHandler, ServiceStatus } from './types';
+
+// ============================================================================
+// PRIMITIVE HANDLERS
+// ============================================================================
+//
+// A handler that cannot do its job throws rather than writing its own error;
+// the engine records the failure and applies the service's retry, circuit
+// breaker and on_error policy (see recovery.ts).
+
+export const csvLoaderHandler: PrimitiveHandler = {
+  type: 'csv_loader',
+  async run(id, spec, ctx) {
+    const { source, outputKey = `${id}_data`, options = {} } = spec;
+
+    let csvText = '';
+
+    if (source.startsWith('http')) {
+      csvText = await ctx.fetchText(source);
+    } else if (source.startsWith('data:')) {
+      csvText = decodeURIComponent(source.split(',')[1]);
+    } else {
+      csvText = ctx.state[source] || '';
+    }
+
+    if (!csvText) return { patch: { [outputKey]: [] }, events: [] };
+
+    const lines = csvText.replace(/\r\n/g, '\n').replace(/\r/g, '\n')
+      .split('\n').map(s => s.trim()).filter(Boolean);
+
+    const delimiter = options.delimiter || ',';
+    const hasHeader = options.header !== false;
+
+    let rows: any[] = [];
+    let headers: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const cols = lines[i].split(delimiter).map(s => s.trim());
+      if (i === 0 && hasHeader) {
+        headers = cols;
+      } else {
+        const row = hasHeader
+          ? Object.fromEntries(headers.map((h, j) => [h, cols[j]]))
+          : cols;
+        rows.push(row);
+      }
+    }
+
+    if (options.maxRows && Number.isFinite(options.maxRows)) {
+      rows = rows.slice(0, options.maxRows);
+    }
+
+    return {
+      patch: { [outputKey]: rows },
+      events: [{ name: 'csv.loaded', for: id, data: { count: rows.length } }]
+    };
+  }
+};
+
+export const iteratorHandler: PrimitiveHandler = {
+  type: 'iterator',
+  run(id, spec, ctx) {
+    const {
+      inputKey,
+      outputKey,
+      historyKey = `${id}_history`,
+      maxHistory = 200,
+      per_tick = 1,
+      resetOnNewData = true,
+      loop = false
+    } = spec;
+
+    const src = ctx.state[inputKey];
+    if (!Array.isArray(src) || src.length === 0) return { patch: {}, events: [] };
+
+    const indexKey = `__index_${id}`;
+    const lenKey = `__len_${id}`;
+
+    let idx = ctx.state[indexKey] ?? 0;
+    const prevLen = ctx.state[lenKey];
+    const curLen = src.length;
+
+    const patch: Record<string, any> = { [lenKey]: curLen };
+
+    if (resetOnNewData && prevLen !== undefined && prevLen !== curLen) {
+      idx = 0;
+    }
+
+    const out: any[] = [];
+    for (let i = 0; i < per_tick && (loop || idx < src.length); i++) {
+      if (idx >= src.length) {
+        if (loop) idx = 0; else break;
+      }
+      out.push(src[idx]);
+      idx++;
+    }
+
+    if (out.length === 0) {
+      patch[indexKey] = idx;
+      return { patch, events: [] };
+    }
+
+    patch[outputKey] = (per_tick === 1) ? out[0] : out;
+
+    const hist = (ctx.state[historyKey] || []).concat(out);
+    if (hist.length > maxHistory) hist.splice(0, hist.length - maxHistory);
+    patch[historyKey] = hist;
+
+    patch[indexKey] = idx;
+
+    return {
+      patch,
+      events: [{ name: 'iterator.yield', for: id, data: { count: out.length, index: idx } }]
+    };
+  }
+};
+
+export const connectorHandler: PrimitiveHandler = {
+  type: 'connector',
+  async run(id, spec, ctx) {
+    const { url, outputKey = `${id}_data`, rules } = spec;
+
+    const finalUrl = url.replace(/\{\{(.+?)\}\}/g, (_: string, path: string) => {
+      const val = path.trim().split('.').reduce((o: any, k) => o?.[k], ctx.state);
+      if (val === undefined || val === null) {
+        throw new Error(`Missing template variable: ${path}`);
+      }
+      return encodeURIComponent(val);
+    });
+
+    const data = await ctx.fetch(finalUrl);
+
+    let processed = data;
+    if (rules?.rules) {
+      processed = applyRules(data, rules.rules, ctx);
+    }
+
+    return {
+      patch: { [outputKey]: processed },
+      events: [{ name: 'connector.fetched', for: id, data: { url: finalUrl } }]
+    };
+  }
+};
+
+export const processorHandler: PrimitiveHandler = {
+  type: 'processor',
+  run(id, spec, ctx) {
+    const { inputKey, inputs = {}, outputKey = `${id}_output`, transform, pipes } = spec;
+    const input = ctx.state[inputKey];
+
+    if (!input) {
+      return { patch: { [outputKey]: null }, events: [] };
+    }
+
+    let result = input;
+
+    if (transform) {
+      result = applyRules(input, transform, ctx);
+    }
+
+    if (pipes) {
+      const named = Object.fromEntries(
+        Object.entries<string>(inputs).map(([name, key]) => [name, ctx.state[key]])
+      );
+      result = runPipes(result, pipes, { state: ctx.state, log: ctx.log, clock: ctx.clock, random: ctx.random, inputs: named });
+    }
+
+    return {
+      patch: { [outputKey]: result },
+      events: [{ name: 'processor.computed', for: id }]
+    };
+  }
+};
+
+export const monitorHandler: PrimitiveHandler = {
+  type: 'monitor',
+  run(id, spec, ctx) {
+    const { checks = [], thresholds = {}, emit = 'onChange' } = spec;
+    const results: Record<string, any> = {};
+
+    for (const check of checks) {
+      const data = ctx.state[check.dataKey];
+      const value = evalExpression(check.expression, { data, state: ctx.state, env: ctx });
+      if (value == null) {
+        results[check.name] = { value: null, status: 'unknown' };
+        continue;
+      }
+      const threshold = thresholds[check.name] || {};
+      let status = 'normal';
+      if (threshold.above !== undefined && value > threshold.above) status = 'critical';
+      if (threshold.below !== undefined && value < threshold.below) status = 'critical';
+      results[check.name] = { value, status, threshold };
+    }
+
+    const outputKey = `${id}_monitoring`;
+    const prevResults = ctx.state[outputKey];
+    const changed = JSON.stringify(prevResults) !== JSON.stringify(results);
+
+    const shouldEmit =
+      emit === 'always' ||
+      (emit === 'onChange' && changed) ||
+      (emit === 'onTrue' && Object.values(results).some(r => r.status === 'critical'));
+
+    return {
+      patch: { [outputKey]: results },
+      events: shouldEmit ? [{ name: 'monitor.alert', for: id, data: results }] : []
+    };
+  }
+};
+
+export const adapterHandler: PrimitiveHandler = {
+  type: 'adapter',
+  async run(id, spec, ctx) {
+    if (spec.kind !== 'webhook') {
+      ctx.log('info', `Adapter ${id}: kind=${spec.kind} (simulated)`);
+      return { patch: {}, events: [] };
+    }
+
+    const idempKey = spec.idempotency_key
+      ? templateObject(spec.idempotency_key, { state: ctx.state, env: ctx })
+      : ctx.hash(id, ctx.clock());
+
+    const dedupKey = `__sent_${ctx.hash(id, idempKey)}`;
+
+    if (ctx.state[dedupKey]) {
+      ctx.log('info', `Adapter ${id}: Skipped (idempotent)`);
+      return { patch: {}, events: [] };
+    }
+
+    const body = spec.body ? templateObject(spec.body, { state: ctx.state, env: ctx }) : {};
+
+    ctx.log('info', `Adapter ${id}: Would send webhook to ${spec.url}`);
+    return {
+      patch: {
+        [dedupKey]: ctx.clock(),
+        [`${id}_last_sent`]: {
+          timestamp: ctx.clock(),
+          body,
+          idempotency_key: idempKey
+        }
+      },
+      events: [{ name: 'adapter.sent', for: id, data: { url: spec.url } }]
+    };
+  }
+};
+
+export const aggregatorHandler: PrimitiveHandler = {
+  type: 'aggregator',
+  run(id, spec, ctx) {
+    const { inputKey, outputKey = `${id}_aggregated`, window, reduce } = spec;
+    const input = ctx.state[inputKey];
+
+    if (!input) return { patch: {}, events: [] };
+
+    const windowKey = `__window_${id}`;
+    const windowData = ctx.state[windowKey] || {
+      items: [],
+      start: ctx.clock(),
+      maxSize: 1000
+    };
+
+    windowData.items.push({ data: input, timestamp: ctx.clock() });
+
+    if (windowData.items.length > windowData.maxSize) {
+      windowData.items.shift();
+    }
+
+    const windowSizeMs = (window.size_sec || 30) * 1000;
+    const cutoff = new Date(Date.parse(ctx.clock()) - windowSizeMs);
+    const validItems = windowData.items.filter((i: any) => new Date(i.timestamp) >= cutoff);
+
+    let result: any = validItems;
+    if (reduce?.emit) {
+      switch (reduce.emit) {
+        case 'latest':
+          result = validItems[validItems.length - 1]?.data;
+          break;
+        case 'count':
+          result = validItems.length;
+          break;
+        case 'all':
+          result = validItems.map((i: any) => i.data);
+          break;
+      }
+    }
+
+    return {
+      patch: {
+        [windowKey]: windowData,
+        [outputKey]: result
+      },
+      events: [{ name: 'aggregator.window', for: id, data: { count: validItems.length } }]
+    };
+  }
+};
+
+export const routerHandler: PrimitiveHandler = {
+  type: 'router',
+  run(id, spec, ctx) {
+    const { routes, fallback, shard_key, shards } = spec;
+    let targetService: string | null = null;
+    let routeMatched = false;
+    const patch: Record<string, any> = {};
+    const statuses: Record<string, ServiceStatus> = {};
+
+    // Handle shard-based routing
+    if (shard_key && shards) {
+      const keyValue = templateObject(shard_key, { state: ctx.state, env: ctx });
+      const shardIndex = parseInt(ctx.hash(keyValue), 16) % shards;
+      ctx.log('info', `Router ${id}: Shard routing to index ${shardIndex}`);
+      return {
+        patch: {
+          [`${id}_shard`]: shardIndex,
+          [`${id}_shard_key`]: keyValue
+        },
+        events: [{ name: 'router.sharded', for: id, data: { shard: shardIndex } }]
+      };
+    }
+
+    // Evaluate routing conditions
+    for (const route of routes || []) {
+      const matches = route.condition && evalExpression(route.condition, { state: ctx.state, env: ctx });
+      if (matches) {
+        targetService = route.target;
+        routeMatched = true;
+        ctx.log('info', `Router ${id}: Matched ${targetService}`);
+        break;
+      }
+    }
+
+    if (!routeMatched && fallback) {
+      targetService = fallback;
+      ctx.log('info', `Router ${id}: Using fallback ${targetService}`);
+    }
+
+    // Start target, stop fallback if not used
+    if (targetService && ctx.services[targetService]) {
+      statuses[targetService] = 'running';
+      ctx.log('lifecycle', `Router ${id}: Starting ${targetService}`);
+    }
+
+    if (routeMatched && fallback && targetService !== fallback && ctx.services[fallback]) {
+      statuses[fallback] = 'stopped';
+      ctx.log('lifecycle', `Router ${id}: Stopping fallback ${fallback}`);
+    }
+
+    patch[`${id}_target`] = targetService;
+    patch[`${id}_matched`] = routeMatched;
+
+    return {
+      patch,
+      statuses,
+      events: [{
+        name: 'router.routed',
+        for: id,
+        data: { target: targetService, matched: routeMatched }
+      }]
+    };
+  }
+};
+
+export const vaultHandler: PrimitiveHandler = {
+  type: 'vault',
+  async run(id, spec, ctx) {
+    const { provider, secrets = [], rotation_policy } = spec;
+
+    const vaultKey = `__vault_${id}`;
+    const vaultData = ctx.state[vaultKey] || { secrets: {}, lastRotation: null };
+
+    const needsRotation = rotation_policy?.auto_rotate &&
+      (!vaultData.lastRotation ||
+        (Date.parse(ctx.clock()) - new Date(vaultData.lastRotation).getTime()) > (rotation_policy.rotation_days * 86400000));
+
+    if (needsRotation) {
+      ctx.log('info', `Vault ${id}: Rotating secrets per policy`);
+      vaultData.lastRotation = ctx.clock();
+    }
+
+    for (const secretRef of secrets) {
+      vaultData.secrets[secretRef] = {
+        ref: secretRef,
+        provider,
+        lastAccessed: ctx.clock()
+      };
+    }
+
+    return {
+      patch: {
+        [vaultKey]: vaultData,
+        [`${id}_status`]: {
+          provider,
+          secretCount: secrets.length,
+          lastRotation: vaultData.lastRotation,
+          healthy: true
+        }
+      },
+      events: [{
+        name: needsRotation ? 'vault.rotated' : 'vault.accessed',
+        for: id,
+        data: { provider, secretCount: secrets.length }
+      }]
+    };
+  }
+};
+
+export const PRIMITIVE_HANDLERS: PrimitiveHandler[] = [
+  csvLoaderHandler,
+  connectorHandler,
+  processorHandler,
+  monitorHandler,
+  adapterHandler,
+  aggregatorHandler,
+  routerHandler,
+  vaultHandler,
+  iteratorHandler
+];
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { appendDeadLetter, backoffDelay, DEAD_LETTER_LIMIT, deadLetterKey, decideFailure } from './recovery';
+
+const middle = () => 0.5;
+
+describe('backoffDelay', () => {
+  it('doubles from backoff_ms up to max_backoff_ms', () => {
+    const retry = { backoff_ms: 100, max_backoff_ms: 1000 };
+    expect([1, 2, 3, 4, 5, 6].map(attempt => backoffDelay(retry, attempt, middle))).toEqual([100, 200, 400, 800, 1000, 1000]);
+  });
+
+  it('defaults to one second, capped at a minute', () => {
+    expect(backoffDelay(undefined, 1, middle)).toBe(1000);
+    expect(backoffDelay(undefined, 20, middle)).toBe(60_000);
+  });
+
+  it('spreads the delay by the jitter fraction', () => {
+    const retry = { backoff_ms: 1000, jitter: 0.2 };
+    expect(backoffDelay(retry, 1, () => 0)).toBe(800);
+    expect(backoffDelay(retry, 1, middle)).toBe(1000);
+    expect(backoffDelay(retry, 1, () => 1)).toBe(1200);
+  });
+
+  it('clamps the jitter to 0–1', () => {
+    expect(backoffDelay({ backoff_ms: 1000, jitter: 5 }, 1, () => 0)).toBe(0);
+    expect(backoffDelay({ backoff_ms: 1000, jitter: -1 }, 1, () => 0)).toBe(1000);
+  });
+});
+
+describe('decideFailure', () => {
+  it('retries while failures are within max_attempts', () => {
+    const spec = { retry: { max_attempts: 2, backoff_ms: 100 } };
+    expect(decideFailure(spec, 1, middle)).toEqual({ kind: 'retry', attempt: 1, of: 2, delayMs: 100 });
+    expect(decideFailure(spec, 2, middle)).toEqual({ kind: 'retry', attempt: 2, of: 2, delayMs: 200 });
+    expect(decideFailure(spec, 3, middle)).toEqual({ kind: 'stop' });
+  });
+
+  it('stops at once without a retry policy', () => {
+    expect(decideFailure(undefined, 1, middle)).toEqual({ kind: 'stop' });
+  });
+
+  it('applies on_error once the retries are spent', () => {
+    expect(decideFailure({ on_error: { action: 'skip' } }, 1, middle)).toEqual({ kind: 'skip' });
+    expect(decideFailure({ on_error: { action: 'fallback', fallback: 'backup' } }, 1, middle)).toEqual({ kind: 'fallback', target: 'backup' });
+    expect(decideFailure({ on_error: { action: 'fallback' } }, 1, middle)).toEqual({ kind: 'fallback', target: null });
+  });
+
+  it('opens the circuit at the threshold, ahead of any retries left', () => {
+    const spec = { retry: { max_attempts: 10 }, circuit_breaker: { threshold: 3, cooldown_sec: 30 } };
+    expect(decideFailure(spec, 2, middle).kind).toBe('retry');
+    expect(decideFailure(spec, 3, middle)).toEqual({ kind: 'open', cooldownMs: 30_000 });
+    expect(decideFailure({ circuit_breaker: { threshold: 1 } }, 1, middle)).toEqual({ kind: 'open', cooldownMs: 60_000 });
+  });
+});
+
+describe('dead letters', () => {
+  it('go to <id>_dead_letter unless the spec names a key', () => {
+    expect(deadLetterKey('fetch', undefined)).toBe('fetch_dead_letter');
+    expect(deadLetterKey('fetch', { on_error: { dead_letter_key: 'failed' } })).toBe('failed');
+  });
+
+  it('keep the newest DEAD_LETTER_LIMIT letters', () => {
+    const letter = (tick: number) => ({ tick, timestamp: '2024-01-01T00:00:00.000Z', serviceId: 'fetch', error: 'boom', attempt: 1, inputs: {} });
+    let list: unknown = 'not a list';
+    for (let tick = 0; tick < DEAD_LETTER_LIMIT + 5; tick++) list = appendDeadLetter(list, letter(tick));
+    const letters = list as ReturnType<typeof appendDeadLetter>;
+    expect(letters).toHaveLength(DEAD_LETTER_LIMIT);
+    expect(letters[0].tick).toBe(5);
+    expect(letters[letters.length - 1].tick).toBe(DEAD_LETTER_LIMIT + 4);
+  });
+});
@@ -0,0 +1,83 @@
+import type { DeadLetter, Service } from './types';
+
+// ============================================================================
+// FAILURE RECOVERY
+// ============================================================================
+//
+// Handlers throw when they fail; the engine then decides what happens next
+// from three optional spec fields, the same for every primitive:
+//
+//   retry:            { max_attempts: 3, backoff_ms: 1000, max_backoff_ms: 60000, jitter: 0.2 }
+//   circuit_breaker:  { threshold: 5, cooldown_sec: 60 }
+//   on_error:         { action: stop | skip | fallback, fallback: <service id>, dead_letter_key: <state key> }
+//
+// `failures` counts consecutive failed runs. While it is within
+// `max_attempts` the service is tried again after an exponential backoff
+// (doubling from `backoff_ms`, capped at `max_backoff_ms`, spread by ±`jitter`
+// of the delay). Once the retries are spent, `on_error` applies: `stop` (the
+// default) puts the service in error, `skip` keeps it running on its
+// schedule, and `fallback` puts it in error and starts another service.
+// Reaching `threshold` consecutive failures opens the circuit instead: the
+// service waits `cooldown_sec`, then gets one trial run. Every failure is
+// appended to a dead-letter list in state, `<id>_dead_letter` by default.
+
+export const DEFAULT_BACKOFF_MS = 1000;
+export const DEFAULT_MAX_BACKOFF_MS = 60_000;
+export const DEFAULT_COOLDOWN_SEC = 60;
+/** Dead letters kept per service, newest last */
+export const DEAD_LETTER_LIMIT = 100;
+
+export type FailureDecision =
+  | { kind: 'retry'; attempt: number; of: number; delayMs: number }
+  | { kind: 'open'; cooldownMs: number }
+  | { kind: 'stop' }
+  | { kind: 'skip' }
+  | { kind: 'fallback'; target: string | null };
+
+export function deadLetterKey(id: string, spec: Record<string, any> | undefined): string {
+  const key = spec?.on_error?.dead_letter_key;
+  return typeof key === 'string' && key ? key : `${id}_dead_letter`;
+}
+
+/** Delay before retry number `attempt` (1 for the first retry) */
+export function backoffDelay(retry: Record<string, any> | undefined, attempt: number, random: () => number): number {
+  const base = retry?.backoff_ms ?? DEFAULT_BACKOFF_MS;
+  const cap = retry?.max_backoff_ms ?? DEFAULT_MAX_BACKOFF_MS;
+  const delay = Math.min(cap, base * 2 ** Math.max(0, attempt - 1));
+  const jitter = Math.min(1, Math.max(0, retry?.jitter ?? 0));
+  return Math.max(0, Math.round(delay * (1 + jitter * (2 * random() - 1))));
+}
+
+/** What to do after the `failures`th consecutive failure of a service with this spec */
+export function decideFailure(spec: Record<string, any> | undefined, failures: number, random: () => number): FailureDecision {
+  const threshold = spec?.circuit_breaker?.threshold;
+  if (typeof threshold === 'number' && threshold > 0 && failures >= threshold) {
+    return { kind: 'open', cooldownMs: (spec?.circuit_breaker?.cooldown_sec ?? DEFAULT_COOLDOWN_SEC) * 1000 };
+  }
+  const max = spec?.retry?.max_attempts ?? 0;
+  if (failures <= max) {
+    return { kind: 'retry', attempt: failures, of: max, delayMs: backoffDelay(spec?.retry, failures, random) };
+  }
+  switch (spec?.on_error?.action) {
+    case 'skip':
+      return { kind: 'skip' };
+    case 'fallback':
+      return { kind: 'fallback', target: spec?.on_error?.fallback || null };
+    default:
+      return { kind: 'stop' };
+  }
+}
+
+/** Appends `letter` to the list at `key`, dropping the oldest beyond DEAD_LETTER_LIMIT */
+export function appendDeadLetter(list: unknown, letter: DeadLetter): DeadLetter[] {
+  const letters = Array.isArray(list) ? [...list, letter] : [letter];
+  return letters.slice(-DEAD_LETTER_LIMIT);
+}
+
+/** Forgets a service's failures; its status is left alone */
+export function clearFailures(service: Service): void {
+  delete service.failures;
+  delete service.lastError;
+  delete service.retryAt;
+  delete service.circuitOpen;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createCassette, readCassette, recordingTransport, replayingTransport, seededRandom, serviceSeed, tickSeed, virtualClock } from './runtime';
+import type { Transport } from './types';
+
+/** Answers every request with how many requests it has seen */
+function counter(): Transport {
+  let calls = 0;
+  return async () => ({ status: 200, body: String(++calls) });
+}
+
+describe('virtualClock', () => {
+  it('reads start + tick * step', () => {
+    const clock = virtualClock('2024-01-01T00:00:00Z', 500);
+    expect(clock.now()).toBe(Date.parse('2024-01-01T00:00:00Z'));
+    clock.advance!(4);
+    expect(clock.now()).toBe(Date.parse('2024-01-01T00:00:02Z'));
+  });
+
+  it('rejects a start it cannot parse', () => {
+    expect(() => virtualClock('yesterday')).toThrow('Invalid clock start "yesterday"');
+  });
+});
+
+describe('seeds', () => {
+  it('repeat the same sequence for the same seed', () => {
+    const draw = (seed: number) => { const random = seededRandom(seed); return [random(), random(), random()]; };
+    expect(draw(7)).toEqual(draw(7));
+    expect(draw(7)).not.toEqual(draw(8));
+    expect(draw(7).every(n => n >= 0 && n < 1)).toBe(true);
+  });
+
+  it('differ per tick and per service', () => {
+    expect(tickSeed(7, 0)).not.toBe(tickSeed(7, 1));
+    expect(serviceSeed(7, 0, 'a')).not.toBe(serviceSeed(7, 0, 'b'));
+    expect(serviceSeed(7, 3, 'a')).toBe(serviceSeed(7, 3, 'a'));
+  });
+});
+
+describe('cassettes', () => {
+  it('replay recorded responses in order, and fail on an unrecorded request', async () => {
+    const cassette = createCassette();
+    const record = recordingTransport(cassette, counter());
+    await record('https://example.test/a');
+    await record('https://example.test/a');
+    await record('https://example.test/b', { method: 'post', body: '{}' });
+    expect(cassette.entries.map(e => `${e.method} ${e.url} ${e.response}`)).toEqual([
+      'GET https://example.test/a 1',
+      'GET https://example.test/a 2',
+      'POST https://example.test/b 3'
+    ]);
+
+    const replay = replayingTransport(readCassette(JSON.parse(JSON.stringify(cassette))));
+    expect((await replay('https://example.test/a')).body).toBe('1');
+    expect((await replay('https://example.test/b', { method: 'POST', body: '{}' })).body).toBe('3');
+    expect((await replay('https://example.test/a')).body).toBe('2');
+    await expect(replay('https://example.test/a')).rejects.toThrow('No recorded response for GET https://example.test/a (call 3, 2 recorded)');
+    await expect(replay('https://example.test/b')).rejects.toThrow('No recorded response for GET https://example.test/b');
+  });
+
+  it('record and replay a failed request as a failure', async () => {
+    const cassette = createCassette();
+    const record = recordingTransport(cassette, async () => { throw new Error('connection refused'); });
+    await expect(record('https://example.test/a')).rejects.toThrow('connection refused');
+    await expect(replayingTransport(cassette)('https://example.test/a')).rejects.toThrow('connection refused');
+  });
+
+  it('give the responses of a tick again after a rewind to it', async () => {
+    const cassette = createCassette();
+    const record = recordingTransport(cassette, counter());
+    for (const tick of [0, 1, 2]) {
+      record.advance!(tick);
+      await record('https://example.test/a');
+    }
+
+    const replay = replayingTransport(cassette);
+    const bodies: string[] = [];
+    for (const tick of [0, 1, 2, 1, 2]) {
+      replay.advance!(tick);
+      bodies.push((await replay('https://example.test/a')).body);
+    }
+    expect(bodies).toEqual(['1', '2', '3', '2', '3']);
+  });
+
+  it('drop what a rewound tick had recorded', async () => {
+    const cassette = createCassette();
+    const record = recordingTransport(cassette, counter());
+    for (const tick of [0, 1, 2, 1]) {
+      record.advance!(tick);
+      await record('https://example.test/a');
+    }
+    expect(cassette.entries.map(e => e.response)).toEqual(['1', '4']);
+  });
+
+  it('reject a file that is not a cassette', () => {
+    expect(() => readCassette({ entries: [{ url: 1 }] })).toThrow('Not a cassette');
+  });
+});
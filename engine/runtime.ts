@@ -0,0 +1,172 @@
+import type { HttpResponse, RuntimeClock, Transport } from './types';
+
+// ============================================================================
+// DETERMINISTIC RUNTIME
+// ============================================================================
+//
+// Everything a handler can observe beyond the SPC itself comes through the
+// engine: the time, random numbers and the network. Swapping the wall clock
+// for a virtual one, seeding the generator and replaying recorded responses
+// makes a run repeat exactly, down to the ledger hashes.
+
+/** Where a virtual clock starts unless told otherwise */
+export const VIRTUAL_EPOCH = '2024-01-01T00:00:00.000Z';
+
+export const wallClock: RuntimeClock = { now: () => Date.now() };
+
+/**
+ * A clock that stands still within a tick and moves `stepMs` between ticks,
+ * so tick N always reads `start + N * stepMs`.
+ */
+export function virtualClock(start: string | number = VIRTUAL_EPOCH, stepMs = 1000): RuntimeClock {
+  const origin = typeof start === 'number' ? start : Date.parse(start);
+  if (Number.isNaN(origin)) throw new Error(`Invalid clock start "${start}"`);
+  let tick = 0;
+  return {
+    now: () => origin + tick * stepMs,
+    advance: (n: number) => { tick = n; }
+  };
+}
+
+/** mulberry32: small, fast and the same on every platform */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seed for one tick's generator. Each tick starts its own sequence, so a run
+ * resumed from any tick draws the numbers the original run drew there.
+ */
+export function tickSeed(seed: number, tick: number): number {
+  return (seed ^ Math.imul(tick + 1, 0x9e3779b1)) >>> 0;
+}
+
+/**
+ * Seed for one service's generator within a tick. Services of a batch run
+ * concurrently, so each draws from its own sequence rather than sharing one.
+ */
+export function serviceSeed(seed: number, tick: number, serviceId: string): number {
+  let h = tickSeed(seed, tick);
+  for (let i = 0; i < serviceId.length; i++) h = Math.imul(h ^ serviceId.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+}
+
+export const liveTransport: Transport = async (url, opts) => {
+  const response = await fetch(url, opts);
+  return { status: response.status, body: await response.text() };
+};
+
+// ----------------------------------------------------------------------------
+// Cassettes
+// ----------------------------------------------------------------------------
+
+export interface CassetteEntry {
+  method: string;
+  url: string;
+  /** Request body, when a string was sent */
+  body?: string;
+  status?: number;
+  response?: string;
+  /** Set when the request itself failed; replaying throws it again */
+  error?: string;
+}
+
+/**
+ * Responses recorded from a live run, in the order they were made. Request
+ * headers are left out so credentials never end up in the file.
+ */
+export interface Cassette {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+export function createCassette(): Cassette {
+  return { version: 1, entries: [] };
+}
+
+/** Checks the shape of a cassette read from disk */
+export function readCassette(value: unknown): Cassette {
+  const entries = (value as Cassette | null)?.entries;
+  if (!Array.isArray(entries) || entries.some(entry => typeof entry?.url !== 'string' || typeof entry?.method !== 'string')) {
+    throw new Error('Not a cassette: expected { version, entries: [{ method, url, ... }] }');
+  }
+  return { version: 1, entries };
+}
+
+function describeRequest(url: string, opts?: RequestInit) {
+  const method = (opts?.method || 'GET').toUpperCase();
+  const body = typeof opts?.body === 'string' ? opts.body : undefined;
+  return { method, url, body, signature: `${method} ${url} ${body ?? ''}` };
+}
+
+/**
+ * Where a cassette transport stands at the start of each tick, so that when
+ * the engine rewinds and runs a tick again the transport picks up from there.
+ */
+function tickMarks<T>(current: () => T, restore: (mark: T) => void): (tick: number) => void {
+  const marks = new Map<number, T>();
+  return tick => {
+    const mark = marks.get(tick);
+    if (mark === undefined) {
+      marks.set(tick, current());
+      return;
+    }
+    restore(mark);
+    for (const later of marks.keys()) if (later > tick) marks.delete(later);
+  };
+}
+
+/**
+ * Passes requests through to `inner` and appends every outcome to
+ * `cassette`. Rewinding drops what the ticks run again had recorded.
+ */
+export function recordingTransport(cassette: Cassette, inner: Transport = liveTransport): Transport {
+  const advance = tickMarks(() => cassette.entries.length, length => { cassette.entries.length = length; });
+  const transport: Transport = async (url, opts) => {
+    const { method, body } = describeRequest(url, opts);
+    const request = { method, url, ...(body !== undefined ? { body } : {}) };
+    try {
+      const response = await inner(url, opts);
+      cassette.entries.push({ ...request, status: response.status, response: response.body });
+      return response;
+    } catch (error: any) {
+      cassette.entries.push({ ...request, error: error?.message || String(error) });
+      throw error;
+    }
+  };
+  transport.advance = tick => {
+    advance(tick);
+    inner.advance?.(tick);
+  };
+  return transport;
+}
+
+/**
+ * Answers from `cassette` without touching the network. Repeats of the same
+ * request get the recorded responses in order; an unrecorded request fails.
+ * After a rewind the ticks run again get the responses they got the first time.
+ */
+export function replayingTransport(cassette: Cassette): Transport {
+  let used = new Map<string, number>();
+  const transport: Transport = async (url, opts): Promise<HttpResponse> => {
+    const { method, signature } = describeRequest(url, opts);
+    const matches = cassette.entries.filter(entry => describeRequest(entry.url, entry).signature === signature);
+    const index = used.get(signature) ?? 0;
+    const entry = matches[index];
+    if (!entry) {
+      throw new Error(`No recorded response for ${method} ${url}${matches.length ? ` (call ${index + 1}, ${matches.length} recorded)` : ''}`);
+    }
+    used.set(signature, index + 1);
+    if (entry.error !== undefined) throw new Error(entry.error);
+    return { status: entry.status ?? 200, body: entry.response ?? '' };
+  };
+  transport.advance = tickMarks(() => new Map(used), mark => { used = new Map(mark); });
+  return transport;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { checkSchedule, nextCronTime, parseCron, type ScheduleInput } from './schedule';
+
+const at = (iso: string) => Date.parse(iso);
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+
+describe('parseCron', () => {
+  it('reads lists, ranges and steps', () => {
+    const cron = parseCron('*/15 9-17/4 1,15 * *');
+    expect(sorted(cron.minutes)).toEqual([0, 15, 30, 45]);
+    expect(sorted(cron.hours)).toEqual([9, 13, 17]);
+    expect(sorted(cron.days)).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect(cron.anyDay).toBe(false);
+    expect(cron.anyWeekday).toBe(true);
+  });
+
+  it('runs a single value with a step to the end of the field', () => {
+    expect(sorted(parseCron('50/5 * * * *').minutes)).toEqual([50, 55]);
+  });
+
+  it('accepts month and day names, and 7 for Sunday', () => {
+    const cron = parseCron('0 0 * jan-Mar SUN,fri,7');
+    expect(sorted(cron.months)).toEqual([1, 2, 3]);
+    expect(sorted(cron.weekdays)).toEqual([0, 5]);
+  });
+
+  it.each([
+    ['* * * *', 'expected 5 fields, got 4'],
+    ['60 * * * *', 'minute "60" is not in 0–59'],
+    ['* * 0 * *', 'day of month "0" is not in 1–31'],
+    ['* * * FOO *', 'month "FOO" is not in 1–12'],
+    ['*/0 * * * *', 'Bad step in minute "*/0"'],
+    ['*/2/3 * * * *', 'Bad step'],
+    ['30-10 * * * *', 'Range 30-10 in minute runs backwards']
+  ])('rejects %s', (expr, message) => {
+    expect(() => parseCron(expr)).toThrow(`Invalid cron "${expr}"`);
+    expect(() => parseCron(expr)).toThrow(message);
+  });
+});
+
+describe('nextCronTime', () => {
+  it('finds the next matching minute, strictly after the given time', () => {
+    const cron = parseCron('*/15 * * * *');
+    expect(nextCronTime(cron, at('2024-01-01T10:07:30Z'))).toBe(at('2024-01-01T10:15:00Z'));
+    expect(nextCronTime(cron, at('2024-01-01T10:15:00Z'))).toBe(at('2024-01-01T10:30:00Z'));
+  });
+
+  it('rolls over hours, days and months', () => {
+    expect(nextCronTime(parseCron('30 9 * * *'), at('2024-01-01T10:00:00Z'))).toBe(at('2024-01-02T09:30:00Z'));
+    expect(nextCronTime(parseCron('0 0 1 * *'), at('2024-01-31T12:00:00Z'))).toBe(at('2024-02-01T00:00:00Z'));
+    expect(nextCronTime(parseCron('0 0 29 2 *'), at('2024-03-01T00:00:00Z'))).toBe(at('2028-02-29T00:00:00Z'));
+  });
+
+  it('matches weekdays, and either day field when both are restricted', () => {
+    // 2024-01-01 is a Monday
+    expect(nextCronTime(parseCron('0 8 * * FRI'), at('2024-01-01T00:00:00Z'))).toBe(at('2024-01-05T08:00:00Z'));
+    expect(nextCronTime(parseCron('0 8 3 * FRI'), at('2024-01-01T00:00:00Z'))).toBe(at('2024-01-03T08:00:00Z'));
+  });
+
+  it('returns null for a date that never comes', () => {
+    expect(nextCronTime(parseCron('0 0 30 2 *'), at('2024-01-01T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('checkSchedule', () => {
+  const now = at('2024-01-01T10:00:00Z');
+  const input = (overrides: Partial<ScheduleInput> = {}): ScheduleInput => ({
+    tick: 0, now, lastRun: null, inputsChanged: false, tickMs: 5000, ...overrides
+  });
+
+  it('lets a service without a schedule run on every tick', () => {
+    expect(checkSchedule(undefined, input())).toEqual({ due: true, nextRun: null });
+  });
+
+  it('runs every_ticks on multiples of the interval', () => {
+    expect(checkSchedule({ every_ticks: 3 }, input({ tick: 6 })).due).toBe(true);
+    expect(checkSchedule({ every_ticks: 3 }, input({ tick: 7 }))).toEqual({ due: false, nextRun: now + 2 * 5000 });
+  });
+
+  it('holds interval_sec back from the last run only', () => {
+    expect(checkSchedule({ interval_sec: 60 }, input()).due).toBe(true);
+    expect(checkSchedule({ interval_sec: 60 }, input({ lastRun: now - 30_000 }))).toEqual({ due: false, nextRun: now + 30_000 });
+    expect(checkSchedule({ interval_sec: 60 }, input({ lastRun: now - 60_000 })).due).toBe(true);
+  });
+
+  it('runs a cron schedule once per matching minute', () => {
+    const schedule = { cron: '0 * * * *' };
+    expect(checkSchedule(schedule, input()).due).toBe(true);
+    expect(checkSchedule(schedule, input({ lastRun: now }))).toEqual({ due: false, nextRun: at('2024-01-01T11:00:00Z') });
+    expect(checkSchedule(schedule, input({ now: at('2024-01-01T11:00:05Z'), lastRun: now })).due).toBe(true);
+  });
+
+  it('throws on an invalid cron before the service has run', () => {
+    expect(() => checkSchedule({ cron: 'every hour' }, input())).toThrow('Invalid cron "every hour"');
+  });
+
+  it('reports no next run for a cron that never fires again', () => {
+    expect(checkSchedule({ cron: '0 0 30 2 *' }, input({ lastRun: now }))).toEqual({ due: false, nextRun: null });
+  });
+
+  it('waits for changed inputs with on_change, except on the first run', () => {
+    expect(checkSchedule({ on_change: true }, input()).due).toBe(true);
+    expect(checkSchedule({ on_change: true }, input({ lastRun: now - 1 }))).toEqual({ due: false, nextRun: null });
+    expect(checkSchedule({ on_change: true }, input({ lastRun: now - 1, inputsChanged: true })).due).toBe(true);
+  });
+
+  it('needs every given condition to allow the run', () => {
+    const schedule = { interval_sec: 60, on_change: true };
+    expect(checkSchedule(schedule, input({ lastRun: now - 120_000 })).due).toBe(false);
+    expect(checkSchedule(schedule, input({ lastRun: now - 30_000, inputsChanged: true })).due).toBe(false);
+    expect(checkSchedule(schedule, input({ lastRun: now - 120_000, inputsChanged: true })).due).toBe(true);
+  });
+});
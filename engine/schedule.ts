@@ -0,0 +1,192 @@
+import type { ScheduleSpec, SPC } from './types';
+
+// ============================================================================
+// SCHEDULES
+// ============================================================================
+//
+// A running service runs on every tick unless its spec has a `schedule`:
+//
+//   schedule:
+//     every_ticks: 12              # on ticks 0, 12, 24, ...
+//     interval_sec: 3600           # at most once per hour of engine clock
+//     cron: "*/15 9-17 * * 1-5"    # five fields, UTC
+//     on_change: true              # only when a key it reads has changed
+//
+// When several are given, all of them have to allow the run. A service that
+// has not run yet is not held back by `interval_sec`, `cron` or `on_change`.
+// Times come from the engine clock, so virtual clocks schedule exactly.
+
+/** Tick interval when `meta.tick_interval_ms` is not set */
+export const DEFAULT_TICK_MS = 5000;
+
+/** The document's tick interval in milliseconds */
+export function tickInterval(spc: Pick<SPC, 'meta'> | null): number {
+  const ms = spc?.meta?.tick_interval_ms;
+  return typeof ms === 'number' && Number.isInteger(ms) && ms > 0 ? ms : DEFAULT_TICK_MS;
+}
+
+// ----------------------------------------------------------------------------
+// Cron
+// ----------------------------------------------------------------------------
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  /** 0 is Sunday */
+  weekdays: Set<number>;
+  /** Day of month and day of week given as `*`; when both are restricted either may match */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const CRON_FIELDS: { name: string; min: number; max: number; names?: string[]; offset?: number }[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, offset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, offset: 0 }
+];
+
+function parseCronField(text: string, field: typeof CRON_FIELDS[number]): Set<number> {
+  const value = (token: string): number => {
+    const named = field.names?.indexOf(token.toUpperCase()) ?? -1;
+    const n = named >= 0 ? named + field.offset! : /^\d+$/.test(token) ? Number(token) : NaN;
+    if (!(n >= field.min && n <= field.max)) throw new Error(`${field.name} "${token}" is not in ${field.min}–${field.max}`);
+    return n;
+  };
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) throw new Error(`Bad step in ${field.name} "${part}"`);
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      [from, to] = [field.min, field.max];
+    } else if (range.includes('-')) {
+      const [a, b] = range.split('-');
+      [from, to] = [value(a), value(b)];
+      if (from > to) throw new Error(`Range ${range} in ${field.name} runs backwards`);
+    } else {
+      from = value(range);
+      to = stepText === undefined ? from : field.max;
+    }
+    for (let n = from; n <= to; n += step) values.add(n);
+  }
+  return values;
+}
+
+/** Parses `minute hour day-of-month month day-of-week`; names like MON and JAN are accepted */
+export function parseCron(expr: string): CronSchedule {
+  const parts = String(expr).trim().split(/\s+/);
+  if (parts.length !== 5) throw new Error(`Invalid cron "${expr}": expected 5 fields, got ${parts.length}`);
+  try {
+    const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseCronField(part, CRON_FIELDS[i]));
+    if (weekdays.delete(7)) weekdays.add(0);
+    return { minutes, hours, days, months, weekdays, anyDay: parts[2] === '*', anyWeekday: parts[4] === '*' };
+  } catch (error: any) {
+    throw new Error(`Invalid cron "${expr}": ${error?.message ?? error}`);
+  }
+}
+
+const MINUTE_MS = 60_000;
+/** How far ahead to look before deciding a cron never fires (e.g. 30 February) */
+const CRON_HORIZON_MS = 5 * 366 * 86_400_000;
+
+function dayMatches(cron: CronSchedule, date: Date): boolean {
+  const day = cron.days.has(date.getUTCDate());
+  const weekday = cron.weekdays.has(date.getUTCDay());
+  if (cron.anyDay) return weekday;
+  if (cron.anyWeekday) return day;
+  return day || weekday;
+}
+
+/** The first minute strictly after `after` (ms) the cron fires at, or null if it never does */
+export function nextCronTime(cron: CronSchedule, after: number): number | null {
+  const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after + CRON_HORIZON_MS;
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  return null;
+}
+
+const MAX_CACHED = 200;
+const parsedCrons = new Map<string, CronSchedule>();
+
+function cachedCron(expr: string): CronSchedule {
+  let cron = parsedCrons.get(expr);
+  if (!cron) {
+    cron = parseCron(expr);
+    if (parsedCrons.size >= MAX_CACHED) parsedCrons.delete(parsedCrons.keys().next().value!);
+    parsedCrons.set(expr, cron);
+  }
+  return cron;
+}
+
+// ----------------------------------------------------------------------------
+// Due check
+// ----------------------------------------------------------------------------
+
+export interface ScheduleInput {
+  tick: number;
+  /** Engine clock, ms */
+  now: number;
+  /** When the service last ran, or null if it has not */
+  lastRun: number | null;
+  /** Whether the keys it reads differ from what it read on its last run */
+  inputsChanged: boolean;
+  /** Used to estimate when an `every_ticks` schedule comes round */
+  tickMs: number;
+}
+
+export interface ScheduleDecision {
+  due: boolean;
+  /** When a service that is not due runs next (ms); null when only a change of its inputs can start it */
+  nextRun: number | null;
+}
+
+/** Whether `schedule` lets a service run now. Throws on an invalid cron expression */
+export function checkSchedule(schedule: ScheduleSpec | undefined | null, input: ScheduleInput): ScheduleDecision {
+  if (!schedule) return { due: true, nextRun: null };
+  const { tick, now, lastRun, inputsChanged, tickMs } = input;
+  let next = now;
+  let never = false;
+
+  const every = schedule.every_ticks;
+  if (typeof every === 'number' && every > 1) {
+    const wait = (every - (tick % every)) % every;
+    next = Math.max(next, now + wait * tickMs);
+  }
+  if (typeof schedule.interval_sec === 'number' && schedule.interval_sec > 0 && lastRun !== null) {
+    next = Math.max(next, lastRun + schedule.interval_sec * 1000);
+  }
+  if (typeof schedule.cron === 'string' && schedule.cron.trim()) {
+    // Parsed before the first run too, so a bad expression fails at once
+    const cron = cachedCron(schedule.cron);
+    const at = lastRun === null ? now : nextCronTime(cron, lastRun);
+    if (at === null) never = true; else next = Math.max(next, at);
+  }
+
+  const timeAllows = !never && next <= now;
+  const changeAllows = !schedule.on_change || lastRun === null || inputsChanged;
+  if (timeAllows && changeAllows) return { due: true, nextRun: null };
+  return { due: false, nextRun: never || timeAllows ? null : next };
+}
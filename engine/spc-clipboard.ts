@@ -0,0 +1,98 @@
+import { remapServices } from './spc-rename';
+import { formatIssues, hasErrors, validateSPC } from './spc-schema';
+import type { Position, Service, SPC } from './types';
+
+// ============================================================================
+// COPY, PASTE AND DUPLICATE
+// ============================================================================
+//
+// Copied services travel as a small SPC document in JSON, so the system
+// clipboard carries them between tabs and into any editor. Pasting keeps ids
+// and keys when they are free in the target; otherwise, like duplicating,
+// every id and produced key gets a `_copy` suffix and the copies' wiring
+// among themselves follows, making them a parallel branch that still reads
+// the same upstream inputs but never writes into the originals' state keys.
+
+export interface PastedServices {
+  services: Record<string, Service>;
+  /** Copied id → id in the target document */
+  ids: Record<string, string>;
+}
+
+/** How far copies sit from their originals when they would otherwise overlap */
+export const PASTE_OFFSET: Position = { x: 40, y: 40 };
+
+/** `fetch` → `fetch_copy` → `fetch_copy2`; copying a copy does not stack suffixes */
+function copyName(name: string, attempt: number): string {
+  if (attempt === 0) return name;
+  return `${name.replace(/_copy\d*$/, '')}_copy${attempt > 1 ? attempt : ''}`;
+}
+
+/** The selected services as SPC JSON, runtime fields dropped */
+export function copyServices(doc: Pick<SPC, 'spc_version' | 'meta' | 'services'>, ids: string[]): string {
+  const services: Record<string, Service> = {};
+  for (const id of ids) {
+    const service = doc.services[id];
+    if (!service) continue;
+    const { type, title, spec, position } = service;
+    services[id] = { id, type, ...(title ? { title } : {}), spec, ...(position ? { position } : {}) };
+  }
+  const fragment: SPC = {
+    spc_version: doc.spc_version || '1.0',
+    meta: { name: `Copied from ${doc.meta?.name || 'pipeline'}` },
+    services,
+    state: {}
+  };
+  return JSON.stringify(fragment, null, 2);
+}
+
+/**
+ * Reads clipboard text as copied services. Returns null when the text is not
+ * an SPC at all, so ordinary text pastes pass through; throws `Error` when it
+ * is one with invalid services.
+ */
+export function parseClipboard(text: string): Pick<SPC, 'services'> | null {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!doc || typeof doc !== 'object' || !doc.services || typeof doc.services !== 'object' || Array.isArray(doc.services)) {
+    return null;
+  }
+  if (Object.keys(doc.services).length === 0) throw new Error('The clipboard holds no services');
+  const issues = validateSPC({ spc_version: '1.0', meta: {}, state: {}, ...doc });
+  if (hasErrors(issues)) {
+    throw new Error(`Clipboard services are invalid:\n${formatIssues(issues.filter(issue => issue.severity === 'error'))}`);
+  }
+  return { services: doc.services };
+}
+
+function place(copy: Record<string, Service>, ids: Record<string, string>, from: Record<string, Service>, offset: Position | null) {
+  const services: Record<string, Service> = {};
+  for (const [oldId, id] of Object.entries(ids)) {
+    const position = from[oldId].position;
+    const { waiting: _waiting, nextRun: _nextRun, lastInputs: _lastInputs, failures: _failures, lastError: _lastError, retryAt: _retryAt, circuitOpen: _circuitOpen, ...service } = copy[id];
+    services[id] = {
+      ...service,
+      status: 'stopped',
+      lastRun: null,
+      ...(position ? { position: offset ? { x: position.x + offset.x, y: position.y + offset.y } : position } : {})
+    };
+  }
+  return services;
+}
+
+/** Services from the clipboard, renamed only where they collide with `doc` */
+export function pasteServices(doc: Pick<SPC, 'services' | 'state'>, fragment: Pick<SPC, 'services'>): PastedServices {
+  const copy = remapServices(fragment.services, {}, doc, copyName, 0);
+  return { services: place(copy.services, copy.ids, fragment.services, copy.attempt > 0 ? PASTE_OFFSET : null), ids: copy.ids };
+}
+
+/** Fresh copies of `ids`, always renamed and offset from the originals */
+export function duplicateServices(doc: Pick<SPC, 'services' | 'state'>, ids: string[]): PastedServices {
+  const chosen = Object.fromEntries(ids.filter(id => doc.services[id]).map(id => [id, doc.services[id]]));
+  const copy = remapServices(chosen, {}, doc, copyName, 1);
+  return { services: place(copy.services, copy.ids, chosen, PASTE_OFFSET), ids: copy.ids };
+}
@@ -0,0 +1,160 @@
+import type { PathSegment } from './spc-schema';
+import type { Service, SPC } from './types';
+
+// ============================================================================
+// STRUCTURED SPC DIFF
+// ============================================================================
+//
+// Compares two documents service by service instead of line by line. Runtime
+// fields (`status`, `lastRun`, schedule and failure state) and `state` are
+// left out: they change on every tick and say nothing about what someone
+// edited. Strings, expressions included, compare as whole values.
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  kind: ChangeKind;
+  /** Relative to the service, e.g. `['spec', 'pipes', 0, 'select']` */
+  path: PathSegment[];
+  before?: any;
+  after?: any;
+}
+
+export interface ServiceChange {
+  id: string;
+  kind: ChangeKind;
+  /** Field-level changes; empty for added / removed services */
+  fields: FieldChange[];
+  /** Only `position` differs */
+  movedOnly?: boolean;
+}
+
+export interface SpcDiff {
+  services: ServiceChange[];
+  meta: FieldChange[];
+}
+
+const RUNTIME_FIELDS = new Set(['status', 'lastRun', 'waiting', 'nextRun', 'lastInputs', 'failures', 'lastError', 'retryAt', 'circuitOpen']);
+
+/** Service fields compared whole: a move is one change, not an x and a y change. */
+const ATOMIC_FIELDS = new Set(['position']);
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Recursive field diff. Arrays compare element by element. */
+export function diffValues(before: any, after: any, path: PathSegment[] = []): FieldChange[] {
+  if (valuesEqual(before, after)) return [];
+  if (before === undefined) return [{ kind: 'added', path, after }];
+  if (after === undefined) return [{ kind: 'removed', path, before }];
+
+  const atomic = path.length === 1 && ATOMIC_FIELDS.has(String(path[0]));
+  if (!atomic && isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...Object.keys(before), ...Object.keys(after).filter(k => !(k in before))];
+    return keys.flatMap(key => diffValues(before[key], after[key], [...path, key]));
+  }
+  if (!atomic && Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, i) => diffValues(before[i], after[i], [...path, i])).flat();
+  }
+  return [{ kind: 'changed', path, before, after }];
+}
+
+function editable(service: Service): Record<string, any> {
+  return Object.fromEntries(Object.entries(service).filter(([key]) => !RUNTIME_FIELDS.has(key)));
+}
+
+export function diffService(id: string, before: Service | undefined, after: Service | undefined): ServiceChange | null {
+  if (!before && !after) return null;
+  if (!before) return { id, kind: 'added', fields: [] };
+  if (!after) return { id, kind: 'removed', fields: [] };
+
+  const fields = diffValues(editable(before), editable(after));
+  if (fields.length === 0) return null;
+  return { id, kind: 'changed', fields, movedOnly: fields.every(f => f.path[0] === 'position') };
+}
+
+/** What changed going from `base` to `current`. Services keep `current` order, removed ones last. */
+export function diffSPC(base: SPC, current: SPC): SpcDiff {
+  const ids = [
+    ...Object.keys(current.services || {}),
+    ...Object.keys(base.services || {}).filter(id => !(id in (current.services || {})))
+  ];
+  const services = ids
+    .map(id => diffService(id, base.services?.[id], current.services?.[id]))
+    .filter((change): change is ServiceChange => change !== null);
+
+  return { services, meta: diffValues(base.meta || {}, current.meta || {}) };
+}
+
+export function isEmptyDiff(diff: SpcDiff): boolean {
+  return diff.services.length === 0 && diff.meta.length === 0;
+}
+
+/** Per-service status, for colouring nodes */
+export function changeKinds(diff: SpcDiff): Record<string, ChangeKind> {
+  return Object.fromEntries(diff.services.map(change => [change.id, change.kind]));
+}
+
+// ----------------------------------------------------------------------------
+// Text diff, for expressions and other strings
+// ----------------------------------------------------------------------------
+
+export interface TextSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/** Beyond this many token pairs the diff falls back to "all removed, all added" */
+const MAX_TEXT_DIFF_CELLS = 250_000;
+
+function tokens(text: string): string[] {
+  return text.match(/\w+|\s+|[^\w\s]/g) || [];
+}
+
+/** Word-level diff (LCS), so `row.a > 1` vs `row.a >= 10` highlights only what moved. */
+export function diffText(before: string, after: string): TextSegment[] {
+  const a = tokens(before);
+  const b = tokens(after);
+  if (a.length * b.length > MAX_TEXT_DIFF_CELLS) {
+    return [
+      ...(before ? [{ op: 'delete' as const, text: before }] : []),
+      ...(after ? [{ op: 'insert' as const, text: after }] : [])
+    ];
+  }
+
+  // lcs[i][j] = common tokens in a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: TextSegment[] = [];
+  const push = (op: TextSegment['op'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) last.text += text; else segments.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+  return segments;
+}
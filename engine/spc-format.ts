@@ -0,0 +1,139 @@
+import { parseDocument, stringify } from 'yaml';
+
+// ============================================================================
+// SPC FILE FORMATS
+// ============================================================================
+//
+// SPCs are saved as JSON or YAML. Both are plain serialisations of the same
+// document: key order is kept as written, and YAML writes multiline strings
+// (long expressions, templates) as `|` blocks so they survive a round trip
+// unchanged. Parse errors carry a 1-based line and column.
+
+export type SpcFormat = 'json' | 'yaml';
+
+/** For `<input type="file" accept=...>` */
+export const SPC_FILE_ACCEPT = '.json,.yaml,.yml';
+
+export class SpcParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(reason: string, line: number, column: number) {
+    super(`${reason} (line ${line}, col ${column})`);
+    this.name = 'SpcParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export function formatFromFilename(name: string): SpcFormat {
+  return /\.ya?ml$/i.test(name) ? 'yaml' : 'json';
+}
+
+/** `My Pipeline` -> `my-pipeline.spc.yaml` */
+export function spcFilename(name: string, format: SpcFormat): string {
+  const slug = (name || 'pipeline').trim().replace(/\s+/g, '-').toLowerCase();
+  return `${slug}.spc.${format}`;
+}
+
+export function stringifySPC(doc: unknown, format: SpcFormat): string {
+  if (format === 'json') return JSON.stringify(doc, null, 2);
+  // Never fold long expressions, never alias repeated objects, and quote
+  // `yes` / `no` / dates the way YAML 1.1 readers would otherwise misread them.
+  return stringify(doc, { lineWidth: 0, aliasDuplicateObjects: false, version: '1.1' });
+}
+
+function lineColumn(text: string, offset: number): [number, number] {
+  const before = text.slice(0, Math.max(0, offset));
+  const lines = before.split('\n');
+  return [lines.length, lines[lines.length - 1].length + 1];
+}
+
+/**
+ * Offset of the first JSON syntax error. Newer engines drop the position from
+ * `JSON.parse` messages, so this walks the text itself.
+ */
+function jsonErrorOffset(text: string): number {
+  let i = 0;
+  const fail = (): never => {
+    throw i;
+  };
+  const space = () => {
+    while (i < text.length && ' \t\n\r'.includes(text[i])) i++;
+  };
+  const literal = (word: string) => {
+    if (!text.startsWith(word, i)) fail();
+    i += word.length;
+  };
+  const string = () => {
+    if (text[i] !== '"') fail();
+    i++;
+    while (i < text.length && text[i] !== '"') {
+      if (text[i] < ' ') fail();
+      i += text[i] === '\\' ? 2 : 1;
+    }
+    if (text[i] !== '"') fail();
+    i++;
+  };
+  const value = (): void => {
+    space();
+    const ch = text[i];
+    if (ch === '{' || ch === '[') {
+      const close = ch === '{' ? '}' : ']';
+      i++;
+      space();
+      if (text[i] === close) return void i++;
+      for (;;) {
+        if (close === '}') {
+          space();
+          string();
+          space();
+          if (text[i] !== ':') fail();
+          i++;
+        }
+        value();
+        space();
+        if (text[i] === close) return void i++;
+        if (text[i] !== ',') fail();
+        i++;
+      }
+    }
+    if (ch === '"') return string();
+    if (ch === 't') return literal('true');
+    if (ch === 'f') return literal('false');
+    if (ch === 'n') return literal('null');
+    const number = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(text.slice(i));
+    if (!number) fail();
+    i += number![0].length;
+  };
+
+  try {
+    value();
+    space();
+    return i < text.length ? i : text.length;
+  } catch (offset) {
+    return offset as number;
+  }
+}
+
+/** Parses SPC text; the result still needs `validateSPC`. Throws `SpcParseError`. */
+export function parseSPC(text: string, format: SpcFormat): unknown {
+  if (format === 'json') {
+    try {
+      return JSON.parse(text);
+    } catch (error: any) {
+      const message = String(error?.message ?? error);
+      const [line, column] = lineColumn(text, jsonErrorOffset(text));
+      // drop V8's position suffix and echoed source
+      throw new SpcParseError(message.replace(/\s+(?:in JSON\s+)?at position \d+.*$|, ".*$/s, ''), line, column);
+    }
+  }
+
+  const doc = parseDocument(text, { prettyErrors: false });
+  if (doc.errors.length > 0) {
+    const [error] = doc.errors;
+    const [line, column] = lineColumn(text, error.pos[0]);
+    throw new SpcParseError(error.message.split('\n')[0], line, column);
+  }
+  return doc.toJS() ?? {};
+}
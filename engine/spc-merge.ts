@@ -0,0 +1,95 @@
+import { diffSPC } from './spc-diff';
+import type { FieldChange, ServiceChange, SpcDiff } from './spc-diff';
+import { formatPath } from './spc-schema';
+import type { PathSegment } from './spc-schema';
+import type { SPC } from './types';
+
+// ============================================================================
+// TWO-WAY MERGE
+// ============================================================================
+//
+// The merged document starts as the left SPC. Every difference from the right
+// SPC can be taken whole per service, or field by field; whatever is not
+// picked from the right stays as on the left.
+
+export type MergeSide = 'left' | 'right';
+
+/** Picks keyed by `changeKey`; missing keys mean left */
+export type MergePicks = Record<string, MergeSide>;
+
+/** `transform` for a whole service, `transform:spec.pipes[0].select` for one field, `meta:name` for meta */
+export function changeKey(serviceId: string | null, field?: FieldChange): string {
+  const owner = serviceId ?? 'meta';
+  return field ? `${owner}:${formatPath(field.path)}` : owner;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function setAt(target: any, path: PathSegment[], value: any) {
+  let node = target;
+  for (let i = 0; i < path.length - 1; i++) {
+    if (node[path[i]] === undefined || node[path[i]] === null) {
+      node[path[i]] = typeof path[i + 1] === 'number' ? [] : {};
+    }
+    node = node[path[i]];
+  }
+  const last = path[path.length - 1];
+  // an array element added past the end goes on the end, never leaving holes
+  if (Array.isArray(node) && typeof last === 'number' && last >= node.length) node.push(value);
+  else node[last] = value;
+}
+
+function removeAt(target: any, path: PathSegment[]) {
+  let node = target;
+  for (let i = 0; i < path.length - 1; i++) {
+    node = node?.[path[i]];
+  }
+  if (node === undefined || node === null) return;
+  const last = path[path.length - 1];
+  if (Array.isArray(node) && typeof last === 'number') node.splice(last, 1);
+  else delete node[last];
+}
+
+/** Applies the picked field changes; removals run last and back to front so indices stay valid. */
+function applyFields(target: any, fields: FieldChange[], picked: (field: FieldChange) => boolean) {
+  const chosen = fields.filter(picked);
+  for (const field of chosen) {
+    if (field.kind !== 'removed') setAt(target, field.path, clone(field.after));
+  }
+  const removals = chosen.filter(field => field.kind === 'removed').reverse();
+  for (const field of removals) removeAt(target, field.path);
+}
+
+function pickedService(change: ServiceChange, picks: MergePicks): MergeSide {
+  return picks[changeKey(change.id)] ?? 'left';
+}
+
+export function mergeSPC(left: SPC, right: SPC, picks: MergePicks, diff: SpcDiff = diffSPC(left, right)): SPC {
+  const merged = clone(left);
+
+  for (const change of diff.services) {
+    const whole = pickedService(change, picks) === 'right';
+    if (change.kind === 'added') {
+      if (whole) merged.services[change.id] = clone(right.services[change.id]);
+    } else if (change.kind === 'removed') {
+      if (whole) delete merged.services[change.id];
+    } else if (whole) {
+      merged.services[change.id] = clone(right.services[change.id]);
+    } else {
+      applyFields(merged.services[change.id], change.fields, field => picks[changeKey(change.id, field)] === 'right');
+    }
+  }
+
+  applyFields(merged.meta, diff.meta, field => picks[changeKey(null, field)] === 'right');
+  return merged;
+}
+
+/** Every pick set to one side, e.g. for "take all from right" */
+export function pickAll(diff: SpcDiff, side: MergeSide): MergePicks {
+  const picks: MergePicks = {};
+  for (const change of diff.services) picks[changeKey(change.id)] = side;
+  for (const field of diff.meta) picks[changeKey(null, field)] = side;
+  return picks;
+}
@@ -0,0 +1,127 @@
+import { availableKeys, producedKeys, renameStateReferences } from './dataflow';
+import { SCHEMAS } from './spc-schema';
+import type { FieldSchema } from './spc-schema';
+import type { Service, SPC, State } from './types';
+
+// ============================================================================
+// RENAMING SERVICES AND STATE KEYS
+// ============================================================================
+//
+// Templates, pasted copies and composites all put services under new names.
+// Wiring follows the names through every field whose schema says it holds a
+// state key or service id, and through `state.x` references in expressions
+// and templates; keys nobody renamed are left alone.
+
+export interface Renames {
+  ids: Record<string, string>;
+  keys: Record<string, string>;
+}
+
+/** Renames ids and keys where the schema says a field holds one, and `state.x` references everywhere else. */
+function rename(value: any, schema: FieldSchema | undefined, renames: Renames): any {
+  if (typeof value === 'string') {
+    if (schema?.kind === 'stateKey') return renames.keys[value] ?? value;
+    if (schema?.kind === 'serviceRef') return renames.ids[value] ?? value;
+    return renameStateReferences(value, renames.keys);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => rename(item, schema?.kind === 'array' ? schema.items : undefined, renames));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => {
+      const child = schema?.kind === 'object' ? schema.fields?.[k] : schema?.kind === 'record' ? schema.items : undefined;
+      return [k, rename(v, child, renames)];
+    }));
+  }
+  return value;
+}
+
+/**
+ * `service.spec` with renamed ids and keys applied. A composite's inner
+ * services live in their own namespace and are left as they are.
+ */
+export function rewireSpec(service: Service, renames: Renames): Record<string, any> {
+  const schema: FieldSchema = { kind: 'object', fields: SCHEMAS[service.type]?.fields };
+  let spec = rename(service.spec || {}, schema, renames);
+  if (service.type === 'csv_loader' && typeof spec.source === 'string' && spec.source in renames.keys) {
+    spec = { ...spec, source: renames.keys[spec.source] };
+  }
+  if (service.type === 'composite') {
+    spec = { ...spec, services: service.spec.services, state: service.spec.state };
+    if (spec.state === undefined) delete spec.state;
+  }
+  return spec;
+}
+
+/**
+ * Explicit output keys, and a composite's bound outputs, are renamed; default
+ * keys (`<id>_data`, ...) follow the renamed id by themselves.
+ */
+export function renameOutputs(spec: Record<string, any>, nameFor: (name: string) => string): Record<string, any> {
+  const out = { ...spec };
+  for (const field of ['outputKey', 'historyKey']) {
+    if (typeof out[field] === 'string' && out[field]) out[field] = nameFor(out[field]);
+  }
+  if (out.outputs && typeof out.outputs === 'object' && !Array.isArray(out.outputs)) {
+    out.outputs = Object.fromEntries(Object.entries(out.outputs).map(([inner, key]) => [inner, typeof key === 'string' && key ? nameFor(key) : key]));
+  }
+  return out;
+}
+
+export interface RemappedServices {
+  /** Keyed by new id, with `id` and `spec` rewritten */
+  services: Record<string, Service>;
+  state: State;
+  /** Old id → new id */
+  ids: Record<string, string>;
+  /** Old key → new key, for every key the services produce */
+  keys: Record<string, string>;
+  /** The attempt whose names were free */
+  attempt: number;
+}
+
+/**
+ * Copies `services` and their `initial` state under names that collide with
+ * nothing in `doc`. `nameFor(name, attempt)` names each id, explicit output
+ * key and state key; attempts count up from `first` until all are free. The
+ * copies' wiring among themselves follows the renames, while keys they read
+ * from outside the set are left pointing where they did.
+ */
+export function remapServices(
+  services: Record<string, Service>,
+  initial: State,
+  doc: Pick<SPC, 'services' | 'state'>,
+  nameFor: (name: string, attempt: number) => string,
+  first = 0
+): RemappedServices {
+  const taken = new Set([...Object.keys(doc.services || {}), ...availableKeys(doc)]);
+  const namesFor = (attempt: number): Renames => {
+    const name = (value: string) => nameFor(value, attempt);
+    const ids: Record<string, string> = {};
+    const keys: Record<string, string> = {};
+    for (const [oldId, service] of Object.entries(services)) {
+      const id = name(oldId);
+      ids[oldId] = id;
+      const before = producedKeys(oldId, service);
+      const after = producedKeys(id, { ...service, spec: renameOutputs(service.spec || {}, name) });
+      before.forEach((key, i) => { keys[key] = after[i]; });
+    }
+    for (const key of Object.keys(initial)) keys[key] = name(key);
+    return { ids, keys };
+  };
+
+  let attempt = first;
+  let renames = namesFor(attempt);
+  while ([...Object.values(renames.ids), ...Object.values(renames.keys)].some(name => taken.has(name))) {
+    renames = namesFor(++attempt);
+  }
+
+  const copied: Record<string, Service> = {};
+  for (const [oldId, service] of Object.entries(services)) {
+    const id = renames.ids[oldId];
+    copied[id] = { ...service, id, spec: rewireSpec(service, renames) };
+  }
+
+  const state = Object.fromEntries(Object.entries(initial).map(([key, value]) => [renames.keys[key], value]));
+  return { services: copied, state, ids: renames.ids, keys: renames.keys, attempt };
+}
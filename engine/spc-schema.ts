@@ -0,0 +1,725 @@
+import { availableKeys, compositeDoc, producedKeys } from './dataflow';
+import { planExecution } from './execution-plan';
+import { checkExpression, checkTemplate, describeExpressionError } from './expressions';
+import { AGG_OPS, CAST_TYPES, JOIN_TYPES } from './pipes';
+import { DEFAULT_TICK_MS, parseCron } from './schedule';
+import type { SPC } from './types';
+
+// ============================================================================
+// FIELD SCHEMAS
+// ============================================================================
+
+export type FieldKind =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'url'
+  | 'expression' // evaluated against data/state/row
+  | 'template'   // string with {{ }} placeholders
+  | 'stateKey'   // names a key in SPC state
+  | 'serviceRef' // names another service id
+  | 'cron'       // five-field cron expression
+  | 'enum'
+  | 'object'
+  | 'record'
+  | 'array'
+  | 'any';
+
+export interface FieldSchema {
+  kind: FieldKind;
+  required?: boolean;
+  description?: string;
+  /** enum: allowed values */
+  values?: string[];
+  /** object: known keys */
+  fields?: Record<string, FieldSchema>;
+  /** record / array: schema of every value */
+  items?: FieldSchema;
+}
+
+export interface PrimitiveSchema {
+  fields: Record<string, FieldSchema>;
+}
+
+const persistent: FieldSchema = { kind: 'boolean', description: 'Keep running after each tick' };
+// Shared by every primitive; see schedule.ts
+const schedule: FieldSchema = {
+  kind: 'object',
+  description: 'When the service runs; all given conditions must hold',
+  fields: {
+    every_ticks: { kind: 'integer', description: 'Run on every Nth tick' },
+    interval_sec: { kind: 'number', description: 'Seconds between runs' },
+    cron: { kind: 'cron', description: 'minute hour day month weekday, UTC' },
+    on_change: { kind: 'boolean', description: 'Only run when a key it reads has changed' }
+  }
+};
+// Failure handling, also shared by every primitive; see recovery.ts
+const retry: FieldSchema = {
+  kind: 'object',
+  description: 'Try again after a failure, with exponential backoff',
+  fields: {
+    max_attempts: { kind: 'integer', description: 'Retries before on_error applies' },
+    backoff_ms: { kind: 'number', description: 'First delay, doubled per retry (default 1000)' },
+    max_backoff_ms: { kind: 'number', description: 'Longest delay (default 60000)' },
+    jitter: { kind: 'number', description: 'Spread of each delay as a fraction, 0–1' }
+  }
+};
+const circuitBreaker: FieldSchema = {
+  kind: 'object',
+  description: 'Pause the service after repeated failures',
+  fields: {
+    threshold: { kind: 'integer', description: 'Consecutive failures that open the circuit' },
+    cooldown_sec: { kind: 'number', description: 'Wait before a trial run (default 60)' }
+  }
+};
+const onError: FieldSchema = {
+  kind: 'object',
+  description: 'What happens once retries are spent',
+  fields: {
+    action: { kind: 'enum', values: ['stop', 'skip', 'fallback'], description: 'Default stop' },
+    fallback: { kind: 'serviceRef', description: 'Started when action is fallback' },
+    dead_letter_key: { kind: 'stateKey', description: 'Where failed runs are recorded (default <id>_dead_letter)' }
+  }
+};
+const httpMethod: FieldSchema = { kind: 'enum', values: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] };
+const headers: FieldSchema = { kind: 'record', items: { kind: 'template' } };
+
+const rule: FieldSchema = {
+  kind: 'object',
+  fields: {
+    name: { kind: 'string' },
+    if: { kind: 'expression' },
+    then: { kind: 'record', items: { kind: 'any' } }
+  }
+};
+
+const aggOp: FieldSchema = { kind: 'enum', values: AGG_OPS };
+const columns: FieldSchema = { kind: 'array', items: { kind: 'string' } };
+
+// Field order matches PIPE_OPS, the order the operations of one step run in
+const pipe: FieldSchema = {
+  kind: 'object',
+  fields: {
+    concat: { ...columns, description: 'Append the rows of these named inputs' },
+    union: { ...columns, description: 'Append named inputs, dropping duplicate rows' },
+    join: {
+      kind: 'object',
+      description: 'Merge with a named input on key columns',
+      fields: {
+        with: { kind: 'string', required: true, description: 'Name from spec.inputs' },
+        on: { ...columns, required: true },
+        how: { kind: 'enum', values: JOIN_TYPES, description: 'Default inner' },
+        suffixes: { ...columns, description: 'For clashing columns, left then right (default _x, _y)' }
+      }
+    },
+    select: { kind: 'expression', description: 'Keep rows where the expression is truthy' },
+    dropna: { ...columns, description: 'Drop rows missing any of these columns (empty: any column)' },
+    fillna: { kind: 'record', items: { kind: 'any' }, description: 'Replacement for missing values, per column' },
+    cast: { kind: 'record', items: { kind: 'enum', values: CAST_TYPES }, description: 'Convert columns to a type' },
+    rename: { kind: 'record', items: { kind: 'string' }, description: 'Old column name → new name' },
+    project: { ...columns, description: 'Columns to keep' },
+    derive: { kind: 'record', items: { kind: 'expression' }, description: 'New columns from expressions' },
+    explode: { kind: 'string', description: 'Column holding arrays; one row per element' },
+    melt: {
+      kind: 'object',
+      description: 'Wide to long',
+      fields: {
+        idVars: { ...columns, required: true },
+        valueVars: { ...columns, description: 'Defaults to every other column' },
+        varName: { kind: 'string' },
+        valueName: { kind: 'string' }
+      }
+    },
+    pivot: {
+      kind: 'object',
+      description: 'Long to wide',
+      fields: {
+        index: { ...columns, required: true },
+        columns: { kind: 'string', required: true, description: 'Column whose values become column names' },
+        values: { kind: 'string', required: true },
+        agg: { ...aggOp, description: 'Combines duplicate cells (default first)' }
+      }
+    },
+    groupBy: {
+      kind: 'object',
+      description: 'One row per distinct key',
+      fields: {
+        by: { ...columns, required: true },
+        agg: {
+          kind: 'record',
+          required: true,
+          description: 'Output column → aggregation',
+          items: {
+            kind: 'object',
+            fields: {
+              column: { kind: 'string', description: 'Omit with count to count rows' },
+              op: { ...aggOp, required: true }
+            }
+          }
+        }
+      }
+    },
+    dedupe: { ...columns, description: 'Keep the first row per key (empty: whole row)' },
+    sort: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          key: { kind: 'string', required: true },
+          order: { kind: 'enum', values: ['asc', 'desc'] }
+        }
+      }
+    },
+    offset: { kind: 'integer', description: 'Rows to skip' },
+    limit: { kind: 'integer', description: 'Maximum rows to keep' }
+  }
+};
+
+export const SCHEMAS: Record<string, PrimitiveSchema> = {
+  iterator: {
+    fields: {
+      inputKey: { kind: 'stateKey', required: true },
+      outputKey: { kind: 'stateKey', required: true },
+      historyKey: { kind: 'stateKey' },
+      maxHistory: { kind: 'integer' },
+      per_tick: { kind: 'integer' },
+      resetOnNewData: { kind: 'boolean' },
+      loop: { kind: 'boolean' },
+      schedule,
+      retry,
+      circuit_breaker: circuitBreaker,
+      on_error: onError
+    }
+  },
+  csv_loader: {
+    fields: {
+      source: { kind: 'string', required: true, description: 'URL, data: URI or state key' },
+      outputKey: { kind: 'stateKey', required: true },
+      options: {
+        kind: 'object',
+        fields: {
+          delimiter: { kind: 'string' },
+          header: { kind: 'boolean' },
+          maxRows: { kind: 'integer' }
+        }
+      },
+      schedule,
+      retry,
+      circuit_breaker: circuitBreaker,
+      on_error: onError
+    }
+  },
+  connector: {
+    fields: {
+      url: { kind: 'url', required: true },
+      outputKey: { kind: 'stateKey', required: true },
+      method: httpMethod,
+      rules: { kind: 'object', fields: { rules: { kind: 'array', items: rule } } },
+      cache: { kind: 'any' },
+      headers,
+      body: { kind: 'any' },
+      schedule,
+      retry,
+      circuit_breaker: circuitBreaker,
+      on_error: onError,
+      persistent
+    }
+  },
+  processor: {
+    fields: {
+      inputKey: { kind: 'stateKey', required: true },
+      inputs: { kind: 'record', items: { kind: 'stateKey' }, description: 'Named tables for join, concat and union' },
+      outputKey: { kind: 'stateKey', required: true },
+      transform: { kind: 'array', items: rule },
+      pipes: { kind: 'array', items: pipe },
+      schedule,
+      retry,
+      circuit_breaker: circuitBreaker,
+      on_error: onError,
+      persistent
+    }
+  },
+  monitor: {
+    fields: {
+      checks: {
+        kind: 'array',
+        required: true,
+        items: {
+          kind: 'object',
+          fields: {
+            name: { kind: 'string', required: true },
+            dataKey: { kind: 'stateKey', required: true },
+            expression: { kind: 'expression', required: true }
+          }
+        }
+      },
+      thresholds: {
+        kind: 'record',
+        items: { kind: 'object', fields: { above: { kind: 'number' }, below: { kind: 'number' } } }
+      },
+      emit: { kind: 'enum', values: ['onChange', 'always', 'onTrue'] },
+      oneShot: { kind: 'boolean' },
+      schedule,
+      retry,
+      circuit_breaker: circuitBreaker,
+      on_error: onError,
+      persistent
+    }
+  },
+  adapter: {
+    fields: {
+      kind: { kind: 'string', required: true },
+      url: { kind: 'url' },
+      method: httpMethod,
+      headers,
+      body: { kind: 'any' },
+      idempotency_key: { kind: 'template' },
+      hold: { kind: 'boolean' },
+      schedule,
+      retry,
+      circuit_breaker: circuitBreaker,
+      on_error: onError,
+      persistent
+    }
+  },
+  aggregator: {
+    fields: {
+      inputKey: { kind: 'stateKey', required: true },
+      window: { kind: 'object', required: true, fields: { size_sec: { kind: 'number' } } },
+      outputKey: { kind: 'stateKey' },
+      reduce: { kind: 'object', fields: { emit: { kind: 'enum', values: ['latest', 'count', 'all'] } } },
+      groupBy: { kind: 'string' },
+      schedule,
+      retry,
+      circuit_breaker: circuitBreaker,
+      on_error: onError,
+      persistent
+    }
+  },
+  router: {
+    fields: {
+      routes: {
+        kind: 'array',
+        required: true,
+        items: {
+          kind: 'object',
+          fields: {
+            condition: { kind: 'expression', required: true },
+            target: { kind: 'serviceRef', required: true }
+          }
+        }
+      },
+      fallback: { kind: 'serviceRef' },
+      shard_key: { kind: 'template' },
+      shards: { kind: 'integer' },
+      schedule,
+      retry,
+      circuit_breaker: circuitBreaker,
+      on_error: onError,
+      persistent
+    }
+  },
+  composite: {
+    fields: {
+      inputs: { kind: 'record', items: { kind: 'stateKey' }, description: 'Inner key → outer state key it reads' },
+      outputs: { kind: 'record', items: { kind: 'stateKey' }, description: 'Inner key → outer state key it writes' },
+      services: { kind: 'record', required: true, items: { kind: 'object' }, description: 'The embedded services, by inner id' },
+      state: { kind: 'record', items: { kind: 'any' }, description: 'Initial inner state' }
+    }
+  },
+  vault: {
+    fields: {
+      provider: { kind: 'string', required: true },
+      secrets: { kind: 'array', items: { kind: 'string' } },
+      rotation_policy: {
+        kind: 'object',
+        fields: { auto_rotate: { kind: 'boolean' }, rotation_days: { kind: 'number' } }
+      },
+      schedule,
+      retry,
+      circuit_breaker: circuitBreaker,
+      on_error: onError,
+      persistent
+    }
+  }
+};
+
+export function requiredFields(type: string): string[] {
+  return Object.entries(SCHEMAS[type]?.fields || {})
+    .filter(([, field]) => field.required)
+    .map(([key]) => key);
+}
+
+/** Runtime guard used by the engine before each handler run. */
+export function validateSpec(type: string, spec: Record<string, any>): void {
+  const schema = SCHEMAS[type];
+  if (!schema) {
+    throw new Error(`Unknown service type: ${type}`);
+  }
+
+  for (const field of requiredFields(type)) {
+    if (!(field in spec)) {
+      throw new Error(`Missing required field: ${field}`);
+    }
+  }
+}
+
+// ============================================================================
+// DOCUMENT VALIDATOR
+// ============================================================================
+
+export type PathSegment = string | number;
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  path: string;
+  segments: PathSegment[];
+  message: string;
+  /** Owning service, when the issue sits under `services.<id>` */
+  serviceId?: string;
+}
+
+export function formatPath(segments: PathSegment[]): string {
+  return segments.reduce<string>((acc, seg) => {
+    if (typeof seg === 'number') return `${acc}[${seg}]`;
+    return acc ? `${acc}.${seg}` : seg;
+  }, '') || '$';
+}
+
+const SERVICE_FIELDS: Record<string, FieldSchema> = {
+  id: { kind: 'string' },
+  type: { kind: 'string', required: true },
+  title: { kind: 'string' },
+  spec: { kind: 'object', required: true },
+  status: { kind: 'enum', values: ['running', 'stopped', 'error'] },
+  lastRun: { kind: 'any' },
+  waiting: { kind: 'boolean' },
+  nextRun: { kind: 'any' },
+  lastInputs: { kind: 'string' },
+  failures: { kind: 'integer' },
+  lastError: { kind: 'string' },
+  retryAt: { kind: 'any' },
+  circuitOpen: { kind: 'boolean' },
+  position: {
+    kind: 'object',
+    fields: { x: { kind: 'number', required: true }, y: { kind: 'number', required: true } }
+  }
+};
+
+const TEST_EXPECTATION: FieldSchema = {
+  kind: 'object',
+  fields: {
+    key: { kind: 'stateKey' },
+    equals: { kind: 'any' },
+    rows: { kind: 'integer' },
+    every: { kind: 'expression' },
+    event: { kind: 'string' },
+    for: { kind: 'string' },
+    count: { kind: 'integer' }
+  }
+};
+
+const TEST_CASE: FieldSchema = {
+  kind: 'object',
+  fields: {
+    name: { kind: 'string', required: true },
+    description: { kind: 'string' },
+    state: { kind: 'record', items: { kind: 'any' } },
+    services: { kind: 'array', items: { kind: 'serviceRef' } },
+    ticks: { kind: 'integer' },
+    stubs: { kind: 'record', items: { kind: 'any' } },
+    expect: { kind: 'array', required: true, items: TEST_EXPECTATION }
+  }
+};
+
+const DOCUMENT_FIELDS: Record<string, FieldSchema> = {
+  spc_version: { kind: 'string', required: true },
+  meta: { kind: 'record', items: { kind: 'any' } },
+  services: { kind: 'record', required: true, items: { kind: 'object' } },
+  state: { kind: 'record', required: true, items: { kind: 'any' } },
+  tests: { kind: 'array', items: TEST_CASE }
+};
+
+const STRING_KINDS: FieldKind[] = ['string', 'url', 'expression', 'template', 'stateKey', 'serviceRef', 'enum', 'cron'];
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+interface WalkContext {
+  issues: ValidationIssue[];
+  serviceIds: Set<string>;
+  serviceId?: string;
+}
+
+function report(ctx: WalkContext, severity: ValidationIssue['severity'], segments: PathSegment[], message: string) {
+  ctx.issues.push({ severity, path: formatPath(segments), segments, message, serviceId: ctx.serviceId });
+}
+
+function checkFields(
+  value: Record<string, any>,
+  fields: Record<string, FieldSchema>,
+  segments: PathSegment[],
+  ctx: WalkContext,
+  unknownSeverity: ValidationIssue['severity'] = 'error'
+) {
+  for (const [key, field] of Object.entries(fields)) {
+    if (field.required && !(key in value)) {
+      report(ctx, 'error', [...segments, key], `Missing required field "${key}"`);
+    }
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const field = fields[key];
+    if (!field) {
+      report(ctx, unknownSeverity, [...segments, key], `Unknown key "${key}"`);
+      continue;
+    }
+    checkValue(child, field, [...segments, key], ctx);
+  }
+}
+
+function checkValue(value: any, field: FieldSchema, segments: PathSegment[], ctx: WalkContext) {
+  const actual = typeOf(value);
+
+  if (field.kind === 'any') return;
+
+  if (STRING_KINDS.includes(field.kind)) {
+    if (actual !== 'string') {
+      report(ctx, 'error', segments, `Expected ${field.kind}, got ${actual}`);
+      return;
+    }
+    if (value.trim() === '') {
+      if (field.required) report(ctx, 'warning', segments, 'Required field is empty');
+      return;
+    }
+    if (field.kind === 'enum' && field.values && !field.values.includes(value)) {
+      report(ctx, 'error', segments, `Expected one of ${field.values.join(' | ')}, got "${value}"`);
+    }
+    if (field.kind === 'url' && !/^(https?:\/\/|\{\{)/.test(value)) {
+      report(ctx, 'warning', segments, `"${value}" does not look like an http(s) URL`);
+    }
+    if (field.kind === 'serviceRef' && !ctx.serviceIds.has(value)) {
+      report(ctx, 'error', segments, `References unknown service "${value}"`);
+    }
+    if (field.kind === 'cron') {
+      try {
+        parseCron(value);
+      } catch (error: any) {
+        report(ctx, 'error', segments, error?.message ?? String(error));
+      }
+    }
+    const syntax = field.kind === 'expression' ? checkExpression(value)
+      : field.kind === 'template' || field.kind === 'url' ? checkTemplate(value)
+      : null;
+    if (syntax) report(ctx, 'error', segments, describeExpressionError(syntax));
+    return;
+  }
+
+  switch (field.kind) {
+    case 'number':
+    case 'integer':
+      if (actual !== 'number' || Number.isNaN(value)) {
+        report(ctx, 'error', segments, `Expected ${field.kind}, got ${actual}`);
+      } else if (field.kind === 'integer' && !Number.isInteger(value)) {
+        report(ctx, 'error', segments, `Expected integer, got ${value}`);
+      }
+      return;
+
+    case 'boolean':
+      if (actual !== 'boolean') report(ctx, 'error', segments, `Expected boolean, got ${actual}`);
+      return;
+
+    case 'array':
+      if (actual !== 'array') {
+        report(ctx, 'error', segments, `Expected array, got ${actual}`);
+        return;
+      }
+      if (field.items) {
+        value.forEach((item: any, idx: number) => checkValue(item, field.items!, [...segments, idx], ctx));
+      }
+      return;
+
+    case 'record':
+    case 'object':
+      if (actual !== 'object') {
+        report(ctx, 'error', segments, `Expected object, got ${actual}`);
+        return;
+      }
+      if (field.kind === 'object' && field.fields) {
+        checkFields(value, field.fields, segments, ctx);
+      } else if (field.kind === 'record' && field.items) {
+        for (const [key, child] of Object.entries(value)) {
+          checkValue(child, field.items, [...segments, key], ctx);
+        }
+      }
+      return;
+  }
+}
+
+function checkOnError(id: string, spec: Record<string, any>, base: PathSegment[], ctx: WalkContext) {
+  const onError = spec.on_error;
+  if (typeOf(onError) !== 'object') return;
+  if (onError.action === 'fallback' && !onError.fallback) {
+    report(ctx, 'error', [...base, 'on_error', 'fallback'], 'on_error action "fallback" needs a fallback service');
+  } else if (onError.fallback === id) {
+    report(ctx, 'error', [...base, 'on_error', 'fallback'], 'A service cannot fall back to itself');
+  } else if (onError.fallback && onError.action !== 'fallback') {
+    report(ctx, 'warning', [...base, 'on_error', 'fallback'], `Only used when action is "fallback"`);
+  }
+}
+
+/** join / concat / union name processor inputs, not state keys. */
+function checkPipeInputs(pipes: any[], inputs: Record<string, unknown>, base: PathSegment[], ctx: WalkContext) {
+  pipes.forEach((pipe, idx) => {
+    if (!pipe || typeof pipe !== 'object') return;
+    const refs: [PathSegment[], unknown][] = [[['join', 'with'], pipe.join?.with]];
+    for (const op of ['concat', 'union']) {
+      if (Array.isArray(pipe[op])) pipe[op].forEach((name: unknown, i: number) => refs.push([[op, i], name]));
+    }
+    for (const [rel, name] of refs) {
+      if (typeof name !== 'string' || !name || Object.prototype.hasOwnProperty.call(inputs, name)) continue;
+      report(ctx, 'error', [...base, idx, ...rel], `Unknown input "${name}"; declare it under spec.inputs`);
+    }
+  });
+}
+
+function checkDataflow(doc: SPC, ctx: WalkContext) {
+  const available = new Set(availableKeys(doc));
+
+  for (const [id, service] of Object.entries(doc.services)) {
+    const spec = service?.spec;
+    if (!spec || typeof spec !== 'object') continue;
+    ctx.serviceId = id;
+
+    const consumers: [PathSegment[], unknown][] = [[['inputKey'], spec.inputKey]];
+    if (service.type === 'monitor' && Array.isArray(spec.checks)) {
+      spec.checks.forEach((check: any, idx: number) => consumers.push([['checks', idx, 'dataKey'], check?.dataKey]));
+    }
+
+    if (service.type === 'processor' || service.type === 'composite') {
+      const inputs = spec.inputs && typeof spec.inputs === 'object' ? spec.inputs : {};
+      for (const [name, key] of Object.entries(inputs)) consumers.push([['inputs', name], key]);
+      if (Array.isArray(spec.pipes)) checkPipeInputs(spec.pipes, inputs, ['services', id, 'spec', 'pipes'], ctx);
+    }
+
+    for (const [rel, key] of consumers) {
+      if (typeof key !== 'string' || !key || available.has(key)) continue;
+      report(ctx, 'warning', ['services', id, 'spec', ...rel], `No service produces state key "${key}"`);
+    }
+  }
+
+  // A tick runs producers first; services that feed each other in a loop have no such order
+  for (const cycle of planExecution(doc.services).cycles) {
+    for (const id of cycle) {
+      ctx.serviceId = id;
+      report(ctx, 'error', ['services', id], `Dependency cycle between ${cycle.join(', ')}; services on a cycle run in document order`);
+    }
+  }
+  ctx.serviceId = undefined;
+}
+
+/** Inner services are checked as a document of their own; their issues belong to the composite. */
+function checkComposite(service: any, base: PathSegment[], ctx: WalkContext) {
+  const inner = compositeDoc(service);
+  for (const issue of validateSPC(inner)) {
+    if (issue.segments.length < 2 || issue.segments[0] !== 'services') continue;
+    report(ctx, issue.severity, [...base, ...issue.segments], issue.message);
+  }
+  const produced = new Set<string>(Object.keys(service.spec.state || {}));
+  for (const [id, child] of Object.entries<any>(inner.services)) {
+    if (child && typeof child === 'object') producedKeys(id, child).forEach(key => produced.add(key));
+  }
+  for (const name of Object.keys(service.spec.outputs || {})) {
+    if (!produced.has(name)) report(ctx, 'error', [...base, 'outputs', name], `No inner service produces "${name}"`);
+  }
+}
+
+/**
+ * Validates a whole SPC document and returns every problem found, each with
+ * the JSON path it applies to. Warnings describe documents that still run.
+ */
+export function validateSPC(doc: unknown): ValidationIssue[] {
+  const ctx: WalkContext = { issues: [], serviceIds: new Set() };
+
+  if (typeOf(doc) !== 'object') {
+    report(ctx, 'error', [], `Expected an SPC object, got ${typeOf(doc)}`);
+    return ctx.issues;
+  }
+
+  const spc = doc as SPC;
+  if (typeOf(spc.services) === 'object') {
+    Object.keys(spc.services).forEach(id => ctx.serviceIds.add(id));
+  }
+
+  checkFields(spc as any, DOCUMENT_FIELDS, [], ctx, 'warning');
+  const tickMs = typeOf(spc.meta) === 'object' ? spc.meta.tick_interval_ms : undefined;
+  if (tickMs !== undefined && !(Number.isInteger(tickMs) && tickMs > 0)) {
+    report(ctx, 'warning', ['meta', 'tick_interval_ms'], `Expected a positive whole number of milliseconds, got ${JSON.stringify(tickMs)}; ticks every ${DEFAULT_TICK_MS} ms`);
+  }
+  if (typeOf(spc.services) !== 'object') return ctx.issues;
+
+  for (const [id, service] of Object.entries(spc.services)) {
+    const base: PathSegment[] = ['services', id];
+    ctx.serviceId = id;
+    if (typeOf(service) !== 'object') continue;
+
+    checkFields(service, SERVICE_FIELDS, base, ctx, 'warning');
+    if (service.id !== undefined && service.id !== id) {
+      report(ctx, 'warning', [...base, 'id'], `Service id "${service.id}" does not match its key "${id}"`);
+    }
+
+    const schema = SCHEMAS[service.type];
+    if (typeof service.type === 'string' && !schema) {
+      report(ctx, 'error', [...base, 'type'], `Unknown service type "${service.type}"`);
+    }
+    if (schema && typeOf(service.spec) === 'object') {
+      checkFields(service.spec, schema.fields, [...base, 'spec'], ctx);
+      checkOnError(id, service.spec, [...base, 'spec'], ctx);
+    }
+    if (service.type === 'composite' && typeOf(service.spec?.services) === 'object') {
+      checkComposite(service, [...base, 'spec'], ctx);
+    }
+  }
+  ctx.serviceId = undefined;
+
+  checkDataflow(spc, ctx);
+  return ctx.issues;
+}
+
+export function hasErrors(issues: ValidationIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
+
+export function issuesByService(issues: ValidationIssue[]): Record<string, ValidationIssue[]> {
+  const grouped: Record<string, ValidationIssue[]> = {};
+  for (const issue of issues) {
+    if (!issue.serviceId) continue;
+    (grouped[issue.serviceId] ||= []).push(issue);
+  }
+  return grouped;
+}
+
+/**
+ * Issues for the services inside the composite at `path` (ids from the top
+ * level down), re-rooted so `serviceId` and `segments` read as if that
+ * composite's services were the whole document.
+ */
+export function issuesInScope(issues: ValidationIssue[], path: string[]): ValidationIssue[] {
+  const prefix = path.flatMap(id => ['services', id, 'spec']);
+  return issues.flatMap(issue => {
+    const within = prefix.every((seg, i) => issue.segments[i] === seg);
+    if (!within || issue.segments[prefix.length] !== 'services' || issue.segments.length < prefix.length + 2) return [];
+    const segments = issue.segments.slice(prefix.length);
+    return [{ ...issue, segments, path: formatPath(segments), serviceId: String(segments[1]) }];
+  });
+}
+
+/** Human-readable, one issue per line; used for import refusals and logs. */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map(issue => `${issue.severity === 'error' ? '✗' : '⚠'} ${issue.path}: ${issue.message}`)
+    .join('\n');
+}
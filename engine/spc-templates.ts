@@ -0,0 +1,293 @@
+import { parseSPC, stringifySPC } from './spc-format';
+import type { SpcFormat } from './spc-format';
+import { remapServices } from './spc-rename';
+import { SCHEMAS } from './spc-schema';
+import type { Position, Service, SPC, State } from './types';
+
+// ============================================================================
+// PIPELINE TEMPLATES
+// ============================================================================
+//
+// A template is a fragment of an SPC: a few pre-wired services, optional
+// initial state, and parameters. `${name}` anywhere in a string is replaced by
+// the parameter's value; a string that is nothing but `${name}` takes the value
+// as is, so numbers stay numbers. On insertion every service id and every
+// state key the fragment produces gets a prefix, so a template can be added
+// twice, or next to services with the same names, without crosstalk.
+
+export type TemplateParamKind = 'string' | 'number' | 'url' | 'stateKey' | 'expression';
+
+export interface TemplateParam {
+  name: string;
+  label?: string;
+  kind: TemplateParamKind;
+  default?: string | number;
+  description?: string;
+}
+
+export interface SpcTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  params: TemplateParam[];
+  /** Keyed by local id; positions are relative to the insertion point */
+  services: Record<string, Service>;
+  state?: State;
+}
+
+export type TemplateValues = Record<string, string | number>;
+
+export interface TemplatePack {
+  edt_templates: string;
+  templates: SpcTemplate[];
+}
+
+export interface TemplateInstance {
+  services: Record<string, Service>;
+  state: State;
+  /** Local id → inserted id */
+  ids: Record<string, string>;
+  prefix: string;
+}
+
+const PACK_VERSION = '1.0';
+const PLACEHOLDER = /\$\{([A-Za-z_][\w]*)\}/g;
+const WHOLE_PLACEHOLDER = /^\$\{([A-Za-z_][\w]*)\}$/;
+
+// ----------------------------------------------------------------------------
+// Built-in templates
+// ----------------------------------------------------------------------------
+
+export const BUILTIN_TEMPLATES: SpcTemplate[] = [
+  {
+    id: 'api_monitor',
+    name: 'API Monitor',
+    icon: '📋',
+    description: 'Polls a health endpoint, checks latency and posts an alert when it goes critical',
+    params: [
+      { name: 'url', label: 'Health URL', kind: 'url', default: 'https://api.example.com/health' },
+      { name: 'max_latency_ms', label: 'Max latency (ms)', kind: 'number', default: 500 },
+      { name: 'webhook', label: 'Alert webhook', kind: 'url', default: 'https://hooks.example.com/alerts' }
+    ],
+    services: {
+      health: {
+        type: 'connector',
+        title: 'Health Check',
+        spec: { url: '${url}', outputKey: 'health' },
+        position: { x: 0, y: 0 }
+      },
+      latency: {
+        type: 'monitor',
+        title: 'Latency Monitor',
+        spec: {
+          checks: [{ name: 'latency_ms', dataKey: 'health', expression: 'data.latency_ms' }],
+          thresholds: { latency_ms: { above: '${max_latency_ms}' } },
+          emit: 'onTrue'
+        },
+        position: { x: 250, y: 0 }
+      },
+      alert: {
+        type: 'adapter',
+        title: 'Alert',
+        spec: {
+          kind: 'webhook',
+          url: '${webhook}',
+          body: { text: 'Latency {{ state.latency_monitoring.latency_ms.value }} ms on ${url}' }
+        },
+        position: { x: 500, y: 0 }
+      }
+    }
+  },
+  {
+    id: 'etl_pipeline',
+    name: 'ETL Pipeline',
+    icon: '🔄',
+    description: 'Extracts records from an API, filters and reshapes them, and loads the result into a webhook',
+    params: [
+      { name: 'source_url', label: 'Source URL', kind: 'url', default: 'https://api.example.com/records' },
+      { name: 'filter', label: 'Keep rows where', kind: 'expression', default: 'row.active == true' },
+      { name: 'destination_url', label: 'Destination URL', kind: 'url', default: 'https://hooks.example.com/load' }
+    ],
+    services: {
+      extract: {
+        type: 'connector',
+        title: 'Extract',
+        spec: { url: '${source_url}', outputKey: 'raw' },
+        position: { x: 0, y: 0 }
+      },
+      transform: {
+        type: 'processor',
+        title: 'Transform',
+        spec: { inputKey: 'raw', outputKey: 'clean', pipes: [{ select: '${filter}' }, { dedupe: [] }] },
+        position: { x: 250, y: 0 }
+      },
+      load: {
+        type: 'adapter',
+        title: 'Load',
+        spec: { kind: 'webhook', url: '${destination_url}', body: { rows: '{{ state.clean }}' } },
+        position: { x: 500, y: 0 }
+      }
+    }
+  }
+];
+
+// ----------------------------------------------------------------------------
+// Instantiation
+// ----------------------------------------------------------------------------
+
+/** Parameter defaults, for a fresh parameter form */
+export function templateDefaults(template: SpcTemplate): TemplateValues {
+  return Object.fromEntries(template.params.map(param => [param.name, param.default ?? '']));
+}
+
+/** Parameter names used as `${name}` in the template but never declared */
+export function undeclaredParams(template: SpcTemplate): string[] {
+  const declared = new Set(template.params.map(param => param.name));
+  const used = new Set<string>();
+  const visit = (value: any) => {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(PLACEHOLDER)) used.add(match[1]);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(template.services);
+  visit(template.state);
+  return [...used].filter(name => !declared.has(name));
+}
+
+function substitute(value: any, values: TemplateValues): any {
+  if (typeof value === 'string') {
+    const whole = WHOLE_PLACEHOLDER.exec(value);
+    if (whole && whole[1] in values) return values[whole[1]];
+    return value.replace(PLACEHOLDER, (match, name) => (name in values ? String(values[name]) : match));
+  }
+  if (Array.isArray(value)) return value.map(item => substitute(item, values));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substitute(v, values)]));
+  }
+  return value;
+}
+
+function slug(text: string): string {
+  return text.trim().toLowerCase().replace(/\W+/g, '_').replace(/^_+|_+$/g, '') || 'template';
+}
+
+/**
+ * Builds the services and state for inserting `template` into `doc`. Ids and
+ * produced keys are prefixed with the template id, numbered (`etl_pipeline_2`)
+ * when that would collide with anything already in `doc`.
+ */
+export function instantiateTemplate(
+  template: SpcTemplate,
+  values: TemplateValues,
+  doc: Pick<SPC, 'services' | 'state'>,
+  origin: Position = { x: 100, y: 100 }
+): TemplateInstance {
+  const given: TemplateValues = { ...templateDefaults(template), ...values };
+  for (const param of template.params) {
+    if (param.kind === 'number' && given[param.name] !== '' && !Number.isNaN(Number(given[param.name]))) {
+      given[param.name] = Number(given[param.name]);
+    }
+  }
+  const filled = substitute({ services: template.services, state: template.state || {} }, given);
+  const services: Record<string, Service> = filled.services;
+  const initial: State = filled.state;
+
+  const base = slug(template.id);
+  const prefixFor = (attempt: number) => (attempt < 2 ? base : `${base}_${attempt}`);
+  const copy = remapServices(services, initial, doc, (name, attempt) => `${prefixFor(attempt)}_${name}`, 1);
+
+  const inserted: Record<string, Service> = {};
+  for (const [localId, id] of Object.entries(copy.ids)) {
+    const position = services[localId].position || { x: 0, y: 0 };
+    inserted[id] = {
+      ...copy.services[id],
+      status: 'stopped',
+      position: { x: origin.x + position.x, y: origin.y + position.y }
+    };
+  }
+
+  return { services: inserted, state: copy.state, ids: copy.ids, prefix: prefixFor(copy.attempt) };
+}
+
+// ----------------------------------------------------------------------------
+// Saving and sharing
+// ----------------------------------------------------------------------------
+
+/**
+ * A parameterless template from some of `doc`'s services. Ids are kept as
+ * local ids; positions become relative to the top-left service.
+ */
+export function templateFromServices(
+  doc: Pick<SPC, 'services'>,
+  ids: string[],
+  info: { name: string; description?: string }
+): SpcTemplate {
+  const chosen = ids.filter(id => doc.services[id]);
+  if (chosen.length === 0) throw new Error('Select at least one service to save as a template');
+
+  const positions = chosen.map(id => doc.services[id].position || { x: 0, y: 0 });
+  const minX = Math.min(...positions.map(p => p.x));
+  const minY = Math.min(...positions.map(p => p.y));
+
+  const services: Record<string, Service> = {};
+  chosen.forEach((id, i) => {
+    const { type, title, spec } = doc.services[id];
+    services[id] = {
+      type,
+      ...(title ? { title } : {}),
+      spec: JSON.parse(JSON.stringify(spec || {})),
+      position: { x: positions[i].x - minX, y: positions[i].y - minY }
+    };
+  });
+
+  return {
+    id: `${slug(info.name)}_${Date.now().toString(36)}`,
+    name: info.name.trim() || 'Untitled template',
+    ...(info.description ? { description: info.description } : {}),
+    params: [],
+    services
+  };
+}
+
+/** `ETL Starters` -> `etl-starters.templates.yaml` */
+export function templatePackFilename(name: string, format: SpcFormat): string {
+  const base = (name || 'templates').trim().replace(/\s+/g, '-').toLowerCase();
+  return `${base}.templates.${format}`;
+}
+
+export function stringifyTemplatePack(templates: SpcTemplate[], format: SpcFormat): string {
+  const pack: TemplatePack = { edt_templates: PACK_VERSION, templates };
+  return stringifySPC(pack, format);
+}
+
+function checkTemplate(template: any, idx: number): SpcTemplate {
+  const where = `Template ${idx + 1}${typeof template?.name === 'string' ? ` (${template.name})` : ''}`;
+  if (!template || typeof template !== 'object') throw new Error(`${where} is not an object`);
+  if (typeof template.id !== 'string' || !template.id) throw new Error(`${where} has no id`);
+  if (typeof template.name !== 'string' || !template.name) throw new Error(`${where} has no name`);
+  if (!template.services || typeof template.services !== 'object' || Array.isArray(template.services)) {
+    throw new Error(`${where} has no services`);
+  }
+  for (const [id, service] of Object.entries<any>(template.services)) {
+    if (!SCHEMAS[service?.type]) throw new Error(`${where}: service "${id}" has unknown type "${service?.type}"`);
+  }
+  const params = template.params ?? [];
+  if (!Array.isArray(params) || params.some((p: any) => typeof p?.name !== 'string')) {
+    throw new Error(`${where}: params must be a list of { name, kind }`);
+  }
+  const undeclared = undeclaredParams({ ...template, params });
+  if (undeclared.length > 0) throw new Error(`${where} uses undeclared parameter(s): ${undeclared.join(', ')}`);
+  return { ...template, params: params.map((p: any) => ({ kind: 'string', ...p })) };
+}
+
+/** Parses and checks a template pack file. Throws `SpcParseError` on bad syntax, `Error` on bad content. */
+export function parseTemplatePack(text: string, format: SpcFormat): SpcTemplate[] {
+  const pack = parseSPC(text, format) as any;
+  if (!pack || typeof pack !== 'object' || !Array.isArray(pack.templates)) {
+    throw new Error('Not a template pack: expected an "edt_templates" document with a "templates" list');
+  }
+  return pack.templates.map(checkTemplate);
+}
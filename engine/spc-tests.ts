@@ -0,0 +1,153 @@
+import { EDTEngine } from './edt-engine';
+import { evalExpression } from './expressions';
+import { PRIMITIVE_HANDLERS } from './primitives';
+import { diffValues } from './spc-diff';
+import type { FieldChange } from './spc-diff';
+import { formatPath } from './spc-schema';
+import type { EngineEvent, PrimitiveHandler, SpcTest, SPC, State, TestExpectation } from './types';
+
+// ============================================================================
+// DECLARATIVE TESTS
+// ============================================================================
+//
+// An SPC may carry `tests`: each case seeds state, runs some services for a
+// few ticks on a private engine and checks the resulting state and events.
+// Nothing reaches the network. Every handler's `fetch` answers from the
+// case's `stubs` by service id and fails for a service without one; a
+// csv_loader reading a URL gets its stub as the CSV text. The runner has no
+// DOM or studio dependency, so scripts and CI call `runTests` directly.
+
+export interface AssertionResult {
+  label: string;
+  passed: boolean;
+  message?: string;
+  /** Expected (`before`) against actual (`after`) for `equals` checks */
+  changes?: FieldChange[];
+}
+
+export interface TestResult {
+  name: string;
+  passed: boolean;
+  assertions: AssertionResult[];
+  /** State and events after the last tick */
+  state: State;
+  events: EngineEvent[];
+}
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+function stubbedHandler(handler: PrimitiveHandler, stubs: Record<string, any>): PrimitiveHandler {
+  return {
+    type: handler.type,
+    run(id, spec, ctx) {
+      const recorded = (url: string) => {
+        if (!(id in stubs)) throw new Error(`No recorded response for ${id} (${url})`);
+        return clone(stubs[id]);
+      };
+      const fetch = async (url: string) => recorded(url);
+      const fetchText = async (url: string) => {
+        const stub = recorded(url);
+        return typeof stub === 'string' ? stub : JSON.stringify(stub);
+      };
+      return handler.run(id, spec, { ...ctx, fetch, fetchText });
+    }
+  };
+}
+
+function check(expectation: TestExpectation, state: State, events: EngineEvent[]): AssertionResult {
+  const { key } = expectation;
+  const actual = key === undefined ? undefined : state[key];
+
+  if (expectation.event !== undefined) {
+    const matching = events.filter(evt => evt.name === expectation.event && (expectation.for === undefined || evt.for === expectation.for));
+    const label = `${expectation.event}${expectation.for ? ` for ${expectation.for}` : ''} emitted ${expectation.count ?? 'at least once'}${expectation.count !== undefined ? ' time(s)' : ''}`;
+    const passed = expectation.count === undefined ? matching.length > 0 : matching.length === expectation.count;
+    return { label, passed, ...(passed ? {} : { message: `emitted ${matching.length} time(s)` }) };
+  }
+  if (key === undefined) {
+    return { label: 'expectation', passed: false, message: 'Needs a `key` or an `event`' };
+  }
+
+  if ('equals' in expectation) {
+    const changes = diffValues(expectation.equals, actual);
+    return { label: `state.${key} equals expected`, passed: changes.length === 0, ...(changes.length ? { changes } : {}) };
+  }
+  if (expectation.rows !== undefined) {
+    const count = Array.isArray(actual) ? actual.length : null;
+    const passed = count === expectation.rows;
+    return {
+      label: `state.${key} has ${expectation.rows} row(s)`,
+      passed,
+      ...(passed ? {} : { message: count === null ? `not an array (${actual === undefined ? 'missing' : typeof actual})` : `has ${count} row(s)` })
+    };
+  }
+  if (expectation.every !== undefined) {
+    const label = `every row of state.${key}: ${expectation.every}`;
+    if (!Array.isArray(actual)) return { label, passed: false, message: `not an array (${actual === undefined ? 'missing' : typeof actual})` };
+    const failing = actual
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => !evalExpression(expectation.every!, { row, state, env: { log: () => {} } }));
+    return {
+      label,
+      passed: failing.length === 0,
+      ...(failing.length ? { message: `fails for row(s) ${failing.slice(0, 5).map(f => `[${f.index}] ${JSON.stringify(f.row)}`).join(', ')}${failing.length > 5 ? ', …' : ''}` } : {})
+    };
+  }
+  return { label: `state.${key}`, passed: false, message: 'Needs `equals`, `rows` or `every`' };
+}
+
+/** Runs one case on a fresh engine; `spc` itself is left untouched */
+export async function runTestCase(spc: SPC, test: SpcTest): Promise<TestResult> {
+  const { tests: _tests, ...rest } = spc;
+  const doc: SPC = clone(rest);
+  doc.state = { ...doc.state, ...clone(test.state || {}) };
+  if (test.services) {
+    for (const [id, service] of Object.entries(doc.services)) {
+      service.status = test.services.includes(id) ? 'running' : 'stopped';
+    }
+  }
+
+  const engine = new EDTEngine();
+  for (const handler of PRIMITIVE_HANDLERS) engine.register(stubbedHandler(handler, test.stubs || {}));
+  engine.load(doc);
+
+  const initialErrors = new Set(Object.keys(doc.state).filter(key => key.endsWith('_error')));
+  const events: EngineEvent[] = [];
+  for (let i = 0; i < (test.ticks ?? 1); i++) events.push(...await engine.tick());
+  const state = engine.spc!.state;
+
+  // A service that failed fails the case, whatever the expectations say
+  const failures: AssertionResult[] = Object.keys(state)
+    .filter(key => key.endsWith('_error') && !initialErrors.has(key))
+    .map(key => ({ label: `${key.slice(0, -'_error'.length)} ran without error`, passed: false, message: String(state[key]) }));
+
+  const assertions = [...failures, ...(test.expect || []).map(expectation => check(expectation, state, events))];
+  return { name: test.name, passed: assertions.every(a => a.passed), assertions, state, events };
+}
+
+/** Runs every case in `spc.tests`, or those named in `only`, one after another */
+export async function runTests(spc: SPC, only?: string[]): Promise<TestResult[]> {
+  const results: TestResult[] = [];
+  for (const test of spc.tests || []) {
+    if (only && !only.includes(test.name)) continue;
+    results.push(await runTestCase(spc, test));
+  }
+  return results;
+}
+
+/** Plain-text report for terminals and CI logs */
+export function formatTestResults(results: TestResult[]): string {
+  const lines: string[] = [];
+  for (const result of results) {
+    lines.push(`${result.passed ? '✓' : '✗'} ${result.name}`);
+    for (const assertion of result.assertions.filter(a => !a.passed)) {
+      lines.push(`    ✗ ${assertion.label}${assertion.message ? `: ${assertion.message}` : ''}`);
+      for (const change of assertion.changes || []) {
+        lines.push(`        ${formatPath(change.path)}: expected ${JSON.stringify(change.before)}, got ${JSON.stringify(change.after)}`);
+      }
+    }
+  }
+  const failed = results.filter(result => !result.passed).length;
+  lines.push(`${results.length - failed} passed, ${failed} failed`);
+  return lines.join('\n');
+}
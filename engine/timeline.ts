@@ -0,0 +1,74 @@
+import { mergeRuntime } from './composite';
+import { diffValues } from './spc-diff';
+import type { FieldChange } from './spc-diff';
+import type { EngineEvent, ServiceStatus, SPC, TickSnapshot } from './types';
+
+// ============================================================================
+// TIMELINE
+// ============================================================================
+//
+// The engine keeps a snapshot of the document after every tick (see
+// `EDTEngine.history`). These helpers lay a snapshot over the editor's
+// document and line up a re-run against the run it replaced.
+
+export interface StatusChange {
+  id: string;
+  from: ServiceStatus | undefined;
+  to: ServiceStatus | undefined;
+}
+
+export interface TickComparison {
+  tick: number;
+  /** Original run (`before`) against the re-run (`after`) */
+  state: FieldChange[];
+  statuses: StatusChange[];
+  /** Events of either run that the other did not emit */
+  events: { missing: EngineEvent[]; extra: EngineEvent[] };
+  same: boolean;
+}
+
+/**
+ * `doc` with the statuses, last runs and state of `ran`, an engine document
+ * (flattened) from a tick report or snapshot. Specs stay as in `doc`.
+ */
+export function withRuntime(doc: SPC, ran: SPC): SPC {
+  return { ...doc, services: mergeRuntime(doc.services, ran.services), state: ran.state };
+}
+
+function eventKey(evt: EngineEvent): string {
+  return JSON.stringify([evt.name, evt.for, evt.data]);
+}
+
+/** Events in `a` without a counterpart in `b`, counting repeats */
+function unmatched(a: EngineEvent[], b: EngineEvent[]): EngineEvent[] {
+  const remaining = new Map<string, number>();
+  for (const evt of b) remaining.set(eventKey(evt), (remaining.get(eventKey(evt)) ?? 0) + 1);
+  return a.filter(evt => {
+    const left = remaining.get(eventKey(evt)) ?? 0;
+    if (left > 0) remaining.set(eventKey(evt), left - 1);
+    return left === 0;
+  });
+}
+
+export function compareSnapshots(original: TickSnapshot, rerun: TickSnapshot): TickComparison {
+  const state = diffValues(original.spc.state, rerun.spc.state);
+  const ids = new Set([...Object.keys(original.spc.services), ...Object.keys(rerun.spc.services)]);
+  const statuses = [...ids]
+    .map(id => ({ id, from: original.spc.services[id]?.status, to: rerun.spc.services[id]?.status }))
+    .filter(change => change.from !== change.to);
+  const events = { missing: unmatched(original.events, rerun.events), extra: unmatched(rerun.events, original.events) };
+  const same = state.length === 0 && statuses.length === 0 && events.missing.length === 0 && events.extra.length === 0;
+  return { tick: rerun.tick, state, statuses, events, same };
+}
+
+/** Pairs the two runs tick by tick; a tick only one run reached is compared against an empty one */
+export function compareRuns(original: TickSnapshot[], rerun: TickSnapshot[]): TickComparison[] {
+  const originalByTick = new Map(original.map(snapshot => [snapshot.tick, snapshot]));
+  const rerunByTick = new Map(rerun.map(snapshot => [snapshot.tick, snapshot]));
+  const ticks = [...new Set([...originalByTick.keys(), ...rerunByTick.keys()])].sort((a, b) => a - b);
+  const empty = (tick: number): TickSnapshot => ({
+    tick, timestamp: '', executed: [], events: [], patches: {},
+    spc: { spc_version: '', meta: {}, services: {}, state: {} }
+  });
+  return ticks.map(tick => compareSnapshots(originalByTick.get(tick) ?? empty(tick), rerunByTick.get(tick) ?? empty(tick)));
+}
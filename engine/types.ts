@@ -0,0 +1,485 @@
+// ============================================================================
+// EDT ENGINE TYPES
+// ============================================================================
+
+export type ServiceStatus = 'running' | 'stopped' | 'error';
+
+export type LogLevel = 'info' | 'warn' | 'error' | 'lifecycle';
+
+export type State = Record<string, any>;
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export interface Service {
+  id?: string;
+  type: string;
+  title?: string;
+  spec: Record<string, any>;
+  status?: ServiceStatus;
+  lastRun?: string | null;
+  /** Set while the service's `schedule` holds it back */
+  waiting?: boolean;
+  /** When a waiting service runs next; null when it waits for its inputs to change */
+  nextRun?: string | null;
+  /** Fingerprint of the state it read on its last run, for `schedule.on_change` */
+  lastInputs?: string;
+  /** Consecutive failed runs; cleared by a successful one */
+  failures?: number;
+  lastError?: string;
+  /** When a failed service is tried again, after a retry backoff or circuit cooldown */
+  retryAt?: string;
+  /** Set once `circuit_breaker.threshold` failures in a row have opened the circuit */
+  circuitOpen?: boolean;
+  position?: Position;
+}
+
+export interface SPC {
+  spc_version: string;
+  meta: Record<string, any>;
+  services: Record<string, Service>;
+  state: State;
+  /** Regression cases run by `runTests`; the engine ignores them */
+  tests?: SpcTest[];
+}
+
+// ============================================================================
+// TEST CASES
+// ============================================================================
+
+/** One check on the state or events after a test case's ticks */
+export interface TestExpectation {
+  /** State key the `equals`, `rows` and `every` checks read */
+  key?: string;
+  /** Deep equality with the value at `key` */
+  equals?: any;
+  /** Number of rows at `key` */
+  rows?: number;
+  /** Expression over `row` and `state` that every row at `key` satisfies */
+  every?: string;
+  /** Event name that must have been emitted, e.g. `monitor.alert` */
+  event?: string;
+  /** Only events for this service */
+  for?: string;
+  /** Exact number of matching events; at least one when left out */
+  count?: number;
+}
+
+export interface SpcTest {
+  name: string;
+  description?: string;
+  /** Merged over the document's state before the first tick */
+  state?: State;
+  /** Services to run; the others are stopped. Defaults to the running ones */
+  services?: string[];
+  /** Defaults to 1 */
+  ticks?: number;
+  /** Recorded responses by service id: what `fetch` returns to a connector, the CSV text of a csv_loader */
+  stubs?: Record<string, any>;
+  expect: TestExpectation[];
+}
+
+export interface EngineEvent {
+  name: string;
+  for: string;
+  data?: any;
+}
+
+export interface HandlerResult {
+  patch?: State;
+  events?: EngineEvent[];
+  /** Other services to start or stop, by id; the engine applies and records the change */
+  statuses?: Record<string, ServiceStatus>;
+}
+
+export interface HandlerContext {
+  clock: () => string;
+  /** Seeded when the engine is, so replays draw the same numbers */
+  random: () => number;
+  state: State;
+  services: Record<string, Service>;
+  hash: (...parts: any[]) => string;
+  log: (level: LogLevel, message: string, meta?: Record<string, any>) => void;
+  /** Parsed JSON body; throws on a non-2xx status */
+  fetch: (url: string, opts?: RequestInit) => Promise<any>;
+  /** Raw body text; throws on a non-2xx status */
+  fetchText: (url: string, opts?: RequestInit) => Promise<string>;
+}
+
+export interface PrimitiveHandler {
+  type: string;
+  run(id: string, spec: Record<string, any>, ctx: HandlerContext): HandlerResult | void | Promise<HandlerResult | void>;
+}
+
+/** Fields every ledger entry shares; see ledger.ts for how the chain is built */
+interface LedgerEntryBase {
+  /** Position in the chain since the ledger started, kept across truncation */
+  seq: number;
+  tick: number;
+  timestamp: string;
+  /** SHA-256 of the previous entry, or the genesis hash */
+  prevHash: string;
+  /** SHA-256 of this entry's other fields */
+  hash: string;
+}
+
+export interface ExecutionLedgerEntry extends LedgerEntryBase {
+  type: 'execution';
+  serviceId: string;
+  inputHash: string;
+  outputHash: string;
+  eventCount: number;
+}
+
+export interface LifecycleLedgerEntry extends LedgerEntryBase {
+  type: 'lifecycle';
+  serviceId: string;
+  transition: string;
+}
+
+/** Written every CHECKPOINT_INTERVAL entries; truncation only ever cuts just before one */
+export interface CheckpointLedgerEntry extends LedgerEntryBase {
+  type: 'checkpoint';
+  /** SHA-256 of the state when the checkpoint was written */
+  stateHash: string;
+}
+
+export type LedgerEntry = ExecutionLedgerEntry | LifecycleLedgerEntry | CheckpointLedgerEntry;
+
+export interface EngineMetrics {
+  ticks: number;
+  events: number;
+  lifecycleResets: number;
+}
+
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  meta: Record<string, any>;
+}
+
+export interface TickReport {
+  tick: number;
+  executed: string[];
+  events: EngineEvent[];
+  spc: SPC;
+}
+
+/** What the engine keeps of each tick for the timeline */
+export interface TickSnapshot {
+  tick: number;
+  timestamp: string;
+  executed: string[];
+  events: EngineEvent[];
+  /** What each executed service wrote */
+  patches: Record<string, State>;
+  /** The (flattened) document after the tick: statuses, last runs and state */
+  spc: SPC;
+}
+
+export interface EngineEventMap {
+  log: LogEntry;
+  phase: number;
+  tick: TickReport;
+  /** State and statuses were put back to how they were before `tick` */
+  rewind: { tick: number; spc: SPC };
+  transition: { serviceId: string; from: ServiceStatus | undefined; to: ServiceStatus };
+  /** A tick started by the interval timer rejected */
+  error: Error;
+  start: void;
+  stop: void;
+}
+
+// ============================================================================
+// RUNTIME
+// ============================================================================
+
+export interface RuntimeClock {
+  /** Milliseconds since the epoch */
+  now(): number;
+  /** Called with the tick number as each tick starts */
+  advance?(tick: number): void;
+}
+
+export interface HttpResponse {
+  status: number;
+  body: string;
+}
+
+/** The engine's only way out to the network */
+export interface Transport {
+  (url: string, opts?: RequestInit): Promise<HttpResponse>;
+  /** Called with the tick number as each tick starts; a tick seen before means the engine rewound */
+  advance?(tick: number): void;
+}
+
+export interface EngineOptions {
+  /** Defaults to the wall clock */
+  clock?: RuntimeClock;
+  /** Seeds `random()`; unseeded engines use Math.random */
+  seed?: number;
+  /** Defaults to the global fetch */
+  transport?: Transport;
+  /** Ticks kept for the timeline and replay; DEFAULT_HISTORY_LIMIT when not given */
+  historyLimit?: number;
+}
+
+// ============================================================================
+// PRIMITIVE SPECS
+// ============================================================================
+
+/** Allowed on every primitive's spec; see schedule.ts */
+export interface ScheduleSpec {
+  every_ticks?: number;
+  interval_sec?: number;
+  /** Five fields, UTC */
+  cron?: string;
+  on_change?: boolean;
+}
+
+/** `retry`, `circuit_breaker` and `on_error` are allowed on every primitive's spec; see recovery.ts */
+export interface RetrySpec {
+  max_attempts?: number;
+  backoff_ms?: number;
+  max_backoff_ms?: number;
+  /** Fraction of the delay, 0–1 */
+  jitter?: number;
+}
+
+export interface CircuitBreakerSpec {
+  threshold?: number;
+  cooldown_sec?: number;
+}
+
+export interface OnErrorSpec {
+  action?: 'stop' | 'skip' | 'fallback';
+  /** Service started when `action` is fallback */
+  fallback?: string;
+  /** Defaults to `<id>_dead_letter` */
+  dead_letter_key?: string;
+}
+
+/** One failed run, as recorded under the service's dead-letter key */
+export interface DeadLetter {
+  tick: number;
+  timestamp: string;
+  serviceId: string;
+  error: string;
+  /** Consecutive failure number */
+  attempt: number;
+  /** The state keys the service read, as they were when it failed */
+  inputs: Record<string, any>;
+}
+
+export interface RuleSpec {
+  name?: string;
+  if?: string;
+  then?: Record<string, any>;
+}
+
+export interface ConnectorSpec {
+  url: string;
+  outputKey: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  rules?: { rules: RuleSpec[] };
+  cache?: any;
+  schedule?: ScheduleSpec;
+  retry?: RetrySpec;
+  circuit_breaker?: CircuitBreakerSpec;
+  on_error?: OnErrorSpec;
+  headers?: Record<string, string>;
+  body?: any;
+  persistent?: boolean;
+}
+
+export type AggOp = 'sum' | 'mean' | 'count' | 'min' | 'max' | 'first' | 'last' | 'nunique';
+export type CastType = 'number' | 'integer' | 'string' | 'boolean' | 'date';
+
+export interface AggregationSpec {
+  /** Source column; `count` without a column counts rows */
+  column?: string;
+  op: AggOp;
+}
+
+export interface SortKeySpec {
+  key: string;
+  order?: 'asc' | 'desc';
+}
+
+export interface PivotSpec {
+  index: string[];
+  columns: string;
+  values: string;
+  agg?: AggOp;
+}
+
+export interface JoinSpec {
+  /** Name of one of the processor's `inputs` */
+  with: string;
+  on: string[];
+  how?: 'inner' | 'left' | 'right' | 'outer' | 'anti';
+  /** Appended to clashing non-key columns, left then right (default `_x`, `_y`) */
+  suffixes?: [string, string];
+}
+
+export interface MeltSpec {
+  idVars: string[];
+  valueVars?: string[];
+  varName?: string;
+  valueName?: string;
+}
+
+/** One step of a processor pipeline. Keys present in the same step run in `PIPE_OPS` order. */
+export interface PipeSpec {
+  concat?: string[];
+  union?: string[];
+  join?: JoinSpec;
+  select?: string;
+  dropna?: string[];
+  fillna?: Record<string, any>;
+  cast?: Record<string, CastType>;
+  rename?: Record<string, string>;
+  project?: string[];
+  derive?: Record<string, string>;
+  explode?: string;
+  melt?: MeltSpec;
+  pivot?: PivotSpec;
+  groupBy?: { by: string[]; agg: Record<string, AggregationSpec> };
+  dedupe?: string[];
+  sort?: SortKeySpec[];
+  offset?: number;
+  limit?: number;
+}
+
+export interface ProcessorSpec {
+  inputKey: string;
+  /** Extra tables by name → state key, for `join`, `concat` and `union` pipes */
+  inputs?: Record<string, string>;
+  outputKey: string;
+  transform?: RuleSpec[];
+  pipes?: PipeSpec[];
+  persistent?: boolean;
+  schedule?: ScheduleSpec;
+  retry?: RetrySpec;
+  circuit_breaker?: CircuitBreakerSpec;
+  on_error?: OnErrorSpec;
+}
+
+export interface MonitorCheckSpec {
+  name: string;
+  dataKey: string;
+  expression: string;
+}
+
+export interface MonitorSpec {
+  checks: MonitorCheckSpec[];
+  thresholds?: Record<string, { above?: number; below?: number }>;
+  emit?: 'onChange' | 'always' | 'onTrue';
+  oneShot?: boolean;
+  persistent?: boolean;
+  schedule?: ScheduleSpec;
+  retry?: RetrySpec;
+  circuit_breaker?: CircuitBreakerSpec;
+  on_error?: OnErrorSpec;
+}
+
+export interface AdapterSpec {
+  kind: string;
+  url?: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  headers?: Record<string, string>;
+  body?: any;
+  idempotency_key?: string;
+  hold?: boolean;
+  persistent?: boolean;
+  schedule?: ScheduleSpec;
+  retry?: RetrySpec;
+  circuit_breaker?: CircuitBreakerSpec;
+  on_error?: OnErrorSpec;
+}
+
+export interface AggregatorSpec {
+  inputKey: string;
+  window: { size_sec?: number };
+  outputKey?: string;
+  reduce?: { emit?: 'latest' | 'count' | 'all' };
+  groupBy?: string;
+  persistent?: boolean;
+  schedule?: ScheduleSpec;
+  retry?: RetrySpec;
+  circuit_breaker?: CircuitBreakerSpec;
+  on_error?: OnErrorSpec;
+}
+
+export interface RouteSpec {
+  condition: string;
+  target: string;
+}
+
+export interface RouterSpec {
+  routes: RouteSpec[];
+  fallback?: string;
+  shard_key?: string;
+  shards?: number;
+  persistent?: boolean;
+  schedule?: ScheduleSpec;
+  retry?: RetrySpec;
+  circuit_breaker?: CircuitBreakerSpec;
+  on_error?: OnErrorSpec;
+}
+
+export interface VaultSpec {
+  provider: string;
+  secrets?: string[];
+  rotation_policy?: { auto_rotate?: boolean; rotation_days?: number };
+  persistent?: boolean;
+  schedule?: ScheduleSpec;
+  retry?: RetrySpec;
+  circuit_breaker?: CircuitBreakerSpec;
+  on_error?: OnErrorSpec;
+}
+
+export interface IteratorSpec {
+  inputKey: string;
+  outputKey: string;
+  historyKey?: string;
+  maxHistory?: number;
+  per_tick?: number;
+  resetOnNewData?: boolean;
+  loop?: boolean;
+  schedule?: ScheduleSpec;
+  retry?: RetrySpec;
+  circuit_breaker?: CircuitBreakerSpec;
+  on_error?: OnErrorSpec;
+}
+
+export interface CsvLoaderSpec {
+  source: string;
+  outputKey: string;
+  options?: { delimiter?: string; header?: boolean; maxRows?: number };
+  schedule?: ScheduleSpec;
+  retry?: RetrySpec;
+  circuit_breaker?: CircuitBreakerSpec;
+  on_error?: OnErrorSpec;
+}
+
+export interface ServiceSpecMap {
+  connector: ConnectorSpec;
+  processor: ProcessorSpec;
+  monitor: MonitorSpec;
+  adapter: AdapterSpec;
+  aggregator: AggregatorSpec;
+  router: RouterSpec;
+  vault: VaultSpec;
+  iterator: IteratorSpec;
+  csv_loader: CsvLoaderSpec;
+}
+
+export type ServiceType = keyof ServiceSpecMap;
+
+/** A service whose `spec` is narrowed by its `type`. */
+export type TypedService = {
+  [K in ServiceType]: Omit<Service, 'type' | 'spec'> & { type: K; spec: ServiceSpecMap[K] }
+}[ServiceType];
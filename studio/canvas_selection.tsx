@@ -0,0 +1,187 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Position } from '../engine';
+import type { Bounds } from './canvas_viewport';
+
+// ============================================================================
+// MULTI-SELECT & CLIPBOARD (shared by both editors)
+// ============================================================================
+//
+// Selection is a list of service ids, most recent last. Click selects one
+// node, Shift+click toggles it, Shift+drag on empty canvas draws a rubber band
+// that adds everything it touches. Copy, cut and paste go through the
+// browser's clipboard events, so they reach the system clipboard without a
+// permission prompt and work between tabs.
+
+/** Selected service ids, dropping any that no longer exist */
+export function useSelection(services: Record<string, unknown>) {
+  const [ids, setSelection] = useState<string[]>([]);
+  const selection = useMemo(() => ids.filter(id => id in services), [ids, services]);
+
+  /** `additive` (Shift) toggles `id` instead of replacing the selection */
+  const select = useCallback((id: string, additive = false) => {
+    setSelection(prev => {
+      if (!additive) return [id];
+      return prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id];
+    });
+  }, []);
+
+  const selectMany = useCallback((added: string[], additive = false) => {
+    setSelection(prev => (additive ? [...prev.filter(id => !added.includes(id)), ...added] : added));
+  }, []);
+
+  const clearSelection = useCallback(() => setSelection([]), []);
+
+  return { selection, setSelection, select, selectMany, clearSelection };
+}
+
+/** Ids of the nodes whose box overlaps `bounds` */
+export function nodesInBounds(nodes: { id: string; position?: Position }[], bounds: Bounds, width: number, height: number): string[] {
+  return nodes
+    .filter(({ position: p }) => p && p.x < bounds.x + bounds.width && p.x + width > bounds.x && p.y < bounds.y + bounds.height && p.y + height > bounds.y)
+    .map(node => node.id);
+}
+
+// ----------------------------------------------------------------------------
+// Rubber band
+// ----------------------------------------------------------------------------
+
+/** Call `start` from mousedown on empty canvas; `onSelect` gets the band in world coordinates on release. */
+export function useMarquee(toWorld: (e: { clientX: number; clientY: number }) => Position, onSelect: (bounds: Bounds) => void) {
+  const [marquee, setMarquee] = useState<Bounds | null>(null);
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  const start = useCallback((e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    const from = toWorld(e);
+    const boundsTo = (to: Position): Bounds => ({
+      x: Math.min(from.x, to.x),
+      y: Math.min(from.y, to.y),
+      width: Math.abs(to.x - from.x),
+      height: Math.abs(to.y - from.y)
+    });
+    setMarquee(boundsTo(from));
+    const onMove = (move: MouseEvent) => setMarquee(boundsTo(toWorld(move)));
+    const onUp = (up: MouseEvent) => {
+      setMarquee(null);
+      onSelectRef.current(boundsTo(toWorld(up)));
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  }, [toWorld]);
+
+  return { marquee, startMarquee: start };
+}
+
+/** The band itself; render inside the world layer */
+export function Marquee({ bounds }: { bounds: Bounds | null }) {
+  if (!bounds) return null;
+  return (
+    <div
+      className="absolute border border-green-400 bg-green-400/10 pointer-events-none"
+      style={{ left: bounds.x, top: bounds.y, width: bounds.width, height: bounds.height, zIndex: 15 }}
+    />
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Keyboard & clipboard
+// ----------------------------------------------------------------------------
+
+interface SelectionShortcuts {
+  /** Off while the canvas is read-only */
+  enabled: boolean;
+  /** Clipboard text for the selection, or null when nothing is selected */
+  onCopy: () => string | null;
+  /** Removes what `onCopy` just produced */
+  onCut: () => void;
+  /** Returns false when the text is not services, so the paste is left alone */
+  onPaste: (text: string) => boolean;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+/** Typing in a field or copying selected text keeps the browser's own behaviour */
+function isEditing(e: Event): boolean {
+  const target = e.target as HTMLElement | null;
+  if (target?.closest?.('input, textarea, select, [contenteditable="true"]')) return true;
+  const text = window.getSelection();
+  return (e.type === 'copy' || e.type === 'cut') && !!text && !text.isCollapsed;
+}
+
+/** Ctrl/Cmd+C, X, V, D and Delete for the selected services */
+export function useSelectionShortcuts(shortcuts: SelectionShortcuts) {
+  const ref = useRef(shortcuts);
+  ref.current = shortcuts;
+
+  useEffect(() => {
+    const onCopyOrCut = (e: ClipboardEvent) => {
+      if (!ref.current.enabled || isEditing(e)) return;
+      const text = ref.current.onCopy();
+      if (text === null) return;
+      e.clipboardData?.setData('text/plain', text);
+      e.preventDefault();
+      if (e.type === 'cut') ref.current.onCut();
+    };
+    const onPaste = (e: ClipboardEvent) => {
+      if (!ref.current.enabled || isEditing(e)) return;
+      if (ref.current.onPaste(e.clipboardData?.getData('text/plain') ?? '')) e.preventDefault();
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!ref.current.enabled || isEditing(e)) return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        ref.current.onDuplicate();
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        ref.current.onDelete();
+      }
+    };
+    window.addEventListener('copy', onCopyOrCut);
+    window.addEventListener('cut', onCopyOrCut);
+    window.addEventListener('paste', onPaste);
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('copy', onCopyOrCut);
+      window.removeEventListener('cut', onCopyOrCut);
+      window.removeEventListener('paste', onPaste);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, []);
+}
+
+// ----------------------------------------------------------------------------
+// Selection bar
+// ----------------------------------------------------------------------------
+
+interface SelectionBarProps {
+  count: number;
+  onCopy: () => void;
+  onCut: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  /** Collapses the selection into one composite service */
+  onGroup?: () => void;
+  onClear: () => void;
+}
+
+/** Floating actions for a multi-node selection */
+export function SelectionBar({ count, onCopy, onCut, onDuplicate, onDelete, onGroup, onClear }: SelectionBarProps) {
+  const button = 'text-gray-300 hover:text-white';
+  return (
+    <div
+      className="absolute top-2 left-1/2 -translate-x-1/2 bg-gray-800/90 border border-gray-600 rounded px-3 py-1.5 text-xs flex items-center gap-3"
+      style={{ zIndex: 30 }}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <span className="text-green-400">{count} selected</span>
+      <button onClick={onCopy} className={button} title="Ctrl+C">Copy</button>
+      <button onClick={onCut} className={button} title="Ctrl+X">Cut</button>
+      <button onClick={onDuplicate} className={button} title="Ctrl+D">Duplicate</button>
+      {onGroup && <button onClick={onGroup} className={button} title="Collapse into one composite service">Group into composite</button>}
+      <button onClick={onDelete} className="text-red-400 hover:text-red-300" title="Delete">Delete</button>
+      <button onClick={onClear} className="text-gray-500 hover:text-white" title="Clear selection">✕</button>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { Position } from '../engine';
+
+// ============================================================================
+// CANVAS VIEWPORT (shared by both editors)
+// ============================================================================
+//
+// Service positions are world coordinates. The canvas draws them through one
+// transform, `translate(pan) scale(zoom)`, so screen → world is
+// `(client - canvasOrigin - pan) / zoom`. Anything measured on screen (drag
+// offsets, `movementX`, the end of a pending connection) goes through
+// `toWorld` or is divided by `zoom` before it touches a position.
+
+export interface Viewport {
+  zoom: number;
+  /** Screen offset of the world origin, in canvas pixels */
+  pan: Position;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 0.2;
+export const MAX_ZOOM = 2;
+
+const FIT_PADDING = 40;
+/** Pixels the mouse may move and still count as a click */
+const CLICK_SLOP = 3;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/** Box around every placed node, or null when there are none */
+export function nodeBounds(nodes: { position?: Position }[], width: number, height: number): Bounds | null {
+  const positions = nodes.flatMap(n => (n.position ? [n.position] : []));
+  if (positions.length === 0) return null;
+  const xs = positions.map(p => p.x);
+  const ys = positions.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) + width - x, height: Math.max(...ys) + height - y };
+}
+
+/** The transform for the layer holding nodes and edges */
+export function viewportTransform({ zoom, pan }: Viewport): string {
+  return `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`;
+}
+
+/** Keeps a background grid in step with the content */
+export function gridStyle({ zoom, pan }: Viewport, cell = 20): React.CSSProperties {
+  return { backgroundSize: `${cell * zoom}px ${cell * zoom}px`, backgroundPosition: `${pan.x}px ${pan.y}px` };
+}
+
+export function useViewport(canvasRef: RefObject<HTMLElement>) {
+  const [viewport, setViewport] = useState<Viewport>({ zoom: 1, pan: { x: 0, y: 0 } });
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [isPanning, setIsPanning] = useState(false);
+  const viewportRef = useRef(viewport);
+  viewportRef.current = viewport;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const measure = () => setSize({ width: canvas.clientWidth, height: canvas.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [canvasRef]);
+
+  /** Zooms keeping the world point under `at` (canvas pixels) where it is */
+  const zoomAt = useCallback((factor: number, at?: Position) => {
+    setViewport(({ zoom, pan }) => {
+      const canvas = canvasRef.current;
+      const anchor = at ?? { x: (canvas?.clientWidth ?? 0) / 2, y: (canvas?.clientHeight ?? 0) / 2 };
+      const next = clampZoom(zoom * factor);
+      return {
+        zoom: next,
+        pan: {
+          x: anchor.x - ((anchor.x - pan.x) / zoom) * next,
+          y: anchor.y - ((anchor.y - pan.y) / zoom) * next
+        }
+      };
+    });
+  }, [canvasRef]);
+
+  // React's wheel listeners are passive, so preventDefault needs a native one.
+  // Trackpad pinch arrives as a wheel event with ctrlKey set and small deltas.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const speed = e.ctrlKey ? 0.01 : 0.0015;
+      zoomAt(Math.exp(-e.deltaY * speed), { x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [canvasRef, zoomAt]);
+
+  const toWorld = useCallback((e: { clientX: number; clientY: number }): Position => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const { zoom, pan } = viewportRef.current;
+    return { x: (e.clientX - rect.left - pan.x) / zoom, y: (e.clientY - rect.top - pan.y) / zoom };
+  }, [canvasRef]);
+
+  /**
+   * Call from mousedown on empty canvas; follows the mouse until release.
+   * `onClick` runs instead when the mouse barely moved.
+   */
+  const startPan = useCallback((e: React.MouseEvent, onClick?: () => void) => {
+    if (e.button !== 0) return;
+    const start = { x: e.clientX, y: e.clientY, pan: viewportRef.current.pan };
+    setIsPanning(true);
+    const onMove = (move: MouseEvent) => {
+      setViewport(v => ({ ...v, pan: { x: start.pan.x + move.clientX - start.x, y: start.pan.y + move.clientY - start.y } }));
+    };
+    const onUp = (up: MouseEvent) => {
+      setIsPanning(false);
+      if (onClick && Math.hypot(up.clientX - start.x, up.clientY - start.y) < CLICK_SLOP) onClick();
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  }, []);
+
+  /** Zooms and pans so `bounds` fills the canvas, never zooming in past `maxZoom` */
+  const fitBounds = useCallback((bounds: Bounds | null, maxZoom = 1) => {
+    const canvas = canvasRef.current;
+    if (!bounds || !canvas) return;
+    const width = canvas.clientWidth - FIT_PADDING * 2;
+    const height = canvas.clientHeight - FIT_PADDING * 2;
+    const zoom = clampZoom(Math.min(width / Math.max(bounds.width, 1), height / Math.max(bounds.height, 1), maxZoom));
+    setViewport({
+      zoom,
+      pan: {
+        x: canvas.clientWidth / 2 - (bounds.x + bounds.width / 2) * zoom,
+        y: canvas.clientHeight / 2 - (bounds.y + bounds.height / 2) * zoom
+      }
+    });
+  }, [canvasRef]);
+
+  /** Pans so the world point sits in the middle of the canvas */
+  const centerOn = useCallback((point: Position) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    setViewport(({ zoom }) => ({
+      zoom,
+      pan: { x: canvas.clientWidth / 2 - point.x * zoom, y: canvas.clientHeight / 2 - point.y * zoom }
+    }));
+  }, [canvasRef]);
+
+  const reset = useCallback(() => setViewport({ zoom: 1, pan: { x: 0, y: 0 } }), []);
+
+  return { viewport, size, isPanning, toWorld, startPan, zoomAt, fitBounds, centerOn, reset };
+}
+
+// ----------------------------------------------------------------------------
+// Controls
+// ----------------------------------------------------------------------------
+
+interface ZoomControlsProps {
+  zoom: number;
+  onZoom: (factor: number) => void;
+  onFit: () => void;
+  /** Omit when nothing is selected */
+  onFitSelection?: () => void;
+  onReset: () => void;
+}
+
+/** Zoom buttons; Shift+1 fits everything, Shift+2 the selection, Shift+0 resets to 100%. */
+export function ZoomControls({ zoom, onZoom, onFit, onFitSelection, onReset }: ZoomControlsProps) {
+  const actions = useRef({ onFit, onFitSelection, onReset });
+  actions.current = { onFit, onFitSelection, onReset };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!e.shiftKey || e.ctrlKey || e.metaKey || e.altKey) return;
+      if ((e.target as HTMLElement)?.closest?.('input, textarea, select')) return;
+      const action = { Digit1: actions.current.onFit, Digit2: actions.current.onFitSelection, Digit0: actions.current.onReset }[e.code];
+      if (!action) return;
+      e.preventDefault();
+      action();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const button = 'px-2 py-1 hover:bg-gray-700 disabled:opacity-40';
+  return (
+    <div
+      className="absolute bottom-3 left-3 flex items-center bg-gray-800/90 border border-gray-700 rounded text-xs text-gray-300"
+      style={{ zIndex: 20 }}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <button onClick={() => onZoom(1 / 1.2)} className={button} title="Zoom out">−</button>
+      <button onClick={onReset} className={`${button} w-12 tabular-nums`} title="Reset to 100% (Shift+0)">{Math.round(zoom * 100)}%</button>
+      <button onClick={() => onZoom(1.2)} className={button} title="Zoom in">+</button>
+      <div className="w-px h-4 bg-gray-600" />
+      <button onClick={onFit} className={button} title="Fit to view (Shift+1)">Fit</button>
+      <button onClick={onFitSelection} disabled={!onFitSelection} className={button} title="Zoom to selection (Shift+2)">Selection</button>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Minimap
+// ----------------------------------------------------------------------------
+
+const MINIMAP_WIDTH = 180;
+const MINIMAP_HEIGHT = 120;
+
+interface MinimapProps {
+  nodes: { id: string; position: Position; color: string }[];
+  nodeWidth: number;
+  nodeHeight: number;
+  viewport: Viewport;
+  size: { width: number; height: number };
+  selectedIds?: string[];
+  onCenter: (point: Position) => void;
+}
+
+/** Whole pipeline in miniature with the visible area outlined; click or drag to move the view. */
+export function Minimap({ nodes, nodeWidth, nodeHeight, viewport, size, selectedIds = [], onCenter }: MinimapProps) {
+  const { zoom, pan } = viewport;
+  const visible: Bounds = { x: -pan.x / zoom, y: -pan.y / zoom, width: size.width / zoom, height: size.height / zoom };
+  const content = nodeBounds(nodes, nodeWidth, nodeHeight);
+
+  const left = Math.min(visible.x, content?.x ?? visible.x);
+  const top = Math.min(visible.y, content?.y ?? visible.y);
+  const right = Math.max(visible.x + visible.width, content ? content.x + content.width : -Infinity);
+  const bottom = Math.max(visible.y + visible.height, content ? content.y + content.height : -Infinity);
+  const scale = Math.min(MINIMAP_WIDTH / Math.max(right - left, 1), MINIMAP_HEIGHT / Math.max(bottom - top, 1));
+
+  const navigate = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onCenter({ x: left + (e.clientX - rect.left) / scale, y: top + (e.clientY - rect.top) / scale });
+  };
+
+  return (
+    <svg
+      width={MINIMAP_WIDTH}
+      height={MINIMAP_HEIGHT}
+      className="absolute bottom-3 right-3 bg-gray-900/90 border border-gray-700 rounded cursor-pointer"
+      style={{ zIndex: 20 }}
+      onMouseDown={(e) => { e.stopPropagation(); navigate(e); }}
+      onMouseMove={(e) => { if (e.buttons === 1) navigate(e); }}
+    >
+      {nodes.map(node => (
+        <rect
+          key={node.id}
+          x={(node.position.x - left) * scale}
+          y={(node.position.y - top) * scale}
+          width={Math.max(nodeWidth * scale, 2)}
+          height={Math.max(nodeHeight * scale, 2)}
+          fill={node.color}
+          opacity={selectedIds.length > 0 && !selectedIds.includes(node.id) ? 0.5 : 0.9}
+          rx={1}
+        />
+      ))}
+      <rect
+        x={(visible.x - left) * scale}
+        y={(visible.y - top) * scale}
+        width={visible.width * scale}
+        height={visible.height * scale}
+        fill="rgba(255,255,255,0.06)"
+        stroke="#9ca3af"
+        strokeWidth={1}
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { scopeDoc, scopeService, updateScope } from '../engine';
+import type { Service, SPC } from '../engine';
+import type { EditOptions } from './use_spc_history';
+
+// ============================================================================
+// COMPOSITES IN THE EDITOR (shared by both editors)
+// ============================================================================
+//
+// A composite is drawn as one node that lists its inputs and outputs and can
+// expand to show the services inside. Opening it adds a tab whose canvas
+// edits the inner services directly; every edit is written back into the
+// composite's spec, so undo, export and the engine all still see one document.
+
+type SpcUpdate = SPC | ((prev: SPC) => SPC);
+type SetDoc = (update: SpcUpdate, options?: EditOptions) => void;
+
+const pathKey = (path: string[]) => path.join('/');
+const within = (path: string[], outer: string[]) => outer.every((id, i) => path[i] === id);
+
+/**
+ * Open composite tabs over the root document. `spc` and `setSpc` are the
+ * active tab's view; tabs whose composite was deleted or renamed close.
+ */
+export function useCompositeScope(doc: SPC, setDoc: SetDoc) {
+  const [tabs, setTabs] = useState<string[][]>([]);
+  const [active, setActive] = useState<string[]>([]);
+
+  const open = useCallback((path: string[]) => {
+    setTabs(prev => (prev.some(tab => pathKey(tab) === pathKey(path)) ? prev : [...prev, path]));
+    setActive(path);
+  }, []);
+
+  const close = useCallback((path: string[]) => {
+    setTabs(prev => prev.filter(tab => !within(tab, path)));
+    setActive(prev => (within(prev, path) ? [] : prev));
+  }, []);
+
+  useEffect(() => {
+    if (tabs.every(tab => scopeService(doc, tab))) return;
+    setTabs(prev => prev.filter(tab => scopeService(doc, tab)));
+    setActive(prev => (scopeService(doc, prev) || prev.length === 0 ? prev : []));
+  }, [doc, tabs]);
+
+  const scope = scopeService(doc, active) ? active : [];
+  const spc = useMemo(() => scopeDoc(doc, scope) ?? doc, [doc, pathKey(scope)]);
+  const setSpc = useCallback((update: SpcUpdate, options?: EditOptions) => {
+    setDoc(prev => updateScope(prev, scope, inner => (typeof update === 'function' ? update(inner) : update)), options);
+  }, [setDoc, pathKey(scope)]);
+
+  return { scope, tabs, open, close, setScope: setActive, spc, setSpc, composite: scopeService(doc, scope) };
+}
+
+/** Pipeline tab plus one per opened composite */
+export function ScopeTabs({ doc, tabs, scope, onSelect, onClose }: {
+  doc: SPC;
+  tabs: string[][];
+  scope: string[];
+  onSelect: (path: string[]) => void;
+  onClose: (path: string[]) => void;
+}) {
+  if (tabs.length === 0) return null;
+  const tab = (path: string[]) => {
+    const current = pathKey(path) === pathKey(scope);
+    const title = path.length === 0 ? doc.meta?.name || 'Pipeline' : scopeService(doc, path)?.title || path[path.length - 1];
+    return (
+      <div
+        key={pathKey(path) || '/'}
+        className={`flex items-center gap-2 px-3 py-1.5 text-xs border-r border-gray-700 cursor-pointer ${current ? 'bg-gray-900 text-white' : 'text-gray-400 hover:text-white'}`}
+        onClick={() => onSelect(path)}
+        title={path.length > 0 ? path.join(' › ') : undefined}
+      >
+        <span>{path.length === 0 ? '🗂️' : '📦'} {title}</span>
+        {path.length > 0 && (
+          <button onClick={(e) => { e.stopPropagation(); onClose(path); }} className="text-gray-500 hover:text-white">✕</button>
+        )}
+      </div>
+    );
+  };
+  return (
+    <div className="flex bg-gray-800 border-b border-gray-700">
+      {tab([])}
+      {tabs.map(tab)}
+    </div>
+  );
+}
+
+/** Node body for a composite: its bindings, and the inner services when expanded */
+export function CompositeSummary({ service, onOpen }: { service: Pick<Service, 'spec'>; onOpen?: () => void }) {
+  const [expanded, setExpanded] = useState(false);
+  const spec = service.spec || {};
+  const inner = Object.entries<Service>(spec.services || {});
+  const chips = (bindings: Record<string, string> | undefined, color: string) =>
+    Object.keys(bindings || {}).map(key => (
+      <span key={key} className={`px-1 rounded bg-gray-700 ${color}`} title={bindings![key] ? `bound to ${bindings![key]}` : undefined}>{key}</span>
+    ));
+
+  return (
+    <div className="text-xs mt-1">
+      <div className="flex flex-wrap items-center gap-1">
+        {chips(spec.inputs, 'text-blue-300')}
+        <span className="text-gray-500">→</span>
+        {chips(spec.outputs, 'text-green-300')}
+      </div>
+      <div className="flex items-center justify-between mt-1">
+        <button onClick={() => setExpanded(open => !open)} className="text-gray-400 hover:text-white">
+          {expanded ? '▾' : '▸'} {inner.length} service(s)
+        </button>
+        {onOpen && <button onClick={onOpen} className="text-green-400 hover:text-green-300">Open</button>}
+      </div>
+      {expanded && (
+        <ul className="mt-1 space-y-0.5 border-l border-gray-600 pl-2">
+          {inner.map(([id, child]) => (
+            <li key={id} className="flex items-center justify-between gap-2">
+              <span className="text-gray-300 truncate">{child.title || id}</span>
+              <span className={child.status === 'running' ? 'text-green-400' : child.status === 'error' ? 'text-red-400' : 'text-gray-500'}>
+                {child.type}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { COMPOSITE_SEPARATOR, describeRows, flattenComposites, isMissing, nodePreview, sortPreview } from '../engine';
+import type { ColumnSummary, PreviewTable, SPC } from '../engine';
+
+// ============================================================================
+// DATA PREVIEW (shared by both editors)
+// ============================================================================
+//
+// A bottom panel showing the rows the selected service wrote on its last run,
+// a describe() of every column and, for processors, what the pipes changed.
+// Services inside a composite are looked up in the flattened document, where
+// their state keys live.
+
+const PAGE_SIZE = 20;
+
+/** Preview of `id` in the composite tab at `path`, recomputed as state changes */
+export function useNodePreview(doc: SPC, path: string[], id: string | null) {
+  const flat = useMemo(() => flattenComposites(doc).spc, [doc]);
+  return useMemo(() => (id ? nodePreview(flat, [...path, id].join(COMPOSITE_SEPARATOR)) : null), [flat, path.join(COMPOSITE_SEPARATOR), id]);
+}
+
+function formatCell(value: any): string {
+  if (isMissing(value)) return 'null';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(4).replace(/0+$/, '');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function Cell({ value }: { value: any }) {
+  const text = formatCell(value);
+  return (
+    <td className={`px-2 py-1 max-w-xs truncate ${isMissing(value) ? 'text-gray-600 italic' : ''}`} title={text}>{text}</td>
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Rows
+// ----------------------------------------------------------------------------
+
+function RowsTable({ table, summaries, highlightColumns = [], highlightRows = [], rowClass = 'bg-green-900/30' }: {
+  table: PreviewTable;
+  summaries: ColumnSummary[];
+  highlightColumns?: string[];
+  highlightRows?: number[];
+  rowClass?: string;
+}) {
+  const [sort, setSort] = useState<{ column: string; descending: boolean } | null>(null);
+  const [page, setPage] = useState(0);
+
+  // Keep the original index so highlights survive sorting
+  const indexed = useMemo(() => table.rows.map((row, index) => ({ ...row, __row: index })), [table.rows]);
+  const sorted = useMemo(() => sortPreview(indexed, sort?.column ?? null, sort?.descending), [indexed, sort]);
+  const pages = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  useEffect(() => setPage(p => Math.min(p, pages - 1)), [pages]);
+
+  // Ascending, then descending, then back to the stored order
+  const cycleSort = (column: string) => setSort(prev => (
+    prev?.column !== column ? { column, descending: false } : !prev.descending ? { column, descending: true } : null
+  ));
+  const dtypes = Object.fromEntries(summaries.map(summary => [summary.name, summary.dtype]));
+
+  if (table.rows.length === 0) return <div className="text-gray-500 text-xs p-2">No rows at “{table.key}”. Run the pipeline to fill it.</div>;
+
+  return (
+    <div className="text-xs">
+      <div className="overflow-auto">
+        <table className="min-w-full font-mono">
+          <thead className="bg-gray-800 sticky top-0">
+            <tr>
+              <th className="px-2 py-1 text-left text-gray-600">#</th>
+              {table.columns.map(column => (
+                <th
+                  key={column}
+                  onClick={() => cycleSort(column)}
+                  className={`px-2 py-1 text-left cursor-pointer select-none ${highlightColumns.includes(column) ? 'text-green-400' : 'text-gray-300'}`}
+                >
+                  {column}{sort?.column === column ? (sort.descending ? ' ↓' : ' ↑') : ''}
+                  <div className="text-gray-500 font-normal">{dtypes[column]}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE).map(row => (
+              <tr key={row.__row} className={`border-t border-gray-800 ${highlightRows.includes(row.__row) ? rowClass : ''}`}>
+                <td className="px-2 py-1 text-gray-600">{row.__row}</td>
+                {table.columns.map(column => <Cell key={column} value={row[column]} />)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center gap-3 px-2 py-1 text-gray-400">
+        <span>{table.rows.length} row(s)</span>
+        <button disabled={page === 0} onClick={() => setPage(p => p - 1)} className="disabled:opacity-30 hover:text-white">‹ Prev</button>
+        <span>Page {page + 1} of {pages}</span>
+        <button disabled={page >= pages - 1} onClick={() => setPage(p => p + 1)} className="disabled:opacity-30 hover:text-white">Next ›</button>
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------------
+// describe()
+// ----------------------------------------------------------------------------
+
+function DescribeTable({ summaries }: { summaries: ColumnSummary[] }) {
+  if (summaries.length === 0) return <div className="text-gray-500 text-xs p-2">Nothing to describe yet.</div>;
+  const stat = (value: any) => (value === undefined ? '' : formatCell(value));
+  return (
+    <table className="min-w-full text-xs font-mono">
+      <thead className="bg-gray-800 text-gray-300">
+        <tr>
+          {['column', 'dtype', 'count', 'nulls', 'unique', 'mean', 'min', 'max', 'top'].map(h => (
+            <th key={h} className="px-2 py-1 text-left">{h}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {summaries.map(summary => (
+          <tr key={summary.name} className="border-t border-gray-800">
+            <td className="px-2 py-1 text-gray-200">{summary.name}</td>
+            <td className="px-2 py-1 text-blue-300">{summary.dtype}</td>
+            <td className="px-2 py-1">{summary.count}</td>
+            <td className={`px-2 py-1 ${summary.nulls > 0 ? 'text-yellow-400' : ''}`}>{summary.nulls}</td>
+            <td className="px-2 py-1">{summary.unique}</td>
+            <td className="px-2 py-1">{stat(summary.mean)}</td>
+            <td className="px-2 py-1 max-w-[8rem] truncate">{stat(summary.min)}</td>
+            <td className="px-2 py-1 max-w-[8rem] truncate">{stat(summary.max)}</td>
+            <td className="px-2 py-1 text-gray-400 max-w-xs truncate">
+              {summary.top.map(({ value, count }) => `${formatCell(value)} (${count})`).join(', ')}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Panel
+// ----------------------------------------------------------------------------
+
+type PreviewTab = 'rows' | 'describe' | 'diff';
+
+export function DataPreviewPanel({ doc, scope, serviceId, onClose }: {
+  doc: SPC;
+  scope: string[];
+  serviceId: string;
+  onClose: () => void;
+}) {
+  const preview = useNodePreview(doc, scope, serviceId);
+  const [tab, setTab] = useState<PreviewTab>('rows');
+  const summaries = useMemo(() => (preview ? describeRows(preview.output.rows) : []), [preview]);
+  const inputSummaries = useMemo(() => (preview?.input ? describeRows(preview.input.rows) : []), [preview]);
+  const diff = preview?.diff;
+  const current = tab === 'diff' && !diff ? 'rows' : tab;
+
+  const tabs: [PreviewTab, string][] = [['rows', 'Rows'], ['describe', 'Describe'], ...(diff ? [['diff', 'Before / after'] as [PreviewTab, string]] : [])];
+
+  return (
+    <div className="h-72 bg-gray-900 border-t border-gray-700 flex flex-col">
+      <div className="flex items-center gap-3 px-3 py-1.5 border-b border-gray-800 text-xs">
+        <span className="font-bold text-green-400">Data · {serviceId}</span>
+        {preview && <span className="text-gray-500 font-mono">state.{preview.output.key}</span>}
+        {tabs.map(([id, label]) => (
+          <button key={id} onClick={() => setTab(id)} className={current === id ? 'text-white underline' : 'text-gray-400 hover:text-white'}>
+            {label}
+          </button>
+        ))}
+        <button onClick={onClose} className="ml-auto text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {!preview ? (
+          <div className="text-gray-500 text-xs p-2">This service writes no state to preview. Open a composite to preview the services inside it.</div>
+        ) : current === 'rows' ? (
+          <RowsTable key={preview.output.key} table={preview.output} summaries={summaries} highlightColumns={diff?.addedColumns} highlightRows={diff?.added} />
+        ) : current === 'describe' ? (
+          <DescribeTable summaries={summaries} />
+        ) : (
+          <div className="p-2 space-y-2">
+            <div className="text-xs text-gray-300 flex flex-wrap gap-3">
+              <span className="text-red-400">−{diff!.dropped.length} row(s) dropped</span>
+              <span className="text-green-400">+{diff!.added.length} row(s) added or changed</span>
+              {diff!.addedColumns.length > 0 && <span className="text-green-400">+ columns: {diff!.addedColumns.join(', ')}</span>}
+              {diff!.removedColumns.length > 0 && <span className="text-red-400">− columns: {diff!.removedColumns.join(', ')}</span>}
+              <span className="text-gray-500">{preview.input!.rows.length} → {preview.output.rows.length} rows</span>
+            </div>
+            <div className="text-xs text-gray-400">Input · state.{preview.input!.key}, dropped rows in red</div>
+            <RowsTable key={preview.input!.key} table={preview.input!} summaries={inputSummaries} highlightRows={diff!.dropped} rowClass="bg-red-900/30" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
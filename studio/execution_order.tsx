@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react';
+import { executionSteps, planExecution } from '../engine';
+import type { Connection, Service } from '../engine';
+
+// ============================================================================
+// EXECUTION ORDER (shared by both editors)
+// ============================================================================
+//
+// Numbers each node by the step of a tick it runs in (nodes sharing a number
+// run together), marks the services and edges of dependency cycles, and
+// notes when a service's schedule is holding it back.
+
+export interface ExecutionOrder {
+  steps: Record<string, number>;
+  /** Services on some cycle */
+  inCycle: Set<string>;
+  isCycleEdge: (conn: Connection) => boolean;
+}
+
+export const CYCLE_COLOR = '#ef4444';
+
+export function useExecutionOrder(services: Record<string, Service>): ExecutionOrder {
+  return useMemo(() => {
+    const plan = planExecution(services);
+    const cycleOf = new Map<string, number>();
+    plan.cycles.forEach((cycle, i) => cycle.forEach(id => cycleOf.set(id, i)));
+    return {
+      steps: executionSteps(plan),
+      inCycle: new Set(cycleOf.keys()),
+      isCycleEdge: conn => cycleOf.has(conn.source) && cycleOf.get(conn.source) === cycleOf.get(conn.target)
+    };
+  }, [services]);
+}
+
+export function StepBadge({ step, inCycle }: { step?: number; inCycle: boolean }) {
+  if (step === undefined) return null;
+  return (
+    <div
+      className={`absolute -top-2 -left-2 rounded-full px-1.5 text-xs font-bold pointer-events-auto ${inCycle ? 'bg-red-500 text-white' : 'bg-gray-600 text-gray-100'}`}
+      title={inCycle
+        ? `On a dependency cycle; runs in step ${step}, in document order with the rest of the cycle`
+        : `Runs in step ${step} of each tick`}
+      style={{ zIndex: 20 }}
+    >
+      {inCycle ? '↻ ' : ''}{step}
+    </div>
+  );
+}
+
+const DAY_MS = 86_400_000;
+
+/** Shown on a running node that its `schedule` skipped on the last tick */
+export function WaitingNote({ service }: { service: Pick<Service, 'status' | 'waiting' | 'nextRun'> }) {
+  if (service.status !== 'running' || !service.waiting) return null;
+  const next = service.nextRun ? new Date(service.nextRun) : null;
+  const when = next && (Math.abs(next.getTime() - Date.now()) < DAY_MS ? next.toLocaleTimeString() : next.toLocaleString());
+  return (
+    <div
+      className="mt-2 bg-yellow-900/20 border border-yellow-700/50 rounded px-2 py-1 text-xs text-yellow-300"
+      title={next ? `Skipped by its schedule; next run at ${next.toISOString()}` : 'Skipped by its schedule until a key it reads changes'}
+    >
+      ⏳ Waiting · {when ? `next ${when}` : 'until inputs change'}
+    </div>
+  );
+}
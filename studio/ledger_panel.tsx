@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { GENESIS_HASH, LEDGER_FILE_SUFFIX, ledgerFilename, ledgerToJSONL, parseLedgerJSONL, verifyLedger } from '../engine';
+import type { LedgerEntry } from '../engine';
+
+// ============================================================================
+// LEDGER PANEL (shared by both editors)
+// ============================================================================
+//
+// Shows the engine's MNEME ledger, newest first, with the result of walking
+// its hash chain. An imported `.ledger.jsonl` file is shown and verified in
+// place of the live ledger until the panel goes back to live.
+
+type AddLog = (level: string, message: string) => void;
+
+const MAX_SHOWN = 200;
+
+const short = (hash: string) => hash.slice(0, 10);
+
+function EntryRow({ entry, broken, unverified, onFocus }: {
+  entry: LedgerEntry;
+  /** Why this entry breaks the chain, when it is the first one that does */
+  broken?: string;
+  unverified: boolean;
+  onFocus: (serviceId: string) => void;
+}) {
+  return (
+    <li className={`rounded p-1.5 ${broken ? 'bg-red-900/40 border border-red-500' : 'bg-gray-900'} ${unverified ? 'opacity-50' : ''}`}>
+      <div className="flex items-center gap-2">
+        <span className="text-gray-500 font-mono">#{entry.seq}</span>
+        <span className="text-gray-500">tick {entry.tick}</span>
+        <span className={entry.type === 'checkpoint' ? 'text-purple-300' : entry.type === 'lifecycle' ? 'text-yellow-300' : 'text-green-300'}>
+          {entry.type}
+        </span>
+        {entry.type !== 'checkpoint' && (
+          <button onClick={() => onFocus(entry.serviceId)} className="text-blue-300 hover:text-blue-200 hover:underline truncate" title="Show on canvas">
+            {entry.serviceId}
+          </button>
+        )}
+      </div>
+      <div className="text-gray-400 font-mono">
+        {entry.type === 'execution' && <>in {short(entry.inputHash)} · out {short(entry.outputHash)} · {entry.eventCount} event(s)</>}
+        {entry.type === 'lifecycle' && entry.transition}
+        {entry.type === 'checkpoint' && <>state {short(entry.stateHash)}</>}
+      </div>
+      <div className="text-gray-600 font-mono" title={entry.hash}>{short(entry.prevHash)} → {short(entry.hash)}</div>
+      {broken && <div className="text-red-300">{broken}</div>}
+    </li>
+  );
+}
+
+export function LedgerPanel({ ledger, pipelineName, canContinue, onContinue, onFocus, addLog, onClose }: {
+  /** The live engine ledger */
+  ledger: LedgerEntry[];
+  pipelineName: string;
+  canContinue: boolean;
+  /** Makes an imported ledger the engine's; later entries chain onto it */
+  onContinue: (entries: LedgerEntry[]) => void;
+  onFocus: (serviceId: string) => void;
+  addLog: AddLog;
+  onClose: () => void;
+}) {
+  const [imported, setImported] = useState<{ name: string; entries: LedgerEntry[] } | null>(null);
+  const entries = imported ? imported.entries : ledger;
+  const verification = useMemo(() => verifyLedger(entries), [entries]);
+
+  const brokenIndex = verification.brokenIndex ?? -1;
+  const shown = entries.map((entry, index) => ({ entry, index })).slice(-MAX_SHOWN).reverse();
+  // The broken entry is the point of the panel; keep it listed however old it is
+  const brokenHidden = brokenIndex >= 0 && brokenIndex < entries.length - MAX_SHOWN;
+
+  const exportLedger = () => {
+    const blob = new Blob([ledgerToJSONL(entries)], { type: 'application/jsonl' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = imported ? imported.name : ledgerFilename(pipelineName);
+    a.click();
+    URL.revokeObjectURL(url);
+    addLog('info', `Ledger exported as ${a.download} (${entries.length} entries)`);
+  };
+
+  const importLedger = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseLedgerJSONL(await file.text());
+      const result = verifyLedger(parsed);
+      setImported({ name: file.name, entries: parsed });
+      addLog(result.valid ? 'info' : 'error', result.valid
+        ? `Ledger ${file.name}: ${parsed.length} entries, chain intact`
+        : `Ledger ${file.name} is broken at #${result.brokenSeq ?? result.brokenIndex}: ${result.reason}`);
+    } catch (error: any) {
+      addLog('error', `Ledger import of ${file.name} failed: ${error?.message ?? error}`);
+    }
+  };
+
+  const continueImported = () => {
+    if (!imported) return;
+    try {
+      onContinue(imported.entries);
+      addLog('info', `Continuing ledger ${imported.name} from #${imported.entries[imported.entries.length - 1]?.seq ?? 0}`);
+      setImported(null);
+    } catch (error: any) {
+      addLog('error', `Cannot continue ${imported.name}: ${error?.message ?? error}`);
+    }
+  };
+
+  const renderRow = ({ entry, index }: { entry: LedgerEntry; index: number }) => (
+    <EntryRow
+      key={index}
+      entry={entry}
+      broken={index === brokenIndex ? verification.reason : undefined}
+      unverified={brokenIndex >= 0 && index > brokenIndex}
+      onFocus={onFocus}
+    />
+  );
+
+  return (
+    <div className="w-96 bg-gray-800 border-l border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between p-4">
+        <h3 className="font-bold text-green-400">Ledger</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <div className="px-4 pb-3 space-y-2 text-xs">
+        <div className="flex items-center justify-between text-gray-400">
+          <span>{imported ? `File ${imported.name}` : 'Live engine ledger'}</span>
+          {imported && <button onClick={() => setImported(null)} className="text-gray-300 hover:text-white">Back to live</button>}
+        </div>
+
+        <div className={`rounded p-2 ${verification.valid ? 'bg-green-900/40 text-green-300' : 'bg-red-900/40 text-red-300'}`}>
+          {verification.valid
+            ? `✓ Chain intact · ${entries.length} entries`
+            : `✗ Broken at #${verification.brokenSeq ?? verification.brokenIndex}: ${verification.reason}`}
+          <div className="text-gray-400 font-mono mt-1">
+            <div title={verification.anchor}>from {verification.anchor === GENESIS_HASH ? 'genesis' : `checkpoint, anchor ${short(verification.anchor)}`}</div>
+            <div title={verification.head}>head {short(verification.head)}</div>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={exportLedger} disabled={entries.length === 0} className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 px-2 py-1 rounded">
+            Export JSONL
+          </button>
+          <label className="flex-1 bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-center cursor-pointer">
+            Import JSONL
+            <input type="file" accept={`${LEDGER_FILE_SUFFIX},.jsonl`} onChange={importLedger} className="hidden" />
+          </label>
+        </div>
+        {imported && verification.valid && (
+          <button
+            onClick={continueImported}
+            disabled={!canContinue}
+            className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-40 px-2 py-1 rounded"
+            title={canContinue ? 'New entries chain onto this file' : 'Stop the engine first'}
+          >
+            Continue this ledger
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 pb-4 text-xs">
+        {entries.length === 0 ? (
+          <div className="text-gray-500">No entries yet. Every execution and status change is chained here.</div>
+        ) : (
+          <ul className="space-y-1">
+            {brokenHidden && renderRow({ entry: entries[brokenIndex], index: brokenIndex })}
+            {shown.map(renderRow)}
+            {entries.length > MAX_SHOWN && <li className="text-gray-500">…{entries.length - MAX_SHOWN} older entries not listed, still checked</li>}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,26 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { Download, Upload, Play, Square, Zap, Share2, MessageSquare, Clock, Save } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Download, Upload, Play, Square, Zap, Share2, MessageSquare, Clock, Save, Undo2, Redo2, GitCompare, Network, FlaskConical, Rewind, ShieldCheck } from 'lucide-react';
+import { useEdtEngine } from './use_edt_engine';
+import { useSpcHistory } from './use_spc_history';
+import { useVersionHistory, VersionHistoryPanel } from './version_history';
+import type { SpcVersion } from './version_store';
+import { CHANGE_STYLES } from './spc_diff_view';
+import { ComparePanel, overlayServices } from './spc_compare';
+import type { CompareSide } from './spc_compare';
+import { gridStyle, Minimap, nodeBounds, useViewport, viewportTransform, ZoomControls } from './canvas_viewport';
+import { InsertTemplateDialog, SaveTemplateDialog, TemplateSection, useTemplateLibrary } from './template_library';
+import { Marquee, nodesInBounds, SelectionBar, useMarquee, useSelection, useSelectionShortcuts } from './canvas_selection';
+import { CompositeSummary, ScopeTabs, useCompositeScope } from './composite_view';
+import { DataPreviewPanel } from './data_preview';
+import { TestsPanel } from './tests_panel';
+import { TimelinePanel } from './timeline_panel';
+import { LedgerPanel } from './ledger_panel';
+import { CYCLE_COLOR, StepBadge, useExecutionOrder, WaitingNote } from './execution_order';
+import { FailureBadge, FailurePanel } from './service_failures';
+import { availableKeys, changeKinds, compareRuns, COMPOSITE_SEPARATOR, compositeDoc, computeConnections, connectServices, copyServices, diffSPC, disconnect, duplicateServices, formatFromFilename, formatIssues, groupIntoComposite, hasErrors, inputSources, instantiateTemplate, issuesByService, issuesInScope, layoutServices, parseClipboard, parseSPC, pasteServices, placeNear, scopeDoc, SPC_FILE_ACCEPT, spcFilename, stringifySPC, validateSPC, withPositions, withRuntime } from '../engine';
+import type { PastedServices, Position, Service, SPC, SpcFormat, SpcTemplate, TickComparison, TickSnapshot } from '../engine';
+import { IssueBadge, IssueList } from './validation_issues';
+import { SpecEditor } from './spec_form';
 
 // ============================================================================
 // TYPES & CONSTANTS
@@ -8,85 +29,123 @@ import { Download, Upload, Play, Square, Zap, Share2, MessageSquare, Clock, Save
 const SERVICE_TYPES = {
   connector: { 
     color: 'bg-blue-500', 
+    hex: '#3b82f6',
     icon: '🔌',
     label: 'Connector',
     defaultSpec: { url: '', outputKey: '' }
   },
   processor: { 
     color: 'bg-purple-500', 
+    hex: '#a855f7',
     icon: '⚙️',
     label: 'Processor',
-    defaultSpec: { inputKey: '', outputKey: '', transform: [] }
+    defaultSpec: { inputKey: '', outputKey: '', transform: [], pipes: [] }
   },
   monitor: { 
     color: 'bg-yellow-500', 
+    hex: '#eab308',
     icon: '👁️',
     label: 'Monitor',
     defaultSpec: { checks: [], emit: 'onChange' }
   },
   adapter: { 
     color: 'bg-green-500', 
+    hex: '#22c55e',
     icon: '📤',
     label: 'Adapter',
     defaultSpec: { kind: 'webhook', url: '' }
   },
   aggregator: { 
     color: 'bg-orange-500', 
+    hex: '#f97316',
     icon: '📊',
     label: 'Aggregator',
     defaultSpec: { inputKey: '', window: { size_sec: 30 } }
   },
   vault: { 
     color: 'bg-red-500', 
+    hex: '#ef4444',
     icon: '🔐',
     label: 'Vault',
     defaultSpec: { provider: '', secrets: [] }
+  },
+  composite: {
+    color: 'bg-teal-600',
+    hex: '#0d9488',
+    icon: '📦',
+    label: 'Composite',
+    defaultSpec: { inputs: {}, outputs: {}, services: {} }
   }
 };
 
+/** Services without a stored position are drawn where auto layout would put them */
+function canvasNodesFor(services: Record<string, Service>) {
+  const layout = Object.values(services).some(service => !service.position) ? layoutServices(services, LAYOUT) : {};
+  return Object.entries(services).map(([id, service]) => ({
+    id,
+    type: service.type,
+    title: service.title || id,
+    spec: service.spec,
+    status: service.status || 'stopped',
+    lastRun: service.lastRun,
+    waiting: service.waiting,
+    nextRun: service.nextRun,
+    failures: service.failures,
+    lastError: service.lastError,
+    retryAt: service.retryAt,
+    circuitOpen: service.circuitOpen,
+    position: service.position || layout[id]
+  }));
+}
+
 // ============================================================================
 // MAIN CANVAS EDITOR COMPONENT
 // ============================================================================
 
 export default function PipelineEditor() {
-  const [spc, setSpc] = useState({
+  const { spc: doc, setSpc: setDoc, setRuntime, undo, redo, canUndo, canRedo } = useSpcHistory(() => ({
     spc_version: "1.0",
     meta: { name: "Untitled Pipeline", created_at: new Date().toISOString() },
     services: {},
     state: {}
-  });
-  
-  const [selectedService, setSelectedService] = useState(null);
+  }));
+  // While the timeline shows a past tick, statuses and state come from its snapshot; edits still reach `doc`
+  const [viewedTick, setViewedTick] = useState<TickSnapshot | null>(null);
+  const shownDoc = useMemo(() => (viewedTick ? withRuntime(doc, viewedTick.spc) : doc), [doc, viewedTick]);
+  // The canvas, inspector and palette edit the open tab: the whole pipeline or a composite inside it
+  const { scope, tabs, open, close, setScope, spc, setSpc, composite } = useCompositeScope(shownDoc, setDoc);
+
+  const { selection, setSelection, select, selectMany, clearSelection } = useSelection(spc.services);
+  // The inspector, and where new services go, follow the latest selected service
+  const selectedService = selection.length > 0 ? selection[selection.length - 1] : null;
   const [viewMode, setViewMode] = useState('split'); // 'canvas', 'json', 'split'
-  const [isRunning, setIsRunning] = useState(false);
   const [executionLog, setExecutionLog] = useState([]);
   const [jsonError, setJsonError] = useState(null);
+  const [fileFormat, setFileFormat] = useState<SpcFormat>('json');
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPreview, setShowPreview] = useState(false); // follows the selected service
+  const [showTests, setShowTests] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showLedger, setShowLedger] = useState(false);
+  const [comparison, setComparison] = useState<TickComparison[] | null>(null);
+  const [previewVersion, setPreviewVersion] = useState<SpcVersion | null>(null);
+  const [showCompare, setShowCompare] = useState(false);
+  const [compareLeft, setCompareLeft] = useState<CompareSide | null>(null); // null = current document
+  const [compareRight, setCompareRight] = useState<CompareSide | null>(null);
+  const [compareFocus, setCompareFocus] = useState<string | null>(null);
+  const [fitRequest, setFitRequest] = useState(null); // { bounds } to frame once
+  const [templateDialog, setTemplateDialog] = useState<{ insert: SpcTemplate } | { save: true } | null>(null);
   const [canvasNodes, setCanvasNodes] = useState([]);
-  const [connections, setConnections] = useState([]);
+  const connections = useMemo(() => computeConnections(spc.services), [spc.services]);
+  const executionOrder = useExecutionOrder(spc.services);
+
+  const issues = useMemo(() => validateSPC(doc), [doc]);
+  const serviceIssues = useMemo(() => issuesByService(scope.length > 0 ? issuesInScope(issues, scope) : issues), [issues, scope]);
+  const stateKeys = useMemo(() => availableKeys(composite ? compositeDoc(composite) : spc), [composite, spc]);
 
   // Sync SPC to Canvas Nodes
   useEffect(() => {
-    const nodes = Object.entries(spc.services).map(([id, service], idx) => ({
-      id,
-      type: service.type,
-      title: service.title || id,
-      spec: service.spec,
-      status: service.status || 'stopped',
-      position: service.position || { x: 100 + (idx % 3) * 250, y: 100 + Math.floor(idx / 3) * 150 }
-    }));
-    setCanvasNodes(nodes);
-
-    // Extract connections from inputKey references
-    const conns = [];
-    Object.entries(spc.services).forEach(([targetId, service]) => {
-      if (service.spec?.inputKey) {
-        const sourceKey = service.spec.inputKey.replace(/_data$|_output$/, '');
-        if (spc.services[sourceKey]) {
-          conns.push({ source: sourceKey, target: targetId });
-        }
-      }
-    });
-    setConnections(conns);
+    setCanvasNodes(canvasNodesFor(spc.services));
   }, [spc]);
 
   // ============================================================================
@@ -95,97 +154,155 @@ export default function PipelineEditor() {
 
   const addService = (type) => {
     const id = `${type}-${Date.now()}`;
-    const newService = {
+    const newService: Service = {
       id,
       type,
       title: `${SERVICE_TYPES[type].label} ${Object.keys(spc.services).length + 1}`,
       spec: { ...SERVICE_TYPES[type].defaultSpec },
       status: 'stopped',
-      position: { x: 100, y: 100 }
+      position: placeNear(spc.services, selectedService, LAYOUT)
     };
 
     setSpc(prev => ({
       ...prev,
       services: { ...prev.services, [id]: newService }
     }));
-    setSelectedService(id);
+    select(id);
   };
 
-  const updateService = (id, updates) => {
+  const updateService = (id, updates, coalesce?: string) => {
     setSpc(prev => ({
       ...prev,
       services: {
         ...prev.services,
         [id]: { ...prev.services[id], ...updates }
       }
+    }), { coalesce });
+  };
+
+  const deleteServices = (ids: string[]) => {
+    if (ids.length === 0) return;
+    setSpc(prev => ({
+      ...prev,
+      services: Object.fromEntries(Object.entries(prev.services).filter(([id]) => !ids.includes(id)))
     }));
+    addLog('info', `Deleted ${ids.join(', ')}`);
   };
 
-  const deleteService = (id) => {
-    setSpc(prev => {
-      const newServices = { ...prev.services };
-      delete newServices[id];
-      return { ...prev, services: newServices };
-    });
-    if (selectedService === id) setSelectedService(null);
+  // One undo step per drag, however many nodes move together
+  const moveNodes = (positions: Record<string, Position>) => {
+    setSpc(prev => ({
+      ...prev,
+      services: {
+        ...prev.services,
+        ...Object.fromEntries(Object.entries(positions).map(([id, position]) => [id, { ...prev.services[id], position }]))
+      }
+    }), { coalesce: `move:${Object.keys(positions)}` });
   };
 
-  const moveNode = (id, position) => {
-    updateService(id, { position });
+  const switchScope = (path: string[]) => {
+    clearSelection();
+    setScope(path);
   };
 
-  const exportSPC = () => {
-    const blob = new Blob([JSON.stringify(spc, null, 2)], { type: 'application/json' });
+  const openComposite = (id: string) => {
+    clearSelection();
+    open([...scope, id]);
+  };
+
+  // Engine ids are flattened, `composite/inner`; open the composite and select inside it
+  const focusService = (id: string) => {
+    const path = id.split(COMPOSITE_SEPARATOR);
+    const parent = path.slice(0, -1);
+    const serviceId = path[path.length - 1];
+    if (!scopeDoc(doc, parent)?.services[serviceId]) {
+      addLog('warn', `${id} is not in this pipeline`);
+      return;
+    }
+    if (parent.length > 0) open(parent); else setScope([]);
+    select(serviceId);
+  };
+
+  const groupSelection = () => {
+    const id = `composite-${Date.now()}`;
+    try {
+      const services = groupIntoComposite(spc, selection, { id, title: `Composite ${Object.keys(spc.services).length - selection.length + 1}` });
+      setSpc(prev => ({ ...prev, services }));
+      select(id);
+      addLog('info', `Grouped ${selection.join(', ')} into ${id}`);
+    } catch (error: any) {
+      addLog('error', `Group failed: ${error?.message ?? error}`);
+    }
+  };
+
+  const applyRewire = (result) => {
+    if (!result.ok) {
+      addLog('warn', result.message);
+      return;
+    }
+    updateService(result.serviceId, { spec: result.spec });
+    addLog('info', `🔗 ${result.message}`);
+  };
+
+  const connectNodes = (sourceId, targetId) => {
+    applyRewire(connectServices(spc.services, sourceId, targetId));
+  };
+
+  const deleteConnection = (conn) => {
+    applyRewire(disconnect(spc.services, conn));
+  };
+
+  const downloadSPC = (doc: SPC) => {
+    const type = fileFormat === 'yaml' ? 'application/yaml' : 'application/json';
+    const blob = new Blob([stringifySPC(doc, fileFormat)], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${spc.meta.name.replace(/\s+/g, '-').toLowerCase()}.spc.json`;
+    a.download = spcFilename(doc.meta.name, fileFormat);
     a.click();
     URL.revokeObjectURL(url);
-    addLog('info', 'SPC exported successfully');
+    return a.download;
+  };
+
+  const exportSPC = () => {
+    const filename = downloadSPC(doc);
+    addLog('info', `SPC exported as ${filename}`);
+    snapshot(doc, 'export', `Exported ${filename}`);
   };
 
   const importSPC = (event) => {
     const file = event.target.files[0];
     if (!file) return;
 
+    const format = formatFromFilename(file.name);
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const imported = JSON.parse(e.target.result);
-        if (!imported.spc_version || !imported.services) {
-          throw new Error('Invalid SPC format');
+        const imported = parseSPC(e.target.result as string, format) as SPC;
+        const importIssues = validateSPC(imported);
+        if (hasErrors(importIssues)) {
+          const errors = importIssues.filter(i => i.severity === 'error');
+          setJsonError(`Import refused: ${errors.length} error(s) in ${file.name}`);
+          addLog('error', `Import refused, ${file.name} is not a valid SPC:`);
+          formatIssues(errors).split('\n').forEach(line => addLog('error', line));
+          return;
         }
-        setSpc(imported);
+        const placed = withPositions(imported, LAYOUT);
+        setDoc(placed);
+        setFileFormat(format);
         setJsonError(null);
-        addLog('info', 'SPC imported successfully');
+        if (placed !== imported) setFitRequest({ bounds: nodeBounds(Object.values(placed.services), NODE_WIDTH, NODE_HEIGHT) });
+        addLog('info', importIssues.length > 0
+          ? `SPC imported with ${importIssues.length} warning(s)`
+          : 'SPC imported successfully');
       } catch (error) {
         setJsonError(error.message);
-        addLog('error', `Import failed: ${error.message}`);
+        addLog('error', `Import of ${file.name} failed: ${error.message}`);
       }
     };
     reader.readAsText(file);
   };
 
-  const runPipeline = () => {
-    setIsRunning(true);
-    addLog('info', '▶️ Pipeline started');
-    // In production, this would call the EDT engine
-    setTimeout(() => {
-      addLog('success', '✅ Pipeline executed successfully');
-      setIsRunning(false);
-    }, 2000);
-  };
-
-  const stopPipeline = () => {
-    setIsRunning(false);
-    addLog('warn', '⏹ Pipeline stopped');
-  };
-
-  const tickOnce = () => {
-    addLog('info', '⚡ Single tick executed');
-  };
-
   const addLog = (level, message) => {
     setExecutionLog(prev => [...prev, { 
       level, 
@@ -194,6 +311,171 @@ export default function PipelineEditor() {
     }].slice(-50));
   };
 
+  const { isRunning, run: runPipeline, stop: stopPipeline, tick: tickOnce, history: ticks, replay, ledger, restoreLedger, resetService } = useEdtEngine(doc, setRuntime, addLog);
+  const { versions, snapshot, remove: removeVersion } = useVersionHistory(doc.meta.name, addLog);
+
+  const runWithSnapshot = () => {
+    snapshot(doc, 'run', 'Run started');
+    runPipeline();
+  };
+
+  const saveVersion = async (message) => {
+    const saved = await snapshot(doc, 'manual', message);
+    if (saved) addLog('info', `Saved version "${message}"`);
+  };
+
+  const previewVersionFor = (version) => {
+    setPreviewVersion(version);
+    clearSelection();
+  };
+
+  const replayFrom = async (fromTick: number) => {
+    setViewedTick(null);
+    try {
+      const { original, rerun } = await replay(fromTick);
+      const result = compareRuns(original, rerun);
+      setComparison(result);
+      const differing = result.filter(c => !c.same).length;
+      addLog(differing ? 'warn' : 'info', `Re-ran from tick ${fromTick}: ${differing} of ${result.length} tick(s) differ from the original run`);
+    } catch (error: any) {
+      addLog('error', `Re-run failed: ${error.message}`);
+    }
+  };
+
+  const toggleCompare = () => {
+    setShowCompare(open => !open);
+    setShowHistory(false);
+    setPreviewVersion(null);
+    clearSelection();
+    setCompareFocus(null);
+  };
+
+  const loadCompareSide = (side, loaded) => {
+    (side === 'left' ? setCompareLeft : setCompareRight)(loaded);
+    setCompareFocus(null);
+    addLog('info', loaded ? `Comparing ${side}: ${loaded.label}` : 'Comparing against the current document');
+  };
+
+  const applyMergedSPC = (merged) => {
+    setDoc(merged);
+    setCompareLeft(null);
+    addLog('info', `Merged ${compareRight?.label} into the current document`);
+  };
+
+  const exportMergedSPC = (merged) => {
+    addLog('info', `Merged SPC exported as ${downloadSPC(merged)}`);
+  };
+
+  const autoLayout = () => {
+    const positions = layoutServices(spc.services, LAYOUT);
+    setSpc(prev => ({
+      ...prev,
+      services: Object.fromEntries(Object.entries(prev.services).map(([id, service]) => [id, { ...service, position: positions[id] ?? service.position }]))
+    }));
+    setFitRequest({ bounds: nodeBounds(Object.values(positions).map(position => ({ position })), NODE_WIDTH, NODE_HEIGHT) });
+    addLog('info', `Auto layout arranged ${Object.keys(positions).length} service(s)`);
+  };
+
+  const { templates, addTemplates, removeTemplate, importPack, exportPack } = useTemplateLibrary(addLog);
+
+  // New templates go to the right of everything already on the canvas
+  const insertTemplate = (template: SpcTemplate, values) => {
+    const instance = instantiateTemplate(template, values, spc, placeNear(spc.services, selectedService, LAYOUT));
+    setSpc(prev => ({
+      ...prev,
+      services: { ...prev.services, ...instance.services },
+      state: { ...prev.state, ...instance.state }
+    }));
+    setTemplateDialog(null);
+    setSelection(Object.values(instance.ids));
+    addLog('info', `Inserted template "${template.name}" as ${Object.keys(instance.services).join(', ')}`);
+  };
+
+  const saveTemplate = (template: SpcTemplate) => {
+    addTemplates([template]);
+    setTemplateDialog(null);
+    addLog('info', `Saved template "${template.name}" (${Object.keys(template.services).length} service(s))`);
+  };
+
+  const restoreVersion = (version) => {
+    setDoc(JSON.parse(JSON.stringify(version.spc)));
+    setPreviewVersion(null);
+    addLog('info', `Restored version "${version.message}" (${new Date(version.created_at).toLocaleString()})`);
+  };
+
+  // Preview shows the version read-only, coloured by what the current document changed since
+  const preview = useMemo(() => previewVersion && {
+    nodes: canvasNodesFor(previewVersion.spc.services),
+    connections: computeConnections(previewVersion.spc.services),
+    kinds: changeKinds(diffSPC(previewVersion.spc, doc))
+  }, [previewVersion, doc]);
+
+  // Compare overlays both sides, coloured by what changes going from left to right
+  const compareBase = compareLeft ?? { spc: doc, label: 'Current document' };
+  const compare = useMemo(() => {
+    if (!showCompare || !compareRight) return null;
+    const services = overlayServices(compareBase.spc, compareRight.spc);
+    return {
+      nodes: canvasNodesFor(services),
+      connections: computeConnections(services),
+      kinds: changeKinds(diffSPC(compareBase.spc, compareRight.spc))
+    };
+  }, [showCompare, compareBase.spc, compareRight]);
+  const overlay = compare ?? preview;
+
+  // ============================================================================
+  // CLIPBOARD
+  // ============================================================================
+
+  const addPasted = (pasted: PastedServices, verb: string) => {
+    setSpc(prev => withPositions({ ...prev, services: { ...prev.services, ...pasted.services } }, LAYOUT));
+    setSelection(Object.values(pasted.ids));
+    const names = Object.entries(pasted.ids).map(([from, to]) => (from === to ? to : `${from} → ${to}`));
+    addLog('info', `${verb} ${names.join(', ')}`);
+  };
+
+  const copySelection = () => {
+    if (selection.length === 0) return null;
+    addLog('info', `Copied ${selection.length} service(s)`);
+    return copyServices(spc, selection);
+  };
+
+  // Buttons have no clipboard event to write into, so they go through the async API
+  const writeClipboard = async (cut: boolean) => {
+    const text = copySelection();
+    if (text === null) return;
+    try {
+      await navigator.clipboard.writeText(text);
+      if (cut) deleteServices(selection);
+    } catch (error: any) {
+      addLog('error', `Clipboard unavailable: ${error?.message ?? error}`);
+    }
+  };
+
+  const pasteClipboard = (text: string) => {
+    try {
+      const fragment = parseClipboard(text);
+      if (!fragment) return false;
+      addPasted(pasteServices(spc, fragment), 'Pasted');
+    } catch (error: any) {
+      addLog('error', `Paste failed: ${error?.message ?? error}`);
+    }
+    return true;
+  };
+
+  const duplicateSelection = () => {
+    if (selection.length > 0) addPasted(duplicateServices(spc, selection), 'Duplicated');
+  };
+
+  useSelectionShortcuts({
+    enabled: !overlay,
+    onCopy: copySelection,
+    onCut: () => deleteServices(selection),
+    onPaste: pasteClipboard,
+    onDuplicate: duplicateSelection,
+    onDelete: () => deleteServices(selection)
+  });
+
   // ============================================================================
   // RENDER
   // ============================================================================
@@ -202,57 +484,204 @@ export default function PipelineEditor() {
     <div className="h-screen flex flex-col bg-gray-900 text-gray-100">
       {/* Top Toolbar */}
       <Toolbar
-        spc={spc}
-        setSpc={setSpc}
+        spc={doc}
+        setSpc={setDoc}
         isRunning={isRunning}
+        history={{ undo, redo, canUndo, canRedo }}
+        fileFormat={fileFormat}
+        setFileFormat={setFileFormat}
         onExport={exportSPC}
         onImport={importSPC}
-        onRun={runPipeline}
+        onRun={runWithSnapshot}
         onStop={stopPipeline}
         onTick={tickOnce}
+        onSave={() => saveVersion(`Saved ${new Date().toLocaleTimeString()}`)}
+        onToggleHistory={() => { setShowHistory(open => !open); setShowCompare(false); setShowTests(false); setShowTimeline(false); setShowLedger(false); }}
+        onToggleCompare={toggleCompare}
+        onToggleTests={() => { setShowTests(open => !open); setShowHistory(false); setShowTimeline(false); setShowLedger(false); }}
+        onToggleTimeline={() => { setShowTimeline(open => !open); setShowHistory(false); setShowTests(false); setShowLedger(false); }}
+        onToggleLedger={() => { setShowLedger(open => !open); setShowHistory(false); setShowTests(false); setShowTimeline(false); }}
+        onAutoLayout={autoLayout}
         viewMode={viewMode}
         setViewMode={setViewMode}
       />
 
+      <ScopeTabs doc={doc} tabs={tabs} scope={scope} onSelect={switchScope} onClose={close} />
+
       {/* Main Content Area */}
       <div className="flex-1 flex overflow-hidden">
         {/* Service Palette */}
-        <ServicePalette onAddService={addService} />
+        <ServicePalette onAddService={addService}>
+          <TemplateSection
+            templates={templates}
+            onPick={(template) => setTemplateDialog({ insert: template })}
+            onRemove={(template) => removeTemplate(template.id)}
+            onSaveSelection={() => setTemplateDialog({ save: true })}
+            onImport={importPack}
+            onExport={() => exportPack(fileFormat)}
+          />
+        </ServicePalette>
 
         {/* Canvas View */}
         {(viewMode === 'canvas' || viewMode === 'split') && (
           <CanvasView
-            nodes={canvasNodes}
-            connections={connections}
-            selectedService={selectedService}
-            onSelectService={setSelectedService}
-            onMoveNode={moveNode}
-            onDeleteService={deleteService}
+            nodes={overlay ? overlay.nodes : canvasNodes}
+            connections={overlay ? overlay.connections : connections}
+            readOnly={!!overlay}
+            changeKinds={overlay?.kinds}
+            banner={compare ? (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-gray-800/90 border border-gray-600 rounded px-3 py-1.5 text-xs flex items-center gap-2" style={{ zIndex: 30 }}>
+                <span className="text-gray-300">{compareBase.label}</span>
+                <span className="text-gray-500">→</span>
+                <span className="text-gray-300">{compareRight.label}</span>
+                <span className="text-gray-500">· read-only</span>
+              </div>
+            ) : previewVersion ? (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-blue-900/90 border border-blue-500 rounded px-3 py-1.5 text-xs flex items-center gap-3" style={{ zIndex: 30 }}>
+                <span>Previewing “{previewVersion.message}” · read-only</span>
+                <button onClick={() => restoreVersion(previewVersion)} className="text-green-400 hover:text-green-300">Restore</button>
+                <button onClick={() => setPreviewVersion(null)} className="text-gray-300 hover:text-white">Back to current</button>
+              </div>
+            ) : selection.length > 1 && (
+              <SelectionBar
+                count={selection.length}
+                onCopy={() => writeClipboard(false)}
+                onCut={() => writeClipboard(true)}
+                onDuplicate={duplicateSelection}
+                onDelete={() => deleteServices(selection)}
+                onGroup={groupSelection}
+                onClear={clearSelection}
+              />
+            )}
+            selection={compare ? (compareFocus ? [compareFocus] : []) : selection}
+            onSelect={compare ? setCompareFocus : preview ? () => {} : select}
+            onSelectMany={selectMany}
+            onClearSelection={compare ? () => setCompareFocus(null) : clearSelection}
+            onMoveNodes={moveNodes}
+            onDeleteService={(id) => deleteServices([id])}
+            onOpenComposite={openComposite}
+            onConnect={connectNodes}
+            onDeleteConnection={deleteConnection}
+            serviceIssues={serviceIssues}
+            executionOrder={executionOrder}
+            fitRequest={fitRequest}
           />
         )}
 
         {/* JSON Editor */}
         {(viewMode === 'json' || viewMode === 'split') && (
           <JsonEditor
-            spc={spc}
-            setSpc={setSpc}
+            spc={doc}
+            setSpc={setDoc}
+            format={fileFormat}
+            setFormat={setFileFormat}
             jsonError={jsonError}
             setJsonError={setJsonError}
+            issues={issues}
           />
         )}
 
         {/* Inspector Panel */}
-        {selectedService && (
+        {selection.length === 1 && (
           <InspectorPanel
+            key={selectedService}
             service={spc.services[selectedService]}
-            onUpdate={(updates) => updateService(selectedService, updates)}
-            onClose={() => setSelectedService(null)}
+            issues={serviceIssues[selectedService] || []}
+            stateKeys={stateKeys}
+            serviceIds={Object.keys(spc.services)}
+            onUpdate={(updates) => updateService(selectedService, updates, `edit:${selectedService}:${Object.keys(updates)}`)}
+            onPreview={() => setShowPreview(open => !open)}
+            onReset={() => resetService([...scope, selectedService].join(COMPOSITE_SEPARATOR))}
+            onClose={clearSelection}
+          />
+        )}
+
+        {/* Version History */}
+        {showHistory && (
+          <VersionHistoryPanel
+            spc={doc}
+            versions={versions}
+            onSave={saveVersion}
+            onRestore={restoreVersion}
+            onDelete={(version) => {
+              if (previewVersion?.id === version.id) setPreviewVersion(null);
+              removeVersion(version.id);
+            }}
+            onPreview={previewVersionFor}
+            previewId={previewVersion?.id}
+            onClose={() => { setShowHistory(false); setPreviewVersion(null); }}
+          />
+        )}
+
+        {/* Tests */}
+        {showTests && <TestsPanel spc={doc} addLog={addLog} onClose={() => setShowTests(false)} />}
+
+        {/* Timeline */}
+        {showTimeline && (
+          <TimelinePanel
+            history={ticks}
+            viewTick={viewedTick?.tick ?? null}
+            onView={(tick) => setViewedTick(tick === null ? null : ticks.find(s => s.tick === tick) ?? null)}
+            onReplay={replayFrom}
+            canReplay={!isRunning}
+            comparison={comparison}
+            onClose={() => { setShowTimeline(false); setViewedTick(null); }}
+          />
+        )}
+
+        {/* Ledger */}
+        {showLedger && (
+          <LedgerPanel
+            ledger={ledger}
+            pipelineName={doc.meta.name}
+            canContinue={!isRunning}
+            onContinue={restoreLedger}
+            onFocus={focusService}
+            addLog={addLog}
+            onClose={() => setShowLedger(false)}
+          />
+        )}
+
+        {/* Compare & Merge */}
+        {showCompare && (
+          <ComparePanel
+            left={compareBase}
+            right={compareRight}
+            leftIsFile={!!compareLeft}
+            onLoad={loadCompareSide}
+            onUseMerged={applyMergedSPC}
+            onExportMerged={exportMergedSPC}
+            onError={(message) => addLog('error', `Compare: ${message}`)}
+            focusId={compareFocus}
+            onFocus={setCompareFocus}
+            onClose={toggleCompare}
           />
         )}
       </div>
 
+      {/* Data Preview */}
+      {showPreview && !overlay && selection.length === 1 && (
+        <DataPreviewPanel doc={shownDoc} scope={scope} serviceId={selectedService} onClose={() => setShowPreview(false)} />
+      )}
+
       {/* Bottom Execution Log */}
       <ExecutionLog logs={executionLog} />
+
+      {templateDialog && 'insert' in templateDialog && (
+        <InsertTemplateDialog
+          template={templateDialog.insert}
+          onInsert={(values) => insertTemplate(templateDialog.insert, values)}
+          onClose={() => setTemplateDialog(null)}
+        />
+      )}
+      {templateDialog && 'save' in templateDialog && (
+        <SaveTemplateDialog
+          services={spc.services}
+          selected={selection}
+          onSave={saveTemplate}
+          onClose={() => setTemplateDialog(null)}
+        />
+      )}
     </div>
   );
 }
@@ -261,7 +690,7 @@ export default function PipelineEditor() {
 // TOOLBAR COMPONENT
 // ============================================================================
 
-function Toolbar({ spc, setSpc, isRunning, onExport, onImport, onRun, onStop, onTick, viewMode, setViewMode }) {
+function Toolbar({ spc, setSpc, isRunning, history, fileFormat, setFileFormat, onExport, onImport, onRun, onStop, onTick, onSave, onToggleHistory, onToggleCompare, onToggleTests, onToggleTimeline, onToggleLedger, onAutoLayout, viewMode, setViewMode }) {
   return (
     <div className="bg-gray-800 border-b border-gray-700 px-4 py-3 flex items-center justify-between">
       <div className="flex items-center gap-4">
@@ -269,22 +698,41 @@ function Toolbar({ spc, setSpc, isRunning, onExport, onImport, onRun, onStop, on
         <input
           type="text"
           value={spc.meta.name}
-          onChange={(e) => setSpc(prev => ({ ...prev, meta: { ...prev.meta, name: e.target.value } }))}
+          onChange={(e) => setSpc(prev => ({ ...prev, meta: { ...prev.meta, name: e.target.value } }), { coalesce: 'meta.name' })}
           className="bg-gray-700 px-3 py-1 rounded border border-gray-600 text-sm"
           placeholder="Pipeline name"
         />
       </div>
 
       <div className="flex items-center gap-2">
+        {/* History */}
+        <button onClick={history.undo} disabled={!history.canUndo} className="btn-toolbar disabled:opacity-40" title="Undo (Ctrl+Z)">
+          <Undo2 size={16} />
+        </button>
+        <button onClick={history.redo} disabled={!history.canRedo} className="btn-toolbar disabled:opacity-40" title="Redo (Ctrl+Shift+Z)">
+          <Redo2 size={16} />
+        </button>
+
+        <div className="w-px h-6 bg-gray-600 mx-2" />
+
         {/* File Operations */}
-        <button onClick={onExport} className="btn-toolbar" title="Export SPC">
+        <button onClick={onExport} className="btn-toolbar" title={`Export SPC as ${fileFormat.toUpperCase()}`}>
           <Download size={16} />
         </button>
-        <label className="btn-toolbar cursor-pointer" title="Import SPC">
+        <select
+          value={fileFormat}
+          onChange={(e) => setFileFormat(e.target.value)}
+          className="bg-gray-700 px-1 py-1 rounded border border-gray-600 text-xs"
+          title="File format for export"
+        >
+          <option value="json">.json</option>
+          <option value="yaml">.yaml</option>
+        </select>
+        <label className="btn-toolbar cursor-pointer" title="Import SPC (.json, .yaml)">
           <Upload size={16} />
-          <input type="file" accept=".json" onChange={onImport} className="hidden" />
+          <input type="file" accept={SPC_FILE_ACCEPT} onChange={onImport} className="hidden" />
         </label>
-        <button className="btn-toolbar" title="Save to Cloud">
+        <button onClick={onSave} className="btn-toolbar" title="Save a version">
           <Save size={16} />
         </button>
 
@@ -303,6 +751,9 @@ function Toolbar({ spc, setSpc, isRunning, onExport, onImport, onRun, onStop, on
         <button onClick={onTick} className="btn-toolbar" title="Tick Once">
           <Zap size={16} />
         </button>
+        <button onClick={onAutoLayout} className="btn-toolbar" title="Auto layout">
+          <Network size={16} />
+        </button>
 
         <div className="w-px h-6 bg-gray-600 mx-2" />
 
@@ -337,9 +788,21 @@ function Toolbar({ spc, setSpc, isRunning, onExport, onImport, onRun, onStop, on
         <button className="btn-toolbar" title="Comments">
           <MessageSquare size={16} />
         </button>
-        <button className="btn-toolbar" title="Version History">
+        <button onClick={onToggleHistory} className="btn-toolbar" title="Version History">
           <Clock size={16} />
         </button>
+        <button onClick={onToggleCompare} className="btn-toolbar" title="Compare & Merge">
+          <GitCompare size={16} />
+        </button>
+        <button onClick={onToggleTests} className="btn-toolbar" title="Tests">
+          <FlaskConical size={16} />
+        </button>
+        <button onClick={onToggleTimeline} className="btn-toolbar" title="Timeline">
+          <Rewind size={16} />
+        </button>
+        <button onClick={onToggleLedger} className="btn-toolbar" title="Ledger">
+          <ShieldCheck size={16} />
+        </button>
       </div>
     </div>
   );
@@ -349,7 +812,7 @@ function Toolbar({ spc, setSpc, isRunning, onExport, onImport, onRun, onStop, on
 // SERVICE PALETTE
 // ============================================================================
 
-function ServicePalette({ onAddService }) {
+function ServicePalette({ onAddService, children }) {
   return (
     <div className="w-48 bg-gray-800 border-r border-gray-700 p-4 overflow-y-auto">
       <h3 className="text-xs font-bold text-gray-400 mb-3 uppercase">Primitives</h3>
@@ -366,15 +829,7 @@ function ServicePalette({ onAddService }) {
         ))}
       </div>
 
-      <div className="mt-6 pt-6 border-t border-gray-700">
-        <h3 className="text-xs font-bold text-gray-400 mb-3 uppercase">Templates</h3>
-        <button className="w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm text-left">
-          📋 API Monitor
-        </button>
-        <button className="w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm text-left mt-2">
-          🔄 ETL Pipeline
-        </button>
-      </div>
+      {children}
     </div>
   );
 }
@@ -383,111 +838,279 @@ function ServicePalette({ onAddService }) {
 // CANVAS VIEW (Simplified Visual Editor)
 // ============================================================================
 
-function CanvasView({ nodes, connections, selectedService, onSelectService, onMoveNode, onDeleteService }) {
-  const [draggedNode, setDraggedNode] = useState(null);
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+const NODE_WIDTH = 200;
+/** Approximate, for fitting and the minimap */
+const NODE_HEIGHT = 90;
+const LAYOUT = { nodeWidth: NODE_WIDTH, nodeHeight: NODE_HEIGHT };
+const HANDLE_Y = 35;
+const HANDLE_GAP = 16;
+
+function CanvasView({ nodes, connections, selection, onSelect, onSelectMany, onClearSelection, onMoveNodes, onDeleteService, onOpenComposite, onConnect, onDeleteConnection, serviceIssues, executionOrder, readOnly = false, changeKinds = undefined, banner = null, fitRequest = null }) {
+  const canvasRef = useRef(null);
+  const { viewport, size, isPanning, toWorld, startPan, zoomAt, fitBounds, centerOn, reset } = useViewport(canvasRef);
+  const [drag, setDrag] = useState(null); // { from, origins: { id: position } }
+  const [pendingConnection, setPendingConnection] = useState(null); // { source, x, y }
+  const [selectedConnection, setSelectedConnection] = useState(null);
+  const { marquee, startMarquee } = useMarquee(toWorld, (bounds) => {
+    onSelectMany(nodesInBounds(nodes, bounds, NODE_WIDTH, NODE_HEIGHT), true);
+  });
+
+  // One input handle per upstream service, stacked down the left edge
+  const handleSources = useMemo(() => inputSources(connections), [connections]);
+  const inputY = (targetId, sourceId) => HANDLE_Y + Math.max(0, (handleSources[targetId] || []).indexOf(sourceId)) * HANDLE_GAP;
+
+  // After auto layout or an import that needed one, frame the result
+  useEffect(() => {
+    if (fitRequest) fitBounds(fitRequest.bounds);
+  }, [fitRequest, fitBounds]);
+
+  useEffect(() => {
+    const onKeyDown = (e) => {
+      if (!selectedConnection || readOnly) return;
+      if (e.target.closest?.('input, textarea, select')) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        const conn = connections.find(c => c.id === selectedConnection);
+        if (conn) onDeleteConnection(conn);
+        setSelectedConnection(null);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [selectedConnection, connections, onDeleteConnection, readOnly]);
 
+  // Dragging a selected node moves the whole selection with it
   const handleMouseDown = (e, node) => {
-    const rect = e.currentTarget.getBoundingClientRect();
-    setDragOffset({
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top
+    if (readOnly) {
+      onSelect(node.id);
+      return;
+    }
+    setSelectedConnection(null);
+    if (e.shiftKey) {
+      onSelect(node.id, true);
+      return;
+    }
+    const ids = selection.includes(node.id) ? selection : [node.id];
+    if (!selection.includes(node.id)) onSelect(node.id);
+    setDrag({
+      from: toWorld(e),
+      origins: Object.fromEntries(nodes.filter(n => ids.includes(n.id)).map(n => [n.id, n.position]))
     });
-    setDraggedNode(node.id);
-    onSelectService(node.id);
+  };
+
+  const startConnection = (e, node) => {
+    e.stopPropagation();
+    setPendingConnection({ source: node.id, ...toWorld(e) });
+  };
+
+  const completeConnection = (e, node) => {
+    if (!pendingConnection) return;
+    e.stopPropagation();
+    if (pendingConnection.source !== node.id) onConnect(pendingConnection.source, node.id);
+    setPendingConnection(null);
   };
 
   const handleMouseMove = (e) => {
-    if (!draggedNode) return;
-    const canvas = e.currentTarget.getBoundingClientRect();
-    onMoveNode(draggedNode, {
-      x: e.clientX - canvas.left - dragOffset.x,
-      y: e.clientY - canvas.top - dragOffset.y
-    });
+    if (pendingConnection) {
+      setPendingConnection(prev => ({ ...prev, ...toWorld(e) }));
+      return;
+    }
+    if (!drag) return;
+    const pos = toWorld(e);
+    const dx = pos.x - drag.from.x;
+    const dy = pos.y - drag.from.y;
+    onMoveNodes(Object.fromEntries(Object.entries(drag.origins).map(([id, origin]: [string, any]) => [id, { x: origin.x + dx, y: origin.y + dy }])));
   };
 
   const handleMouseUp = () => {
-    setDraggedNode(null);
+    setDrag(null);
+    setPendingConnection(null);
   };
 
+  const edgePath = (x1, y1, x2, y2) => `M ${x1} ${y1} C ${x1 + 50} ${y1}, ${x2 - 50} ${y2}, ${x2} ${y2}`;
+  const pendingSource = pendingConnection && nodes.find(n => n.id === pendingConnection.source);
+  const selectedNodes = nodes.filter(n => selection.includes(n.id));
+
   return (
     <div
-      className="flex-1 bg-gray-900 relative overflow-hidden"
+      ref={canvasRef}
+      className={`flex-1 bg-gray-900 relative overflow-hidden ${isPanning ? 'cursor-grabbing' : ''}`}
+      onMouseDown={(e) => {
+        if (e.target !== e.currentTarget) return;
+        setSelectedConnection(null);
+        if (e.shiftKey && !readOnly) startMarquee(e);
+        else startPan(e, onClearSelection);
+      }}
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
-      style={{ backgroundImage: 'radial-gradient(circle, #333 1px, transparent 1px)', backgroundSize: '20px 20px' }}
+      style={{ backgroundImage: 'radial-gradient(circle, #333 1px, transparent 1px)', ...gridStyle(viewport) }}
     >
-      {/* Connections */}
-      <svg className="absolute inset-0 pointer-events-none" style={{ zIndex: 1 }}>
-        {connections.map((conn, idx) => {
-          const sourceNode = nodes.find(n => n.id === conn.source);
-          const targetNode = nodes.find(n => n.id === conn.target);
-          if (!sourceNode || !targetNode) return null;
-
-          const x1 = sourceNode.position.x + 100;
-          const y1 = sourceNode.position.y + 35;
-          const x2 = targetNode.position.x;
-          const y2 = targetNode.position.y + 35;
-
-          return (
-            <g key={idx}>
-              <path
-                d={`M ${x1} ${y1} C ${x1 + 50} ${y1}, ${x2 - 50} ${y2}, ${x2} ${y2}`}
-                stroke="#00ff88"
-                strokeWidth="2"
-                fill="none"
-                opacity="0.5"
-              />
-              <circle cx={x2} cy={y2} r="4" fill="#00ff88" />
-            </g>
-          );
-        })}
-      </svg>
-
-      {/* Nodes */}
-      {nodes.map(node => (
-        <div
-          key={node.id}
-          onMouseDown={(e) => handleMouseDown(e, node)}
-          className={`absolute cursor-move transition-shadow ${
-            selectedService === node.id ? 'ring-2 ring-green-400' : ''
-          }`}
-          style={{
-            left: node.position.x,
-            top: node.position.y,
-            width: 200,
-            zIndex: draggedNode === node.id ? 10 : 2
-          }}
-        >
-          <div className={`${SERVICE_TYPES[node.type].color} p-3 rounded-t`}>
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <span className="text-xl">{SERVICE_TYPES[node.type].icon}</span>
-                <span className="font-bold text-sm text-white">{node.title}</span>
+      {/* World layer: positions below are world coordinates */}
+      <div className="absolute left-0 top-0" style={{ transform: viewportTransform(viewport), transformOrigin: '0 0' }}>
+        {/* Connections */}
+        <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width="1" height="1" style={{ zIndex: 1 }}>
+          {connections.map(conn => {
+            const sourceNode = nodes.find(n => n.id === conn.source);
+            const targetNode = nodes.find(n => n.id === conn.target);
+            if (!sourceNode || !targetNode) return null;
+
+            const x1 = sourceNode.position.x + NODE_WIDTH;
+            const y1 = sourceNode.position.y + HANDLE_Y;
+            const x2 = targetNode.position.x;
+            const y2 = targetNode.position.y + inputY(conn.target, conn.source);
+            const isSelected = selectedConnection === conn.id;
+            const inCycle = !readOnly && executionOrder.isCycleEdge(conn);
+            const color = inCycle ? CYCLE_COLOR : conn.kind === 'route' ? '#facc15' : '#00ff88';
+            const dashed = conn.kind === 'route' || conn.via === 'reference';
+
+            return (
+              <g key={conn.id}>
+                <path
+                  d={edgePath(x1, y1, x2, y2)}
+                  stroke="transparent"
+                  strokeWidth="12"
+                  fill="none"
+                  style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+                  onMouseDown={(e) => { e.stopPropagation(); setSelectedConnection(conn.id); onClearSelection(); }}
+                >
+                  <title>{conn.kind === 'route' ? `${conn.source} → ${conn.target} (${conn.via})` : `${conn.key} (${conn.via})`}</title>
+                </path>
+                <path
+                  d={edgePath(x1, y1, x2, y2)}
+                  stroke={isSelected ? '#ffffff' : color}
+                  strokeWidth={isSelected ? 3 : 2}
+                  strokeDasharray={dashed ? '6 4' : undefined}
+                  fill="none"
+                  opacity={isSelected || inCycle ? 1 : 0.5}
+                />
+                <circle cx={x2} cy={y2} r="4" fill={color} />
+                {isSelected && (
+                  <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 8} fill="#ffffff" fontSize="10" textAnchor="middle">
+                    {conn.key ?? conn.via} · Del to remove
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {pendingSource && (
+            <path
+              d={edgePath(pendingSource.position.x + NODE_WIDTH, pendingSource.position.y + HANDLE_Y, pendingConnection.x, pendingConnection.y)}
+              stroke="#00ff88"
+              strokeWidth="2"
+              strokeDasharray="4 4"
+              fill="none"
+            />
+          )}
+        </svg>
+
+        {/* Nodes */}
+        {nodes.map(node => (
+          <div
+            key={node.id}
+            onMouseDown={(e) => handleMouseDown(e, node)}
+            className={`absolute transition-shadow ${readOnly ? 'cursor-default' : 'cursor-move'} ${
+              changeKinds?.[node.id] ? CHANGE_STYLES[changeKinds[node.id]].ring :
+              selection.includes(node.id) ? 'ring-2 ring-green-400' :
+              !readOnly && executionOrder.inCycle.has(node.id) ? 'ring-2 ring-red-500' : ''
+            } ${readOnly && selection.includes(node.id) ? 'outline outline-2 outline-offset-4 outline-white' : ''}`}
+            style={{
+              left: node.position.x,
+              top: node.position.y,
+              width: NODE_WIDTH,
+              zIndex: drag?.origins[node.id] ? 10 : 2
+            }}
+          >
+            {!readOnly && <IssueBadge issues={serviceIssues[node.id]} />}
+            {!readOnly && <StepBadge step={executionOrder.steps[node.id]} inCycle={executionOrder.inCycle.has(node.id)} />}
+            <FailureBadge service={node} />
+            <div className={`${SERVICE_TYPES[node.type].color} p-3 rounded-t`}>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="text-xl">{SERVICE_TYPES[node.type].icon}</span>
+                  <span className="font-bold text-sm text-white">{node.title}</span>
+                </div>
+                {!readOnly && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDeleteService(node.id);
+                    }}
+                    className="text-white hover:text-red-300 text-xs"
+                  >
+                    ✕
+                  </button>
+                )}
               </div>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onDeleteService(node.id);
-                }}
-                className="text-white hover:text-red-300 text-xs"
-              >
-                ✕
-              </button>
             </div>
-          </div>
-          <div className="bg-gray-800 p-2 rounded-b border border-gray-700">
-            <div className="text-xs text-gray-400">
-              Status: <span className={node.status === 'running' ? 'text-green-400' : 'text-gray-500'}>
-                {node.status}
-              </span>
+            <div className="bg-gray-800 p-2 rounded-b border border-gray-700">
+              <div className="text-xs text-gray-400">
+                Status: <span className={
+                  node.status === 'running' ? 'text-green-400' :
+                  node.status === 'error' ? 'text-red-400' :
+                  'text-gray-500'
+                }>
+                  {node.status}
+                </span>
+              </div>
+              {node.lastRun && (
+                <div className="text-xs text-gray-500">
+                  Last run: {new Date(node.lastRun).toLocaleTimeString()}
+                </div>
+              )}
+              <WaitingNote service={node} />
+              {node.type === 'composite' && (
+                <CompositeSummary service={node} onOpen={readOnly ? undefined : () => onOpenComposite(node.id)} />
+              )}
             </div>
+
+            {/* Connection Handles */}
+            {!readOnly && (handleSources[node.id] || [null]).map((source, idx) => (
+              <div
+                key={source ?? 'input'}
+                onMouseDown={(e) => e.stopPropagation()}
+                onMouseUp={(e) => completeConnection(e, node)}
+                className={`absolute w-3 h-3 rounded-full border-2 border-gray-900 ${pendingConnection ? 'bg-green-400 scale-125' : 'bg-gray-500'}`}
+                style={{ left: -6, top: HANDLE_Y + idx * HANDLE_GAP - 6 }}
+                title={source ? `Input from ${source}` : 'Input'}
+              />
+            ))}
+            {!readOnly && (
+              <div
+                onMouseDown={(e) => startConnection(e, node)}
+                className="absolute w-3 h-3 rounded-full border-2 border-gray-900 bg-green-400 cursor-crosshair"
+                style={{ right: -6, top: HANDLE_Y - 6 }}
+                title="Drag to connect"
+              />
+            )}
           </div>
-        </div>
-      ))}
+        ))}
+
+        <Marquee bounds={marquee} />
+      </div>
+
+      <ZoomControls
+        zoom={viewport.zoom}
+        onZoom={(factor) => zoomAt(factor)}
+        onFit={() => fitBounds(nodeBounds(nodes, NODE_WIDTH, NODE_HEIGHT))}
+        onFitSelection={selectedNodes.length > 0 ? () => fitBounds(nodeBounds(selectedNodes, NODE_WIDTH, NODE_HEIGHT), 1.5) : undefined}
+        onReset={reset}
+      />
+      {nodes.length > 0 && (
+        <Minimap
+          nodes={nodes.map(node => ({ id: node.id, position: node.position, color: SERVICE_TYPES[node.type].hex }))}
+          nodeWidth={NODE_WIDTH}
+          nodeHeight={NODE_HEIGHT}
+          viewport={viewport}
+          size={size}
+          selectedIds={selection}
+          onCenter={centerOn}
+        />
+      )}
+
+      {banner}
 
       {nodes.length === 0 && (
-        <div className="absolute inset-0 flex items-center justify-center text-gray-600">
+        <div className="absolute inset-0 flex items-center justify-center text-gray-600 pointer-events-none">
           <div className="text-center">
             <p className="text-xl mb-2">👈 Drag a primitive from the palette to start</p>
             <p className="text-sm">Build your data pipeline visually</p>
@@ -502,20 +1125,28 @@ function CanvasView({ nodes, connections, selectedService, onSelectService, onMo
 // JSON EDITOR
 // ============================================================================
 
-function JsonEditor({ spc, setSpc, jsonError, setJsonError }) {
-  const [jsonText, setJsonText] = useState(JSON.stringify(spc, null, 2));
+function JsonEditor({ spc, setSpc, format, setFormat, jsonError, setJsonError, issues }) {
+  const [text, setText] = useState(() => stringifySPC(spc, format));
+  // what the text currently shows, so typing does not reformat it
+  const shownRef = useRef({ spc, format });
 
   useEffect(() => {
-    setJsonText(JSON.stringify(spc, null, 2));
-  }, [spc]);
+    const shown = shownRef.current;
+    if (shown.spc === spc && shown.format === format) return;
+    // a format switch from the toolbar drops a broken draft
+    if (shown.format !== format) setJsonError(null);
+    shownRef.current = { spc, format };
+    setText(stringifySPC(spc, format));
+  }, [spc, format]);
+
+  const handleTextChange = (e) => {
+    const value = e.target.value;
+    setText(value);
 
-  const handleJsonChange = (e) => {
-    const text = e.target.value;
-    setJsonText(text);
-    
     try {
-      const parsed = JSON.parse(text);
-      setSpc(parsed);
+      const parsed = parseSPC(value, format) as SPC;
+      shownRef.current = { spc: parsed, format };
+      setSpc(parsed, { coalesce: 'json' });
       setJsonError(null);
     } catch (error) {
       setJsonError(error.message);
@@ -525,12 +1156,32 @@ function JsonEditor({ spc, setSpc, jsonError, setJsonError }) {
   return (
     <div className="flex-1 bg-gray-900 border-l border-gray-700 flex flex-col">
       <div className="bg-gray-800 px-4 py-2 border-b border-gray-700 flex items-center justify-between">
-        <h3 className="text-sm font-bold text-gray-300">SPC JSON</h3>
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-bold text-gray-300">SPC</h3>
+          <div className="flex text-xs">
+            {['json', 'yaml'].map(mode => (
+              <button
+                key={mode}
+                onClick={() => setFormat(mode)}
+                disabled={!!jsonError && mode !== format}
+                className={`px-2 py-0.5 ${mode === format ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white disabled:opacity-40'}`}
+                title={jsonError && mode !== format ? 'Fix the error before switching' : undefined}
+              >
+                {mode.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
         {jsonError && <span className="text-red-400 text-xs">⚠️ {jsonError}</span>}
       </div>
+      {!jsonError && issues.length > 0 && (
+        <div className="max-h-32 overflow-y-auto bg-gray-800 px-4 py-2 border-b border-gray-700">
+          <IssueList issues={issues} />
+        </div>
+      )}
       <textarea
-        value={jsonText}
-        onChange={handleJsonChange}
+        value={text}
+        onChange={handleTextChange}
         className="flex-1 bg-gray-900 text-gray-100 font-mono text-xs p-4 resize-none focus:outline-none"
         spellCheck="false"
       />
@@ -542,15 +1193,26 @@ function JsonEditor({ spc, setSpc, jsonError, setJsonError }) {
 // INSPECTOR PANEL
 // ============================================================================
 
-function InspectorPanel({ service, onUpdate, onClose }) {
+function InspectorPanel({ service, issues, stateKeys, serviceIds, onUpdate, onPreview, onReset, onClose }) {
   return (
     <div className="w-80 bg-gray-800 border-l border-gray-700 p-4 overflow-y-auto">
       <div className="flex items-center justify-between mb-4">
         <h3 className="font-bold text-green-400">Inspector</h3>
-        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        <div className="flex items-center gap-3">
+          <button onClick={onPreview} className="text-xs text-gray-400 hover:text-white" title="Rows, describe() and before/after for this service">Data preview</button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
       </div>
 
       <div className="space-y-4">
+        <FailurePanel service={service} onReset={onReset} />
+
+        {issues.length > 0 && (
+          <div className="bg-gray-900 p-3 rounded">
+            <IssueList issues={issues} relative />
+          </div>
+        )}
+
         <div>
           <label className="block text-xs text-gray-400 mb-1">Title</label>
           <input
@@ -575,14 +1237,20 @@ function InspectorPanel({ service, onUpdate, onClose }) {
           >
             <option value="running">Running</option>
             <option value="stopped">Stopped</option>
+            <option value="error">Error</option>
           </select>
         </div>
 
         <div>
           <label className="block text-xs text-gray-400 mb-2">Spec</label>
-          <div className="bg-gray-900 p-3 rounded text-xs font-mono">
-            <pre>{JSON.stringify(service.spec, null, 2)}</pre>
-          </div>
+          <SpecEditor
+            type={service.type}
+            spec={service.spec}
+            onChange={(spec) => onUpdate({ spec })}
+            issues={issues}
+            stateKeys={stateKeys}
+            serviceIds={serviceIds}
+          />
         </div>
       </div>
     </div>
@@ -607,6 +1275,7 @@ function ExecutionLog({ logs }) {
               log.level === 'error' ? 'text-red-400' :
               log.level === 'warn' ? 'text-yellow-400' :
               log.level === 'success' ? 'text-green-400' :
+              log.level === 'lifecycle' ? 'text-blue-400' :
               'text-gray-300'
             }>
               {log.message}
@@ -1,32 +1,78 @@
-import React, { useState, useCallback } from 'react';
-import { Play, Square, Zap, Download, Upload, Save, GitBranch } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Play, Square, Zap, Download, Upload, Save, GitBranch, Undo2, Redo2, Clock, Network, FlaskConical, Rewind, ShieldCheck } from 'lucide-react';
+import { useEdtEngine } from './use_edt_engine';
+import { useSpcHistory } from './use_spc_history';
+import { useVersionHistory, VersionHistoryPanel } from './version_history';
+import { availableKeys, compareRuns, COMPOSITE_SEPARATOR, compositeDoc, computeConnections, connectServices, copyServices, disconnect, duplicateServices, formatFromFilename, formatIssues, groupIntoComposite, hasErrors, inputSources, issuesByService, issuesInScope, layoutServices, parseClipboard, parseSPC, pasteServices, placeNear, scopeDoc, SPC_FILE_ACCEPT, spcFilename, stringifySPC, validateSPC, withPositions, withRuntime } from '../engine';
+import type { PastedServices, SPC, SpcFormat, TickComparison, TickSnapshot } from '../engine';
+import { IssueBadge, IssueList } from './validation_issues';
+import { SpecEditor } from './spec_form';
+import { gridStyle, Minimap, nodeBounds, useViewport, viewportTransform, ZoomControls } from './canvas_viewport';
+import { Marquee, nodesInBounds, SelectionBar, useMarquee, useSelection, useSelectionShortcuts } from './canvas_selection';
+import { CompositeSummary, ScopeTabs, useCompositeScope } from './composite_view';
+import { DataPreviewPanel } from './data_preview';
+import { TestsPanel } from './tests_panel';
+import { TimelinePanel } from './timeline_panel';
+import { LedgerPanel } from './ledger_panel';
+import { CYCLE_COLOR, StepBadge, useExecutionOrder, WaitingNote } from './execution_order';
+import { FailureBadge, FailurePanel } from './service_failures';
 
 // ============================================================================
 // ENHANCED PIPELINE EDITOR WITH REACT-FLOW-LIKE FEATURES
 // ============================================================================
 
 const SERVICE_CONFIGS = {
-  connector: { color: 'from-blue-500 to-blue-600', icon: '🔌', bgColor: 'bg-blue-900/30' },
-  processor: { color: 'from-purple-500 to-purple-600', icon: '⚙️', bgColor: 'bg-purple-900/30' },
-  monitor: { color: 'from-yellow-500 to-yellow-600', icon: '👁️', bgColor: 'bg-yellow-900/30' },
-  adapter: { color: 'from-green-500 to-green-600', icon: '📤', bgColor: 'bg-green-900/30' },
-  aggregator: { color: 'from-orange-500 to-orange-600', icon: '📊', bgColor: 'bg-orange-900/30' },
-  vault: { color: 'from-red-500 to-red-600', icon: '🔐', bgColor: 'bg-red-900/30' }
+  connector: { color: 'from-blue-500 to-blue-600', icon: '🔌', bgColor: 'bg-blue-900/30', hex: '#3b82f6' },
+  processor: { color: 'from-purple-500 to-purple-600', icon: '⚙️', bgColor: 'bg-purple-900/30', hex: '#a855f7' },
+  monitor: { color: 'from-yellow-500 to-yellow-600', icon: '👁️', bgColor: 'bg-yellow-900/30', hex: '#eab308' },
+  adapter: { color: 'from-green-500 to-green-600', icon: '📤', bgColor: 'bg-green-900/30', hex: '#22c55e' },
+  aggregator: { color: 'from-orange-500 to-orange-600', icon: '📊', bgColor: 'bg-orange-900/30', hex: '#f97316' },
+  vault: { color: 'from-red-500 to-red-600', icon: '🔐', bgColor: 'bg-red-900/30', hex: '#ef4444' },
+  composite: { color: 'from-teal-500 to-teal-600', icon: '📦', bgColor: 'bg-teal-900/30', hex: '#14b8a6' }
 };
 
+const NODE_WIDTH = 240;
+/** Approximate, for fitting and the minimap */
+const NODE_HEIGHT = 110;
+const LAYOUT = { nodeWidth: NODE_WIDTH, nodeHeight: NODE_HEIGHT };
+const HANDLE_Y = 40;
+const HANDLE_GAP = 18;
+
 export default function EnhancedPipelineEditor() {
-  const [spc, setSpc] = useState({
+  const { spc: doc, setSpc: setDoc, setRuntime, undo, redo, canUndo, canRedo } = useSpcHistory(() => ({
     spc_version: "1.0",
     meta: { name: "My Pipeline", created_at: new Date().toISOString() },
     services: {},
     state: {}
+  }));
+  // While the timeline shows a past tick, statuses and state come from its snapshot; edits still reach `doc`
+  const [viewedTick, setViewedTick] = useState<TickSnapshot | null>(null);
+  const shownDoc = useMemo(() => (viewedTick ? withRuntime(doc, viewedTick.spc) : doc), [doc, viewedTick]);
+  // Everything below edits the open tab: the whole pipeline or a composite inside it
+  const { scope, tabs, open, close, setScope, spc, setSpc, composite } = useCompositeScope(shownDoc, setDoc);
+
+  const { selection, setSelection, select, selectMany, clearSelection } = useSelection(spc.services);
+  const selectedNode = selection.length > 0 ? selection[selection.length - 1] : null;
+  const [logs, setLogs] = useState([]);
+  const [pendingConnection, setPendingConnection] = useState(null); // { source, x, y }
+  const [selectedConnection, setSelectedConnection] = useState(null);
+  const [fileFormat, setFileFormat] = useState<SpcFormat>('json');
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPreview, setShowPreview] = useState(false); // follows the selected service
+  const [showTests, setShowTests] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showLedger, setShowLedger] = useState(false);
+  const [comparison, setComparison] = useState<TickComparison[] | null>(null);
+  const canvasRef = useRef(null);
+  const { viewport, size, isPanning, toWorld, startPan, zoomAt, fitBounds, centerOn, reset } = useViewport(canvasRef);
+  const { marquee, startMarquee } = useMarquee(toWorld, (bounds) => {
+    const nodes = Object.entries(spc.services).map(([id, service]) => ({ id, position: service.position }));
+    selectMany(nodesInBounds(nodes, bounds, NODE_WIDTH, NODE_HEIGHT), true);
   });
 
-  const [selectedNode, setSelectedNode] = useState(null);
-  const [isRunning, setIsRunning] = useState(false);
-  const [zoom, setZoom] = useState(1);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
-  const [logs, setLogs] = useState([]);
+  const issues = useMemo(() => validateSPC(doc), [doc]);
+  const serviceIssues = useMemo(() => issuesByService(scope.length > 0 ? issuesInScope(issues, scope) : issues), [issues, scope]);
+  const stateKeys = useMemo(() => availableKeys(composite ? compositeDoc(composite) : spc), [composite, spc]);
 
   // ============================================================================
   // SERVICE MANAGEMENT
@@ -46,105 +92,182 @@ export default function EnhancedPipelineEditor() {
           title: `${type} ${existingCount + 1}`,
           spec: getDefaultSpec(type),
           status: 'stopped',
-          position: { x: 300, y: 200 }
+          position: placeNear(prev.services, selectedNode, LAYOUT)
         }
       }
     }));
 
     addLog('info', `Added ${type} service: ${id}`);
-  }, [spc.services]);
+  }, [spc.services, selectedNode, setSpc]);
 
-  const updateService = useCallback((id, updates) => {
+  const updateService = useCallback((id, updates, coalesce?: string) => {
     setSpc(prev => ({
       ...prev,
       services: {
         ...prev.services,
         [id]: { ...prev.services[id], ...updates }
       }
+    }), { coalesce });
+  }, [setSpc]);
+
+  const deleteServices = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+    setSpc(prev => ({
+      ...prev,
+      services: Object.fromEntries(Object.entries(prev.services).filter(([id]) => !ids.includes(id)))
     }));
-  }, []);
+    addLog('warn', `Deleted service${ids.length > 1 ? 's' : ''}: ${ids.join(', ')}`);
+  }, [setSpc]);
 
-  const deleteService = useCallback((id) => {
-    setSpc(prev => {
-      const newServices = { ...prev.services };
-      delete newServices[id];
-      return { ...prev, services: newServices };
-    });
-    
-    if (selectedNode === id) setSelectedNode(null);
-    addLog('warn', `Deleted service: ${id}`);
-  }, [selectedNode]);
+  /** Moves `id`, and the rest of the selection with it when it is selected, by a world-space delta */
+  const moveServices = useCallback((id: string, dx: number, dy: number) => {
+    const ids = selection.includes(id) ? selection : [id];
+    setSpc(prev => ({
+      ...prev,
+      services: {
+        ...prev.services,
+        ...Object.fromEntries(ids.map(moved => {
+          const { x, y } = prev.services[moved].position;
+          return [moved, { ...prev.services[moved], position: { x: x + dx, y: y + dy } }];
+        }))
+      }
+    }), { coalesce: `move:${ids}` });
+  }, [selection, setSpc]);
 
   // ============================================================================
-  // EXECUTION CONTROLS
+  // CLIPBOARD
   // ============================================================================
 
-  const runPipeline = useCallback(() => {
-    setIsRunning(true);
-    addLog('success', '▶️ Pipeline execution started');
-    
-    // Simulate execution
-    let tick = 0;
-    const interval = setInterval(() => {
-      tick++;
-      addLog('info', `⚡ Tick ${tick} - Processing services...`);
-      
-      // Update service states
-      setSpc(prev => {
-        const updated = { ...prev };
-        Object.keys(updated.services).forEach(id => {
-          if (updated.services[id].status === 'running') {
-            updated.services[id].lastRun = new Date().toISOString();
-          }
-        });
-        return updated;
-      });
-
-      if (tick >= 5) {
-        clearInterval(interval);
-        setIsRunning(false);
-        addLog('success', '✅ Pipeline execution completed');
-      }
-    }, 1000);
-  }, []);
+  const addPasted = useCallback((pasted: PastedServices, verb: string) => {
+    setSpc(prev => withPositions({ ...prev, services: { ...prev.services, ...pasted.services } }, LAYOUT));
+    setSelection(Object.values(pasted.ids));
+    const names = Object.entries(pasted.ids).map(([from, to]) => (from === to ? to : `${from} → ${to}`));
+    addLog('success', `📋 ${verb} ${names.join(', ')}`);
+  }, [setSpc]);
+
+  const copySelection = useCallback(() => {
+    if (selection.length === 0) return null;
+    addLog('info', `📋 Copied ${selection.length} service(s)`);
+    return copyServices(spc, selection);
+  }, [spc, selection]);
+
+  // Buttons have no clipboard event to write into, so they go through the async API
+  const writeClipboard = async (cut: boolean) => {
+    const text = copySelection();
+    if (text === null) return;
+    try {
+      await navigator.clipboard.writeText(text);
+      if (cut) deleteServices(selection);
+    } catch (error: any) {
+      addLog('error', `Clipboard unavailable: ${error?.message ?? error}`);
+    }
+  };
 
-  const stopPipeline = useCallback(() => {
-    setIsRunning(false);
-    addLog('warn', '⏹ Pipeline stopped by user');
-  }, []);
+  const pasteClipboard = useCallback((text: string) => {
+    try {
+      const fragment = parseClipboard(text);
+      if (!fragment) return false;
+      addPasted(pasteServices(spc, fragment), 'Pasted');
+    } catch (error: any) {
+      addLog('error', `Paste failed: ${error?.message ?? error}`);
+    }
+    return true;
+  }, [spc, addPasted]);
 
-  const tickOnce = useCallback(() => {
-    addLog('info', '⚡ Manual tick executed');
-  }, []);
+  const duplicate = useCallback((ids: string[]) => {
+    if (ids.length > 0) addPasted(duplicateServices(spc, ids), 'Duplicated');
+  }, [spc, addPasted]);
+
+  // ============================================================================
+  // COMPOSITES
+  // ============================================================================
+
+  const switchScope = (path: string[]) => {
+    clearSelection();
+    setScope(path);
+  };
+
+  const openComposite = (id: string) => {
+    clearSelection();
+    open([...scope, id]);
+  };
+
+  // Engine ids are flattened, `composite/inner`; open the composite and select inside it
+  const focusService = (id: string) => {
+    const path = id.split(COMPOSITE_SEPARATOR);
+    const parent = path.slice(0, -1);
+    const serviceId = path[path.length - 1];
+    if (!scopeDoc(doc, parent)?.services[serviceId]) {
+      addLog('warn', `${id} is not in this pipeline`);
+      return;
+    }
+    if (parent.length > 0) open(parent); else setScope([]);
+    select(serviceId);
+  };
+
+  const groupSelection = () => {
+    const id = `composite-${Date.now()}`;
+    try {
+      const services = groupIntoComposite(spc, selection, { id, title: `composite ${Object.values(spc.services).filter(s => s.type === 'composite').length + 1}` });
+      setSpc(prev => ({ ...prev, services }));
+      select(id);
+      addLog('success', `📦 Grouped ${selection.join(', ')} into ${id}`);
+    } catch (error: any) {
+      addLog('error', `Group failed: ${error?.message ?? error}`);
+    }
+  };
+
+  useSelectionShortcuts({
+    enabled: true,
+    onCopy: copySelection,
+    onCut: () => deleteServices(selection),
+    onPaste: pasteClipboard,
+    onDuplicate: () => duplicate(selection),
+    onDelete: () => deleteServices(selection)
+  });
 
   // ============================================================================
   // FILE OPERATIONS
   // ============================================================================
 
   const exportSPC = useCallback(() => {
-    const json = JSON.stringify(spc, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
+    const type = fileFormat === 'yaml' ? 'application/yaml' : 'application/json';
+    const blob = new Blob([stringifySPC(doc, fileFormat)], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${spc.meta.name.replace(/\s+/g, '-')}.spc.json`;
+    a.download = spcFilename(doc.meta.name, fileFormat);
     a.click();
     URL.revokeObjectURL(url);
-    addLog('success', '📥 SPC exported successfully');
-  }, [spc]);
+    addLog('success', `📥 SPC exported as ${a.download}`);
+    snapshot(doc, 'export', `Exported ${a.download}`);
+  }, [doc, fileFormat]);
 
   const importSPC = useCallback((event) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    const format = formatFromFilename(file.name);
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const imported = JSON.parse(e.target.result);
-        setSpc(imported);
-        addLog('success', '📤 SPC imported successfully');
+        const imported = parseSPC(e.target.result as string, format) as SPC;
+        const importIssues = validateSPC(imported);
+        if (hasErrors(importIssues)) {
+          const errors = importIssues.filter(i => i.severity === 'error');
+          addLog('error', `Import refused, ${file.name} has ${errors.length} error(s):`);
+          formatIssues(errors).split('\n').forEach(line => addLog('error', line));
+          return;
+        }
+        const placed = withPositions(imported, LAYOUT);
+        setDoc(placed);
+        setFileFormat(format);
+        if (placed !== imported) fitBounds(nodeBounds(Object.values(placed.services), NODE_WIDTH, NODE_HEIGHT));
+        addLog('success', importIssues.length > 0
+          ? `📤 SPC imported with ${importIssues.length} warning(s)`
+          : '📤 SPC imported successfully');
       } catch (error) {
-        addLog('error', `Import failed: ${error.message}`);
+        addLog('error', `Import of ${file.name} failed: ${error.message}`);
       }
     };
     reader.readAsText(file);
@@ -162,114 +285,291 @@ export default function EnhancedPipelineEditor() {
     }].slice(-30));
   }, []);
 
+  const { isRunning, run: runPipeline, stop: stopPipeline, tick: tickOnce, history: ticks, replay, ledger, restoreLedger, resetService } = useEdtEngine(doc, setRuntime, addLog);
+  const { versions, snapshot, remove: removeVersion } = useVersionHistory(doc.meta.name, addLog);
+
+  const runWithSnapshot = () => {
+    snapshot(doc, 'run', 'Run started');
+    runPipeline();
+  };
+
+  const saveVersion = async (message) => {
+    const saved = await snapshot(doc, 'manual', message);
+    if (saved) addLog('success', `💾 Saved version "${message}"`);
+  };
+
+  const replayFrom = async (fromTick: number) => {
+    setViewedTick(null);
+    try {
+      const { original, rerun } = await replay(fromTick);
+      const result = compareRuns(original, rerun);
+      setComparison(result);
+      const differing = result.filter(c => !c.same).length;
+      addLog(differing ? 'warn' : 'success', differing
+        ? `⏪ Re-ran from tick ${fromTick}: ${differing} of ${result.length} tick(s) differ from the original run`
+        : `⏪ Re-ran from tick ${fromTick}: identical to the original run`);
+    } catch (error: any) {
+      addLog('error', `Re-run failed: ${error.message}`);
+    }
+  };
+
+  const autoLayout = () => {
+    const positions = layoutServices(spc.services, LAYOUT);
+    setSpc(prev => ({
+      ...prev,
+      services: Object.fromEntries(Object.entries(prev.services).map(([id, service]) => [id, { ...service, position: positions[id] ?? service.position }]))
+    }));
+    fitBounds(nodeBounds(Object.values(positions).map(position => ({ position })), NODE_WIDTH, NODE_HEIGHT));
+    addLog('info', `Auto layout arranged ${Object.keys(positions).length} service(s)`);
+  };
+
+  const restoreVersion = (version) => {
+    setDoc(JSON.parse(JSON.stringify(version.spc)));
+    addLog('info', `Restored version "${version.message}" (${new Date(version.created_at).toLocaleString()})`);
+  };
+
   const getDefaultSpec = (type) => {
     const defaults = {
       connector: { url: 'https://api.example.com/data', outputKey: `${type}_data` },
-      processor: { inputKey: '', outputKey: `${type}_output`, transform: [] },
+      processor: { inputKey: '', outputKey: `${type}_output`, transform: [], pipes: [] },
       monitor: { checks: [], emit: 'onChange' },
       adapter: { kind: 'webhook', url: 'https://hooks.example.com/webhook' },
       aggregator: { inputKey: '', window: { size_sec: 30 } },
-      vault: { provider: 'hashicorp-vault', secrets: [] }
+      vault: { provider: 'hashicorp-vault', secrets: [] },
+      composite: { inputs: {}, outputs: {}, services: {} }
     };
     return defaults[type] || {};
   };
 
-  const getConnections = useCallback(() => {
-    const connections = [];
-    Object.entries(spc.services).forEach(([targetId, service]) => {
-      if (service.spec?.inputKey) {
-        const sourceKey = service.spec.inputKey.replace(/_data$|_output$/, '');
-        if (spc.services[sourceKey]) {
-          connections.push({ 
-            source: sourceKey, 
-            target: targetId,
-            animated: isRunning 
-          });
-        }
+  const connections = useMemo(
+    () => computeConnections(spc.services).map(conn => ({ ...conn, animated: isRunning })),
+    [spc.services, isRunning]
+  );
+
+  const executionOrder = useExecutionOrder(spc.services);
+
+  // One input handle per upstream service, stacked down the left edge
+  const handleSources = useMemo(() => inputSources(connections), [connections]);
+  const inputY = (targetId, sourceId) => HANDLE_Y + Math.max(0, (handleSources[targetId] || []).indexOf(sourceId)) * HANDLE_GAP;
+
+  // ============================================================================
+  // CONNECTIONS
+  // ============================================================================
+
+  const applyRewire = useCallback((result) => {
+    if (!result.ok) {
+      addLog('warn', result.message);
+      return;
+    }
+    updateService(result.serviceId, { spec: result.spec });
+    addLog('info', `🔗 ${result.message}`);
+  }, [addLog, updateService]);
+
+  const startConnection = (e, sourceId) => {
+    e.stopPropagation();
+    setPendingConnection({ source: sourceId, ...toWorld(e) });
+  };
+
+  const completeConnection = (e, targetId) => {
+    if (!pendingConnection) return;
+    e.stopPropagation();
+    if (pendingConnection.source !== targetId) {
+      applyRewire(connectServices(spc.services, pendingConnection.source, targetId));
+    }
+    setPendingConnection(null);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e) => {
+      if (!selectedConnection) return;
+      if (e.target.closest?.('input, textarea, select')) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        const conn = connections.find(c => c.id === selectedConnection);
+        if (conn) applyRewire(disconnect(spc.services, conn));
+        setSelectedConnection(null);
       }
-    });
-    return connections;
-  }, [spc.services, isRunning]);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [selectedConnection, connections, spc.services, applyRewire]);
 
   // ============================================================================
   // RENDER
   // ============================================================================
 
   const services = Object.values(spc.services);
-  const connections = getConnections();
+  const edgePath = (x1, y1, x2, y2) => `M ${x1} ${y1} C ${x1 + 80} ${y1}, ${x2 - 80} ${y2}, ${x2} ${y2}`;
+  const pendingSource = pendingConnection && spc.services[pendingConnection.source];
 
   return (
     <div className="h-screen flex flex-col bg-gray-950 text-gray-100">
       {/* Header */}
       <Header 
-        spc={spc}
-        setSpc={setSpc}
+        spc={doc}
+        setSpc={setDoc}
+        history={{ undo, redo, canUndo, canRedo }}
+        fileFormat={fileFormat}
+        setFileFormat={setFileFormat}
         onExport={exportSPC}
         onImport={importSPC}
-        onRun={runPipeline}
+        onRun={runWithSnapshot}
         onStop={stopPipeline}
         onTick={tickOnce}
+        onSave={() => saveVersion(`Saved ${new Date().toLocaleTimeString()}`)}
+        onToggleHistory={() => { setShowHistory(open => !open); setShowTests(false); setShowTimeline(false); setShowLedger(false); }}
+        onToggleTests={() => { setShowTests(open => !open); setShowHistory(false); setShowTimeline(false); setShowLedger(false); }}
+        onToggleTimeline={() => { setShowTimeline(open => !open); setShowHistory(false); setShowTests(false); setShowLedger(false); }}
+        onToggleLedger={() => { setShowLedger(open => !open); setShowHistory(false); setShowTests(false); setShowTimeline(false); }}
+        onAutoLayout={autoLayout}
         isRunning={isRunning}
       />
 
+      <ScopeTabs doc={doc} tabs={tabs} scope={scope} onSelect={switchScope} onClose={close} />
+
       <div className="flex-1 flex overflow-hidden">
         {/* Left Sidebar - Palette */}
         <Sidebar onAddService={addService} />
 
         {/* Main Canvas */}
-        <div className="flex-1 relative bg-gray-950 overflow-hidden">
+        <div
+          ref={canvasRef}
+          className={`flex-1 relative bg-gray-950 overflow-hidden ${isPanning ? 'cursor-grabbing' : ''}`}
+          onMouseMove={(e) => pendingConnection && setPendingConnection(prev => ({ ...prev, ...toWorld(e) }))}
+          onMouseUp={() => setPendingConnection(null)}
+        >
           {/* Grid Background */}
           <div 
+            onMouseDown={(e) => {
+              setSelectedConnection(null);
+              if (e.shiftKey) startMarquee(e);
+              else startPan(e, clearSelection);
+            }}
             className="absolute inset-0"
             style={{
               backgroundImage: `
                 linear-gradient(to right, rgba(59, 130, 246, 0.1) 1px, transparent 1px),
                 linear-gradient(to bottom, rgba(59, 130, 246, 0.1) 1px, transparent 1px)
               `,
-              backgroundSize: '20px 20px'
+              ...gridStyle(viewport)
             }}
           />
 
-          {/* Canvas Content */}
-          <svg className="absolute inset-0 pointer-events-none" style={{ zIndex: 1 }}>
-            {connections.map((conn, idx) => {
-              const source = spc.services[conn.source];
-              const target = spc.services[conn.target];
-              if (!source || !target) return null;
-
-              const x1 = source.position.x + 120;
-              const y1 = source.position.y + 40;
-              const x2 = target.position.x;
-              const y2 = target.position.y + 40;
-
-              return (
-                <g key={idx}>
-                  <path
-                    d={`M ${x1} ${y1} C ${x1 + 80} ${y1}, ${x2 - 80} ${y2}, ${x2} ${y2}`}
-                    stroke={conn.animated ? '#10b981' : '#3b82f6'}
-                    strokeWidth="3"
-                    fill="none"
-                    opacity={conn.animated ? "1" : "0.5"}
-                    className={conn.animated ? 'animate-pulse' : ''}
-                  />
-                  <circle cx={x2} cy={y2} r="5" fill={conn.animated ? '#10b981' : '#3b82f6'} />
-                </g>
-              );
-            })}
-          </svg>
-
-          {/* Service Nodes */}
-          {services.map(service => (
-            <ServiceNode
-              key={service.id}
-              service={service}
-              isSelected={selectedNode === service.id}
-              isRunning={isRunning && service.status === 'running'}
-              onSelect={() => setSelectedNode(service.id)}
-              onMove={(pos) => updateService(service.id, { position: pos })}
-              onDelete={() => deleteService(service.id)}
+          {/* Canvas Content, in world coordinates */}
+          <div className="absolute left-0 top-0" style={{ transform: viewportTransform(viewport), transformOrigin: '0 0' }}>
+            <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width="1" height="1" style={{ zIndex: 1 }}>
+              {connections.map(conn => {
+                const source = spc.services[conn.source];
+                const target = spc.services[conn.target];
+                if (!source || !target) return null;
+
+                const x1 = source.position.x + NODE_WIDTH;
+                const y1 = source.position.y + HANDLE_Y;
+                const x2 = target.position.x;
+                const y2 = target.position.y + inputY(conn.target, conn.source);
+                const isSelected = selectedConnection === conn.id;
+                const inCycle = executionOrder.isCycleEdge(conn);
+                const color = inCycle ? CYCLE_COLOR : conn.kind === 'route' ? '#eab308' : conn.animated ? '#10b981' : '#3b82f6';
+
+                return (
+                  <g key={conn.id}>
+                    <path
+                      d={edgePath(x1, y1, x2, y2)}
+                      stroke="transparent"
+                      strokeWidth="14"
+                      fill="none"
+                      style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+                      onMouseDown={(e) => { e.stopPropagation(); setSelectedConnection(conn.id); clearSelection(); }}
+                    >
+                      <title>{conn.kind === 'route' ? `${conn.source} → ${conn.target} (${conn.via})` : `${conn.key} (${conn.via})`}</title>
+                    </path>
+                    <path
+                      d={edgePath(x1, y1, x2, y2)}
+                      stroke={isSelected ? '#f9fafb' : color}
+                      strokeWidth={isSelected ? 4 : 3}
+                      strokeDasharray={conn.kind === 'route' || conn.via === 'reference' ? '8 5' : undefined}
+                      fill="none"
+                      opacity={isSelected || conn.animated || inCycle ? "1" : "0.5"}
+                      className={conn.animated ? 'animate-pulse' : ''}
+                    />
+                    <circle cx={x2} cy={y2} r="5" fill={color} />
+                    {isSelected && (
+                      <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 10} fill="#f9fafb" fontSize="11" textAnchor="middle">
+                        {conn.key ?? conn.via} · Del to remove
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+
+              {pendingSource && (
+                <path
+                  d={edgePath(pendingSource.position.x + NODE_WIDTH, pendingSource.position.y + HANDLE_Y, pendingConnection.x, pendingConnection.y)}
+                  stroke="#10b981"
+                  strokeWidth="2"
+                  strokeDasharray="5 5"
+                  fill="none"
+                />
+              )}
+            </svg>
+
+            {/* Service Nodes */}
+            {services.map(service => (
+              <ServiceNode
+                key={service.id}
+                service={service}
+                isSelected={selection.includes(service.id)}
+                issues={serviceIssues[service.id]}
+                step={executionOrder.steps[service.id]}
+                inCycle={executionOrder.inCycle.has(service.id)}
+                isRunning={isRunning && service.status === 'running'}
+                inputs={handleSources[service.id] || []}
+                isConnecting={!!pendingConnection}
+                zoom={viewport.zoom}
+                onSelect={(additive) => {
+                  if (additive || !selection.includes(service.id)) select(service.id, additive);
+                  setSelectedConnection(null);
+                }}
+                onMove={(dx, dy) => moveServices(service.id, dx, dy)}
+                onDelete={() => deleteServices([service.id])}
+                onOpen={() => openComposite(service.id)}
+                onStartConnection={(e) => startConnection(e, service.id)}
+                onCompleteConnection={(e) => completeConnection(e, service.id)}
+              />
+            ))}
+
+            <Marquee bounds={marquee} />
+          </div>
+
+          {selection.length > 1 && (
+            <SelectionBar
+              count={selection.length}
+              onCopy={() => writeClipboard(false)}
+              onCut={() => writeClipboard(true)}
+              onDuplicate={() => duplicate(selection)}
+              onDelete={() => deleteServices(selection)}
+              onGroup={groupSelection}
+              onClear={clearSelection}
+            />
+          )}
+
+          <ZoomControls
+            zoom={viewport.zoom}
+            onZoom={(factor) => zoomAt(factor)}
+            onFit={() => fitBounds(nodeBounds(services, NODE_WIDTH, NODE_HEIGHT))}
+            onFitSelection={selection.length > 0 ? () => fitBounds(nodeBounds(selection.map(id => spc.services[id]), NODE_WIDTH, NODE_HEIGHT), 1.5) : undefined}
+            onReset={reset}
+          />
+          {services.length > 0 && (
+            <Minimap
+              nodes={services.map(service => ({ id: service.id, position: service.position, color: SERVICE_CONFIGS[service.type].hex }))}
+              nodeWidth={NODE_WIDTH}
+              nodeHeight={NODE_HEIGHT}
+              viewport={viewport}
+              size={size}
+              selectedIds={selection}
+              onCenter={centerOn}
             />
-          ))}
+          )}
 
           {/* Empty State */}
           {services.length === 0 && (
@@ -284,16 +584,64 @@ export default function EnhancedPipelineEditor() {
         </div>
 
         {/* Right Sidebar - Inspector */}
-        {selectedNode && spc.services[selectedNode] && (
+        {selection.length === 1 && (
           <Inspector
+            key={selectedNode}
             service={spc.services[selectedNode]}
-            onUpdate={(updates) => updateService(selectedNode, updates)}
-            onClose={() => setSelectedNode(null)}
+            issues={serviceIssues[selectedNode] || []}
+            stateKeys={stateKeys}
+            serviceIds={Object.keys(spc.services)}
+            onUpdate={(updates) => updateService(selectedNode, updates, `edit:${selectedNode}:${Object.keys(updates)}`)}
+            onDuplicate={() => duplicate([selectedNode])}
+            onPreview={() => setShowPreview(open => !open)}
+            onDelete={() => deleteServices([selectedNode])}
+            onReset={() => resetService([...scope, selectedNode].join(COMPOSITE_SEPARATOR))}
+            onClose={clearSelection}
+          />
+        )}
+
+        {showHistory && (
+          <VersionHistoryPanel
+            spc={doc}
+            versions={versions}
+            onSave={saveVersion}
+            onRestore={restoreVersion}
+            onDelete={(version) => removeVersion(version.id)}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
+        {showTests && <TestsPanel spc={doc} addLog={addLog} onClose={() => setShowTests(false)} />}
+
+        {showTimeline && (
+          <TimelinePanel
+            history={ticks}
+            viewTick={viewedTick?.tick ?? null}
+            onView={(tick) => setViewedTick(tick === null ? null : ticks.find(s => s.tick === tick) ?? null)}
+            onReplay={replayFrom}
+            canReplay={!isRunning}
+            comparison={comparison}
+            onClose={() => { setShowTimeline(false); setViewedTick(null); }}
+          />
+        )}
+
+        {showLedger && (
+          <LedgerPanel
+            ledger={ledger}
+            pipelineName={doc.meta.name}
+            canContinue={!isRunning}
+            onContinue={restoreLedger}
+            onFocus={focusService}
+            addLog={addLog}
+            onClose={() => setShowLedger(false)}
           />
         )}
       </div>
 
       {/* Bottom Panel - Logs */}
+      {showPreview && selection.length === 1 && (
+        <DataPreviewPanel doc={shownDoc} scope={scope} serviceId={selectedNode} onClose={() => setShowPreview(false)} />
+      )}
       <LogPanel logs={logs} />
     </div>
   );
@@ -303,7 +651,7 @@ export default function EnhancedPipelineEditor() {
 // HEADER COMPONENT
 // ============================================================================
 
-function Header({ spc, setSpc, onExport, onImport, onRun, onStop, onTick, isRunning }) {
+function Header({ spc, setSpc, history, fileFormat, setFileFormat, onExport, onImport, onRun, onStop, onTick, onSave, onToggleHistory, onToggleTests, onToggleTimeline, onToggleLedger, onAutoLayout, isRunning }) {
   return (
     <div className="bg-gray-900 border-b border-gray-800 px-6 py-3 flex items-center justify-between">
       <div className="flex items-center gap-4">
@@ -313,24 +661,57 @@ function Header({ spc, setSpc, onExport, onImport, onRun, onStop, onTick, isRunn
         <input
           type="text"
           value={spc.meta.name}
-          onChange={(e) => setSpc(prev => ({ ...prev, meta: { ...prev.meta, name: e.target.value } }))}
+          onChange={(e) => setSpc(prev => ({ ...prev, meta: { ...prev.meta, name: e.target.value } }), { coalesce: 'meta.name' })}
           className="bg-gray-800 px-3 py-1.5 rounded border border-gray-700 text-sm focus:border-green-500 focus:outline-none"
         />
       </div>
 
       <div className="flex items-center gap-2">
-        <button onClick={onExport} className="btn-icon" title="Export">
+        <button onClick={history.undo} disabled={!history.canUndo} className="btn-icon disabled:opacity-40" title="Undo (Ctrl+Z)">
+          <Undo2 size={18} />
+        </button>
+        <button onClick={history.redo} disabled={!history.canRedo} className="btn-icon disabled:opacity-40" title="Redo (Ctrl+Shift+Z)">
+          <Redo2 size={18} />
+        </button>
+
+        <div className="w-px h-6 bg-gray-700 mx-1" />
+
+        <button onClick={onExport} className="btn-icon" title={`Export as ${fileFormat.toUpperCase()}`}>
           <Download size={18} />
         </button>
+        <select
+          value={fileFormat}
+          onChange={(e) => setFileFormat(e.target.value)}
+          className="bg-gray-800 px-1.5 py-1 rounded border border-gray-700 text-xs focus:border-green-500 focus:outline-none"
+          title="File format for export"
+        >
+          <option value="json">.json</option>
+          <option value="yaml">.yaml</option>
+        </select>
         
-        <label className="btn-icon cursor-pointer" title="Import">
+        <label className="btn-icon cursor-pointer" title="Import (.json, .yaml)">
           <Upload size={18} />
-          <input type="file" accept=".json" onChange={onImport} className="hidden" />
+          <input type="file" accept={SPC_FILE_ACCEPT} onChange={onImport} className="hidden" />
         </label>
 
-        <button className="btn-icon" title="Save">
+        <button onClick={onSave} className="btn-icon" title="Save a version">
           <Save size={18} />
         </button>
+        <button onClick={onToggleHistory} className="btn-icon" title="Version History">
+          <Clock size={18} />
+        </button>
+        <button onClick={onToggleTests} className="btn-icon" title="Tests">
+          <FlaskConical size={18} />
+        </button>
+        <button onClick={onToggleTimeline} className="btn-icon" title="Timeline">
+          <Rewind size={18} />
+        </button>
+        <button onClick={onToggleLedger} className="btn-icon" title="Ledger">
+          <ShieldCheck size={18} />
+        </button>
+        <button onClick={onAutoLayout} className="btn-icon" title="Auto layout">
+          <Network size={18} />
+        </button>
 
         <div className="w-px h-6 bg-gray-700 mx-2" />
 
@@ -380,32 +761,34 @@ function Sidebar({ onAddService }) {
 // SERVICE NODE COMPONENT
 // ============================================================================
 
-function ServiceNode({ service, isSelected, isRunning, onSelect, onMove, onDelete }) {
+function ServiceNode({ service, isSelected, issues, step, inCycle, inputs, isRunning, isConnecting, zoom, onSelect, onMove, onDelete, onOpen, onStartConnection, onCompleteConnection }) {
   const [isDragging, setIsDragging] = useState(false);
   const config = SERVICE_CONFIGS[service.type];
 
   const handleMouseDown = (e) => {
-    if (e.target.closest('.delete-btn')) return;
-    setIsDragging(true);
-    onSelect();
+    if (e.target.closest('.delete-btn, .node-handle')) return;
+    onSelect(e.shiftKey);
+    if (!e.shiftKey) setIsDragging(true);
   };
 
   const handleMouseMove = (e) => {
     if (!isDragging) return;
-    onMove({
-      x: service.position.x + e.movementX,
-      y: service.position.y + e.movementY
-    });
+    // movementX is in screen pixels; positions are world units
+    onMove(e.movementX / zoom, e.movementY / zoom);
   };
 
   return (
     <div
-      className={`absolute cursor-move transition-all ${isSelected ? 'ring-2 ring-green-400 z-10' : 'z-0'}`}
-      style={{ left: service.position.x, top: service.position.y, width: 240 }}
+      className={`absolute cursor-move transition-all ${isSelected ? 'ring-2 ring-green-400 z-10' : inCycle ? 'ring-2 ring-red-500 z-0' : 'z-0'}`}
+      style={{ left: service.position.x, top: service.position.y, width: NODE_WIDTH }}
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
       onMouseUp={() => setIsDragging(false)}
     >
+      <IssueBadge issues={issues} />
+      <StepBadge step={step} inCycle={inCycle} />
+      <FailureBadge service={service} />
+
       {/* Header */}
       <div className={`bg-gradient-to-r ${config.color} p-3 rounded-t-lg`}>
         <div className="flex items-center justify-between">
@@ -427,27 +810,47 @@ function ServiceNode({ service, isSelected, isRunning, onSelect, onMove, onDelet
         <div className="flex items-center justify-between mb-2">
           <span className="text-xs text-gray-400 uppercase font-medium">{service.type}</span>
           <div className="flex items-center gap-1">
-            <div className={`w-2 h-2 rounded-full ${service.status === 'running' ? 'bg-green-400 animate-pulse' : 'bg-gray-600'}`} />
+            <div className={`w-2 h-2 rounded-full ${
+              service.status === 'running' ? 'bg-green-400 animate-pulse' :
+              service.status === 'error' ? 'bg-red-500' :
+              'bg-gray-600'
+            }`} />
             <span className="text-xs text-gray-500">{service.status}</span>
           </div>
         </div>
         
-        {isRunning && service.status === 'running' && (
+        {isRunning && service.status === 'running' && !service.waiting && (
           <div className="mt-2 bg-green-900/20 border border-green-700/50 rounded px-2 py-1">
             <span className="text-xs text-green-400">⚡ Executing...</span>
           </div>
         )}
+        <WaitingNote service={service} />
 
         {service.lastRun && (
           <div className="mt-2 text-xs text-gray-500">
             Last run: {new Date(service.lastRun).toLocaleTimeString()}
           </div>
         )}
+
+        {service.type === 'composite' && <CompositeSummary service={service} onOpen={onOpen} />}
       </div>
 
       {/* Connection Points */}
-      <div className="absolute left-0 top-1/2 -translate-x-1/2 w-3 h-3 bg-blue-500 rounded-full border-2 border-gray-950" />
-      <div className="absolute right-0 top-1/2 translate-x-1/2 w-3 h-3 bg-blue-500 rounded-full border-2 border-gray-950" />
+      {(inputs.length ? inputs : [null]).map((source, idx) => (
+        <div
+          key={source ?? 'input'}
+          onMouseUp={onCompleteConnection}
+          className={`node-handle absolute left-0 -translate-x-1/2 w-3 h-3 rounded-full border-2 border-gray-950 ${isConnecting ? 'bg-green-400 scale-150' : 'bg-blue-500'}`}
+          style={{ top: HANDLE_Y + idx * HANDLE_GAP - 6 }}
+          title={source ? `Input from ${source}` : 'Input'}
+        />
+      ))}
+      <div
+        onMouseDown={onStartConnection}
+        className="node-handle absolute right-0 translate-x-1/2 w-3 h-3 bg-blue-500 hover:bg-green-400 rounded-full border-2 border-gray-950 cursor-crosshair"
+        style={{ top: HANDLE_Y - 6 }}
+        title="Drag to connect"
+      />
     </div>
   );
 }
@@ -456,21 +859,7 @@ function ServiceNode({ service, isSelected, isRunning, onSelect, onMove, onDelet
 // INSPECTOR PANEL
 // ============================================================================
 
-function Inspector({ service, onUpdate, onClose }) {
-  const [specJson, setSpecJson] = useState(JSON.stringify(service.spec, null, 2));
-  const [error, setError] = useState(null);
-
-  const handleSpecChange = (value) => {
-    setSpecJson(value);
-    try {
-      const parsed = JSON.parse(value);
-      onUpdate({ spec: parsed });
-      setError(null);
-    } catch (err) {
-      setError(err.message);
-    }
-  };
-
+function Inspector({ service, issues, stateKeys, serviceIds, onUpdate, onDuplicate, onPreview, onDelete, onReset, onClose }) {
   return (
     <div className="w-80 bg-gray-900 border-l border-gray-800 overflow-y-auto">
       <div className="sticky top-0 bg-gray-900 border-b border-gray-800 px-4 py-3 flex items-center justify-between z-10">
@@ -479,6 +868,8 @@ function Inspector({ service, onUpdate, onClose }) {
       </div>
 
       <div className="p-4 space-y-4">
+        <FailurePanel service={service} onReset={onReset} />
+
         {/* Basic Info */}
         <div>
           <label className="block text-xs text-gray-400 uppercase mb-2 font-medium">Title</label>
@@ -506,20 +897,27 @@ function Inspector({ service, onUpdate, onClose }) {
           >
             <option value="running">Running</option>
             <option value="stopped">Stopped</option>
+            <option value="error">Error</option>
           </select>
         </div>
 
+        {/* Validation */}
+        {issues.length > 0 && (
+          <div className="bg-gray-950 p-3 rounded border border-gray-800">
+            <IssueList issues={issues} relative />
+          </div>
+        )}
+
         {/* Spec Editor */}
         <div>
-          <label className="block text-xs text-gray-400 uppercase mb-2 font-medium">
-            Specification
-            {error && <span className="text-red-400 ml-2">⚠ {error}</span>}
-          </label>
-          <textarea
-            value={specJson}
-            onChange={(e) => handleSpecChange(e.target.value)}
-            className="w-full bg-gray-950 px-3 py-2 rounded border border-gray-700 text-xs font-mono h-64 focus:border-green-500 focus:outline-none"
-            spellCheck="false"
+          <label className="block text-xs text-gray-400 uppercase mb-2 font-medium">Specification</label>
+          <SpecEditor
+            type={service.type}
+            spec={service.spec}
+            onChange={(spec) => onUpdate({ spec })}
+            issues={issues}
+            stateKeys={stateKeys}
+            serviceIds={serviceIds}
           />
         </div>
 
@@ -527,13 +925,16 @@ function Inspector({ service, onUpdate, onClose }) {
         <div className="pt-4 border-t border-gray-800">
           <h4 className="text-xs text-gray-400 uppercase mb-3 font-medium">Quick Actions</h4>
           <div className="space-y-2">
-            <button className="w-full px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded text-sm text-left transition-colors">
+            <button onClick={onDuplicate} className="w-full px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded text-sm text-left transition-colors">
               📋 Duplicate Service
             </button>
+            <button onClick={onPreview} className="w-full px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded text-sm text-left transition-colors">
+              🔍 Preview Data
+            </button>
             <button className="w-full px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded text-sm text-left transition-colors">
               📊 View Metrics
             </button>
-            <button className="w-full px-3 py-2 bg-red-900/30 hover:bg-red-900/50 rounded text-sm text-left text-red-400 transition-colors">
+            <button onClick={onDelete} className="w-full px-3 py-2 bg-red-900/30 hover:bg-red-900/50 rounded text-sm text-left text-red-400 transition-colors">
               🗑️ Delete Service
             </button>
           </div>
@@ -578,6 +979,7 @@ function LogPanel({ logs }) {
                   log.level === 'error' ? 'text-red-400' :
                   log.level === 'warn' ? 'text-yellow-400' :
                   log.level === 'success' ? 'text-green-400' :
+                  log.level === 'lifecycle' ? 'text-blue-400' :
                   'text-gray-400'
                 }>
                   {log.message}
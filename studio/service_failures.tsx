@@ -0,0 +1,75 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { Service } from '../engine';
+
+// ============================================================================
+// SERVICE FAILURES (shared by both editors)
+// ============================================================================
+//
+// A node badge for services that are failing, retrying or behind an open
+// circuit, and the inspector section with the last error and a reset that
+// clears the failures and runs a tick straight away.
+
+type FailureFields = Pick<Service, 'status' | 'failures' | 'lastError' | 'retryAt' | 'circuitOpen'>;
+
+function isFailing(service: FailureFields): boolean {
+  return service.status === 'error' || (service.failures ?? 0) > 0;
+}
+
+function timeOf(iso?: string): string {
+  return iso ? new Date(iso).toLocaleTimeString() : '';
+}
+
+export function FailureBadge({ service }: { service: FailureFields }) {
+  if (!isFailing(service)) return null;
+  const failures = service.failures ?? 0;
+  const [label, color, note] =
+    service.circuitOpen ? ['⛔ open', 'bg-red-700 text-white', `Circuit open after ${failures} failures; trial run at ${timeOf(service.retryAt)}`] :
+    service.status === 'error' ? [`✗ ${failures || 'error'}`, 'bg-red-500 text-white', failures ? `Stopped after ${failures} failures` : 'In error'] :
+    service.retryAt ? [`↻ ${failures}`, 'bg-orange-500 text-black', `Failure ${failures}; retrying at ${timeOf(service.retryAt)}`] :
+    [`↻ ${failures}`, 'bg-orange-500 text-black', `${failures} consecutive failures; still on its schedule`];
+
+  return (
+    <div
+      className={`absolute -bottom-2 -right-2 rounded-full px-1.5 text-xs font-bold pointer-events-auto ${color}`}
+      title={service.lastError ? `${note}\n${service.lastError}` : note}
+      style={{ zIndex: 20 }}
+    >
+      {label}
+    </div>
+  );
+}
+
+/** Inspector section; `onReset` clears the failures and retries on the next tick */
+export function FailurePanel({ service, onReset }: { service: FailureFields; onReset?: () => void }) {
+  if (!isFailing(service)) return null;
+  return (
+    <div className="bg-red-900/20 border border-red-700/50 rounded p-3 text-xs space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-red-300">
+          {service.circuitOpen ? 'Circuit open' : service.status === 'error' ? 'Failed' : 'Failing'}
+        </span>
+        {onReset && (
+          <button
+            onClick={onReset}
+            className="flex items-center gap-1 bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+            title="Clear the failures, set the service running and tick once"
+          >
+            <RotateCcw size={12} /> Reset &amp; retry
+          </button>
+        )}
+      </div>
+      {service.lastError && (
+        <div className="font-mono text-red-200 break-words">{service.lastError}</div>
+      )}
+      {(service.failures ?? 0) > 0 && (
+        <div className="text-gray-400">Consecutive failures: {service.failures}</div>
+      )}
+      {service.retryAt && (
+        <div className="text-gray-400">
+          {service.circuitOpen ? 'Trial run' : 'Next retry'} at {timeOf(service.retryAt)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { changeKey, diffSPC, formatFromFilename, mergeSPC, parseSPC, pickAll, SPC_FILE_ACCEPT, validateSPC } from '../engine';
+import type { MergePicks, MergeSide, ServiceChange, SPC } from '../engine';
+import { CHANGE_STYLES, DiffSummary, FieldChangeRow } from './spc_diff_view';
+
+// ============================================================================
+// COMPARE & MERGE
+// ============================================================================
+//
+// Left is the base (the current document unless a file is opened for it),
+// right is the other teammate's version. Colours on the canvas and in the
+// list describe going from left to right.
+
+export interface CompareSide {
+  spc: SPC;
+  label: string;
+}
+
+/** Reads an SPC file for comparison; refuses files the canvas couldn't draw. */
+export async function readSpcFile(file: File): Promise<CompareSide> {
+  const spc = parseSPC(await file.text(), formatFromFilename(file.name)) as SPC;
+  const errors = validateSPC(spc).filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`${file.name} is not a valid SPC: ${errors.length} error(s)`);
+  }
+  return { spc, label: file.name };
+}
+
+/** Both sides' services, right winning where both have one, so removed services still show on the canvas. */
+export function overlayServices(left: SPC, right: SPC): SPC['services'] {
+  return { ...left.services, ...right.services };
+}
+
+function SidePicker({ side, onPick, disabled = false }: { side: MergeSide; onPick: (side: MergeSide) => void; disabled?: boolean }) {
+  const button = (value: MergeSide, label: string) => (
+    <button
+      onClick={(e) => { e.stopPropagation(); onPick(value); }}
+      disabled={disabled}
+      className={`px-1.5 ${side === value ? 'bg-green-500 text-black' : 'text-gray-400 hover:text-white'} disabled:opacity-40`}
+      title={value === 'left' ? 'Keep left' : 'Take right'}
+    >
+      {label}
+    </button>
+  );
+  return (
+    <span className="flex shrink-0 bg-gray-700 rounded text-xs font-sans overflow-hidden">
+      {button('left', 'L')}
+      {button('right', 'R')}
+    </span>
+  );
+}
+
+function FileButton({ label, onFile }: { label: string; onFile: (file: File) => void }) {
+  return (
+    <label className="text-blue-400 hover:text-blue-300 cursor-pointer shrink-0">
+      {label}
+      <input
+        type="file"
+        accept={SPC_FILE_ACCEPT}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onFile(file);
+        }}
+        className="hidden"
+      />
+    </label>
+  );
+}
+
+interface ComparePanelProps {
+  left: CompareSide;
+  right: CompareSide | null;
+  /** `null` goes back to comparing against the current document */
+  onLoad: (side: 'left' | 'right', loaded: CompareSide | null) => void;
+  onUseMerged: (merged: SPC) => void;
+  onExportMerged: (merged: SPC) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+  /** Service highlighted on the canvas */
+  focusId?: string | null;
+  onFocus?: (id: string | null) => void;
+  leftIsFile: boolean;
+}
+
+export function ComparePanel({ left, right, onLoad, onUseMerged, onExportMerged, onError, onClose, focusId = null, onFocus, leftIsFile }: ComparePanelProps) {
+  const [picks, setPicks] = useState<MergePicks>({});
+
+  const diff = useMemo(() => right && diffSPC(left.spc, right.spc), [left.spc, right]);
+  const merged = useMemo(() => right && diff && mergeSPC(left.spc, right.spc, picks, diff), [left.spc, right, picks, diff]);
+
+  const load = (side: 'left' | 'right') => async (file: File) => {
+    try {
+      onLoad(side, await readSpcFile(file));
+      setPicks({});
+    } catch (error: any) {
+      onError(error?.message ?? String(error));
+    }
+  };
+
+  const pick = (key: string, side: MergeSide) => setPicks(prev => ({ ...prev, [key]: side }));
+  const pickedRight = (key: string) => picks[key] === 'right';
+
+  const applyMerged = () => {
+    if (!merged) return;
+    onUseMerged(merged);
+    setPicks({});
+  };
+
+  const serviceRow = (change: ServiceChange) => {
+    const key = changeKey(change.id);
+    const expanded = focusId === change.id;
+    return (
+      <div key={change.id} className={`rounded p-2 ${expanded ? 'bg-gray-700' : 'bg-gray-900'}`}>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onFocus?.(expanded ? null : change.id)}
+            className={`flex-1 min-w-0 text-left truncate ${CHANGE_STYLES[change.kind].text}`}
+          >
+            {CHANGE_STYLES[change.kind].symbol} <span className="font-mono">{change.id}</span>
+            <span className="text-gray-500 ml-1">{change.movedOnly ? 'moved' : change.kind}</span>
+          </button>
+          <SidePicker side={pickedRight(key) ? 'right' : 'left'} onPick={(side) => pick(key, side)} />
+        </div>
+        {expanded && change.kind === 'changed' && (
+          <ul className="mt-2 space-y-1">
+            {change.fields.map(field => {
+              const fieldKey = changeKey(change.id, field);
+              return (
+                <FieldChangeRow
+                  key={fieldKey}
+                  change={field}
+                  action={(
+                    <SidePicker
+                      side={pickedRight(key) || pickedRight(fieldKey) ? 'right' : 'left'}
+                      onPick={(side) => pick(fieldKey, side)}
+                      disabled={pickedRight(key)}
+                    />
+                  )}
+                />
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-96 bg-gray-800 border-l border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between p-4 pb-2">
+        <h3 className="font-bold text-green-400">Compare &amp; Merge</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <div className="px-4 pb-3 space-y-1 text-xs border-b border-gray-700">
+        <div className="flex items-center gap-2">
+          <span className="text-gray-500 w-10">Left</span>
+          <span className="flex-1 truncate" title={left.label}>{left.label}</span>
+          {leftIsFile && <button onClick={() => { onLoad('left', null); setPicks({}); }} className="text-gray-400 hover:text-white">Current</button>}
+          <FileButton label="Open…" onFile={load('left')} />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-gray-500 w-10">Right</span>
+          <span className="flex-1 truncate" title={right?.label}>{right ? right.label : <span className="text-gray-500">none</span>}</span>
+          <FileButton label="Open…" onFile={load('right')} />
+        </div>
+      </div>
+
+      {!right || !diff ? (
+        <div className="p-4 text-xs text-gray-500">
+          Open a second SPC on the right to compare it with {leftIsFile ? left.label : 'the current document'}.
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between px-4 py-2 text-xs border-b border-gray-700">
+            <DiffSummary diff={diff} />
+            <span className="flex gap-2">
+              <button onClick={() => setPicks(pickAll(diff, 'left'))} className="text-gray-400 hover:text-white">All left</button>
+              <button onClick={() => setPicks(pickAll(diff, 'right'))} className="text-gray-400 hover:text-white">All right</button>
+            </span>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-2 space-y-1 text-xs">
+            {diff.services.length === 0 && diff.meta.length === 0 && (
+              <div className="text-gray-500 p-2">No differences</div>
+            )}
+            {diff.services.map(serviceRow)}
+            {diff.meta.length > 0 && (
+              <div className="rounded p-2 bg-gray-900">
+                <div className="text-gray-400 mb-1">meta</div>
+                <ul className="space-y-1">
+                  {diff.meta.map(field => {
+                    const key = changeKey(null, field);
+                    return (
+                      <FieldChangeRow
+                        key={key}
+                        change={field}
+                        action={<SidePicker side={pickedRight(key) ? 'right' : 'left'} onPick={(side) => pick(key, side)} />}
+                      />
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="p-3 border-t border-gray-700 flex gap-2">
+            <button onClick={applyMerged} className="flex-1 bg-green-600 hover:bg-green-500 px-2 py-1 rounded text-xs">
+              Use merged
+            </button>
+            <button onClick={() => merged && onExportMerged(merged)} className="flex-1 bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-xs">
+              Export merged
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import React, { useMemo } from 'react';
+import { diffText, formatPath } from '../engine';
+import type { ChangeKind, FieldChange, SpcDiff } from '../engine';
+
+// ============================================================================
+// STRUCTURED DIFF DISPLAY
+// ============================================================================
+
+export const CHANGE_STYLES: Record<ChangeKind, { text: string; ring: string; symbol: string }> = {
+  added: { text: 'text-green-400', ring: 'ring-2 ring-green-400', symbol: '+' },
+  removed: { text: 'text-red-400', ring: 'ring-2 ring-red-500', symbol: '−' },
+  changed: { text: 'text-yellow-400', ring: 'ring-2 ring-yellow-400', symbol: '~' }
+};
+
+function preview(value: any): string {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/** Inline word diff of two strings; expressions and templates read as edits, not replacements. */
+export function TextDiff({ before, after }: { before: string; after: string }) {
+  const segments = useMemo(() => diffText(before, after), [before, after]);
+  return (
+    <span className="whitespace-pre-wrap break-all">
+      {segments.map((segment, idx) => (
+        <span
+          key={idx}
+          className={
+            segment.op === 'insert' ? 'bg-green-900/60 text-green-300' :
+            segment.op === 'delete' ? 'bg-red-900/60 text-red-300 line-through' :
+            'text-gray-300'
+          }
+        >
+          {segment.text}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+/** `action` is rendered at the end of the row, e.g. a merge side picker */
+export function FieldChangeRow({ change, action }: { change: FieldChange; action?: React.ReactNode }) {
+  const textual = change.kind === 'changed' && typeof change.before === 'string' && typeof change.after === 'string';
+  return (
+    <li className="font-mono flex items-start gap-1">
+      <span className="flex-1 min-w-0">
+        <span className={CHANGE_STYLES[change.kind].text}>{CHANGE_STYLES[change.kind].symbol}</span>{' '}
+        <span className="text-gray-300">{formatPath(change.path)}</span>
+        {textual ? (
+          <span className="block ml-3"><TextDiff before={change.before} after={change.after} /></span>
+        ) : (
+          <>
+            {change.kind !== 'added' && <span className="text-red-300 line-through ml-1" title={JSON.stringify(change.before)}>{preview(change.before)}</span>}
+            {change.kind !== 'removed' && <span className="text-green-300 ml-1" title={JSON.stringify(change.after)}>{preview(change.after)}</span>}
+          </>
+        )}
+      </span>
+      {action}
+    </li>
+  );
+}
+
+export function DiffSummary({ diff }: { diff: SpcDiff }) {
+  const count = (kind: ChangeKind) => diff.services.filter(s => s.kind === kind).length;
+  return (
+    <span className="text-xs">
+      <span className={CHANGE_STYLES.added.text}>+{count('added')}</span>{' '}
+      <span className={CHANGE_STYLES.removed.text}>−{count('removed')}</span>{' '}
+      <span className={CHANGE_STYLES.changed.text}>~{count('changed')}</span>
+    </span>
+  );
+}
+
+/** Services added, removed and changed, with the spec fields that changed. */
+export function SpcDiffView({ diff }: { diff: SpcDiff }) {
+  if (diff.services.length === 0 && diff.meta.length === 0) {
+    return <div className="text-xs text-gray-500">No differences</div>;
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      {diff.services.map(change => (
+        <div key={change.id}>
+          <div className={CHANGE_STYLES[change.kind].text}>
+            {CHANGE_STYLES[change.kind].symbol} <span className="font-mono">{change.id}</span>
+            <span className="text-gray-500 ml-1">{change.movedOnly ? 'moved' : change.kind}</span>
+          </div>
+          {change.fields.length > 0 && !change.movedOnly && (
+            <ul className="ml-3 space-y-0.5">
+              {change.fields.filter(f => f.path[0] !== 'position').map((field, idx) => <FieldChangeRow key={idx} change={field} />)}
+            </ul>
+          )}
+        </div>
+      ))}
+      {diff.meta.length > 0 && (
+        <div>
+          <div className="text-gray-400">meta</div>
+          <ul className="ml-3 space-y-0.5">
+            {diff.meta.map((field, idx) => <FieldChangeRow key={idx} change={field} />)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
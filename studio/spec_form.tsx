@@ -0,0 +1,595 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SCHEMAS, checkExpression, checkTemplate, nextCronTime, parseCron } from '../engine';
+import type { ExpressionError, FieldSchema, PathSegment, ValidationIssue } from '../engine';
+
+// ============================================================================
+// SCHEMA-DRIVEN SPEC EDITOR
+// ============================================================================
+//
+// Renders a form for any primitive from the field descriptors in the engine's
+// SCHEMAS table, so a new primitive or field shows up here as soon as the
+// engine knows about it. Form and raw JSON edit the same spec; the JSON view
+// keeps an unparsed draft until it is valid, and refuses to switch back to
+// the form while the draft is broken.
+
+interface FormContext {
+  stateKeys: string[];
+  serviceIds: string[];
+  issues: ValidationIssue[];
+}
+
+interface SpecEditorProps {
+  type: string;
+  spec: Record<string, any>;
+  onChange: (spec: Record<string, any>) => void;
+  stateKeys?: string[];
+  serviceIds?: string[];
+  issues?: ValidationIssue[];
+}
+
+const STATE_KEYS_LIST = 'spec-form-state-keys';
+
+const inputClass = 'w-full bg-gray-900 px-2 py-1 rounded border border-gray-700 text-xs focus:border-green-500 focus:outline-none';
+const iconButton = 'text-gray-500 hover:text-white text-xs px-1';
+
+export function defaultValue(field: FieldSchema): any {
+  switch (field.kind) {
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return true;
+    case 'enum':
+      return field.values?.[0] ?? '';
+    case 'array':
+      return [];
+    case 'record':
+      return {};
+    case 'object': {
+      const obj: Record<string, any> = {};
+      for (const [key, child] of Object.entries(field.fields || {})) {
+        if (child.required) obj[key] = defaultValue(child);
+      }
+      return obj;
+    }
+    case 'any':
+      return null;
+    default:
+      return '';
+  }
+}
+
+function issuesAt(ctx: FormContext, path: PathSegment[]): ValidationIssue[] {
+  return ctx.issues.filter(issue => {
+    const rel = issue.segments.slice(3);
+    return issue.segments[2] === 'spec' && rel.length === path.length && rel.every((seg, i) => seg === path[i]);
+  });
+}
+
+function summarize(item: any): string {
+  if (!item || typeof item !== 'object') return '';
+  const label = item.name ?? item.target ?? item.condition ?? Object.keys(item)[0];
+  return label === undefined ? '' : String(label);
+}
+
+// ----------------------------------------------------------------------------
+// Scalars
+// ----------------------------------------------------------------------------
+
+/**
+ * Text input for expressions and templates. The field row already shows the
+ * validator's message; this underlines the part of the text it points at.
+ */
+export function CheckedInput({ value, onChange, check, className, placeholder, type = 'text' }: {
+  value: any;
+  onChange: (value: any) => void;
+  check: (text: string) => ExpressionError | null;
+  className: string;
+  placeholder: string;
+  type?: string;
+}) {
+  const text = typeof value === 'string' ? value : '';
+  const error = useMemo(() => (text ? check(text) : null), [text, check]);
+
+  return (
+    <>
+      <input
+        type={type}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${className} ${error ? 'border-red-700' : ''}`}
+        placeholder={placeholder}
+        spellCheck={false}
+      />
+      {error && (
+        <div className="text-xs font-mono text-gray-500 mt-0.5 whitespace-pre overflow-x-auto" title={error.message}>
+          {text.slice(0, error.start)}
+          <span className="text-red-400 underline decoration-wavy decoration-red-500">
+            {text.slice(error.start, error.end) || ' '}
+          </span>
+          {text.slice(error.end)}
+        </div>
+      )}
+    </>
+  );
+}
+
+/** The field row shows parse errors; this previews when a valid expression fires next */
+function CronInput({ value, onChange }: { value: any; onChange: (value: any) => void }) {
+  const next = useMemo(() => {
+    if (typeof value !== 'string' || !value.trim()) return null;
+    try {
+      return nextCronTime(parseCron(value), Date.now());
+    } catch {
+      return null;
+    }
+  }, [value]);
+
+  return (
+    <>
+      <input
+        type="text"
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${inputClass} font-mono`}
+        placeholder="*/15 * * * *"
+        spellCheck={false}
+      />
+      {next !== null && (
+        <div className="text-xs text-gray-500 mt-0.5">next {new Date(next).toISOString().slice(0, 16).replace('T', ' ')} UTC</div>
+      )}
+    </>
+  );
+}
+
+function ScalarInput({ field, value, onChange, ctx }: {
+  field: FieldSchema;
+  value: any;
+  onChange: (value: any) => void;
+  ctx: FormContext;
+}) {
+  switch (field.kind) {
+    case 'number':
+    case 'integer':
+      return (
+        <input
+          type="number"
+          step={field.kind === 'integer' ? 1 : 'any'}
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          className={inputClass}
+        />
+      );
+
+    case 'boolean':
+      return (
+        <select
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value === 'true')}
+          className={inputClass}
+        >
+          <option value="">(default)</option>
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      );
+
+    case 'enum':
+      return (
+        <select
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+          className={inputClass}
+        >
+          <option value="">(default)</option>
+          {field.values?.map(v => <option key={v} value={v}>{v}</option>)}
+        </select>
+      );
+
+    case 'serviceRef':
+      return (
+        <select value={value ?? ''} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+          <option value="">— select service —</option>
+          {ctx.serviceIds.map(id => <option key={id} value={id}>{id}</option>)}
+          {value && !ctx.serviceIds.includes(value) && <option value={value}>{value} (missing)</option>}
+        </select>
+      );
+
+    case 'expression':
+      return (
+        <CheckedInput
+          value={value}
+          onChange={onChange}
+          check={checkExpression}
+          className={`${inputClass} font-mono text-purple-300`}
+          placeholder="row.status === 'active'"
+        />
+      );
+
+    case 'template':
+      return (
+        <CheckedInput
+          value={value}
+          onChange={onChange}
+          check={checkTemplate}
+          className={`${inputClass} font-mono`}
+          placeholder="{{ state.key }}"
+        />
+      );
+
+    case 'url':
+      return (
+        <CheckedInput
+          type="url"
+          value={value}
+          onChange={onChange}
+          check={checkTemplate}
+          className={`${inputClass} font-mono`}
+          placeholder="https://api.example.com/data/{{state.id}}"
+        />
+      );
+
+    case 'stateKey':
+      return (
+        <input
+          type="text"
+          list={STATE_KEYS_LIST}
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={`${inputClass} font-mono text-blue-300`}
+          spellCheck={false}
+        />
+      );
+
+    case 'cron':
+      return <CronInput value={value} onChange={onChange} />;
+
+    default:
+      return (
+        <input
+          type="text"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClass}
+        />
+      );
+  }
+}
+
+function JsonValueInput({ value, onChange }: { value: any; onChange: (value: any) => void }) {
+  const [draft, setDraft] = useState(JSON.stringify(value ?? null, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      if (JSON.stringify(JSON.parse(draft)) === JSON.stringify(value ?? null)) return;
+    } catch {
+      // draft is mid-edit; replace it only if the value really changed underneath
+    }
+    setDraft(JSON.stringify(value ?? null, null, 2));
+    setError(null);
+  }, [value]);
+
+  return (
+    <div>
+      <textarea
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          try {
+            onChange(JSON.parse(e.target.value));
+            setError(null);
+          } catch (err: any) {
+            setError(err.message);
+          }
+        }}
+        className={`${inputClass} font-mono h-20`}
+        spellCheck={false}
+      />
+      {error && <div className="text-red-400 text-xs mt-0.5">⚠ {error}</div>}
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Structured values
+// ----------------------------------------------------------------------------
+
+function FieldValue({ field, value, path, onChange, ctx }: {
+  field: FieldSchema;
+  value: any;
+  path: PathSegment[];
+  onChange: (value: any) => void;
+  ctx: FormContext;
+}) {
+  switch (field.kind) {
+    case 'object':
+      if (!field.fields || Object.keys(field.fields).length === 0) {
+        return <JsonValueInput value={value} onChange={onChange} />;
+      }
+      return (
+        <div className="pl-2 border-l border-gray-700">
+          <ObjectFields fields={field.fields} value={value || {}} path={path} onChange={onChange} ctx={ctx} />
+        </div>
+      );
+    case 'array':
+      return <ArrayEditor field={field} value={Array.isArray(value) ? value : []} path={path} onChange={onChange} ctx={ctx} />;
+    case 'record':
+      return <RecordEditor field={field} value={value && typeof value === 'object' ? value : {}} path={path} onChange={onChange} ctx={ctx} />;
+    case 'any':
+      return <JsonValueInput value={value} onChange={onChange} />;
+    default:
+      return <ScalarInput field={field} value={value} onChange={onChange} ctx={ctx} />;
+  }
+}
+
+function FieldRow({ name, field, value, path, onChange, onRemove, ctx }: {
+  name: string;
+  field: FieldSchema;
+  value: any;
+  path: PathSegment[];
+  onChange: (value: any) => void;
+  onRemove?: () => void;
+  ctx: FormContext;
+}) {
+  const fieldIssues = issuesAt(ctx, path);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-0.5">
+        <label className="text-xs font-mono text-gray-400" title={field.description}>
+          {name}
+          {field.required && <span className="text-red-400">*</span>}
+          <span className="text-gray-600 ml-1">{field.kind === 'enum' ? field.values?.join('|') : field.kind}</span>
+        </label>
+        {onRemove && <button onClick={onRemove} className={iconButton} title={`Remove ${name}`}>✕</button>}
+      </div>
+      <FieldValue field={field} value={value} path={path} onChange={onChange} ctx={ctx} />
+      {fieldIssues.map((issue, idx) => (
+        <div key={idx} className={`text-xs mt-0.5 ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+          {issue.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ObjectFields({ fields, value, path, onChange, ctx }: {
+  fields: Record<string, FieldSchema>;
+  value: Record<string, any>;
+  path: PathSegment[];
+  onChange: (value: Record<string, any>) => void;
+  ctx: FormContext;
+}) {
+  const shown = Object.keys(fields).filter(key => fields[key].required || key in value);
+  const unknown = Object.keys(value).filter(key => !fields[key]);
+  const addable = Object.keys(fields).filter(key => !shown.includes(key));
+
+  const setKey = (key: string, child: any) => {
+    const next = { ...value };
+    if (child === undefined) delete next[key]; else next[key] = child;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {shown.map(key => (
+        <FieldRow
+          key={key}
+          name={key}
+          field={fields[key]}
+          value={value[key]}
+          path={[...path, key]}
+          onChange={(child) => setKey(key, child)}
+          onRemove={fields[key].required ? undefined : () => setKey(key, undefined)}
+          ctx={ctx}
+        />
+      ))}
+
+      {unknown.map(key => (
+        <FieldRow
+          key={key}
+          name={key}
+          field={{ kind: 'any', description: 'Not part of this primitive\'s schema' }}
+          value={value[key]}
+          path={[...path, key]}
+          onChange={(child) => setKey(key, child)}
+          onRemove={() => setKey(key, undefined)}
+          ctx={ctx}
+        />
+      ))}
+
+      {addable.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && setKey(e.target.value, defaultValue(fields[e.target.value]))}
+          className="bg-transparent text-xs text-gray-500 hover:text-gray-300 focus:outline-none"
+        >
+          <option value="">+ field…</option>
+          {addable.map(key => <option key={key} value={key}>{key}</option>)}
+        </select>
+      )}
+    </div>
+  );
+}
+
+function ArrayEditor({ field, value, path, onChange, ctx }: {
+  field: FieldSchema;
+  value: any[];
+  path: PathSegment[];
+  onChange: (value: any[]) => void;
+  ctx: FormContext;
+}) {
+  const items = field.items || { kind: 'any' };
+  const isObject = items.kind === 'object';
+
+  const setItem = (idx: number, item: any) => onChange(value.map((v, i) => (i === idx ? item : v)));
+  const removeItem = (idx: number) => onChange(value.filter((_, i) => i !== idx));
+  const moveItem = (idx: number, delta: number) => {
+    const to = idx + delta;
+    if (to < 0 || to >= value.length) return;
+    const next = [...value];
+    [next[idx], next[to]] = [next[to], next[idx]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-1">
+      {value.map((item, idx) => (
+        isObject ? (
+          <div key={idx} className="bg-gray-900/60 border border-gray-700 rounded p-2">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-gray-500 font-mono truncate">#{idx} {summarize(item)}</span>
+              <div className="flex">
+                <button onClick={() => moveItem(idx, -1)} className={iconButton} title="Move up">↑</button>
+                <button onClick={() => moveItem(idx, 1)} className={iconButton} title="Move down">↓</button>
+                <button onClick={() => removeItem(idx)} className={iconButton} title="Remove">✕</button>
+              </div>
+            </div>
+            <FieldValue field={items} value={item} path={[...path, idx]} onChange={(next) => setItem(idx, next)} ctx={ctx} />
+          </div>
+        ) : (
+          <div key={idx} className="flex items-center gap-1">
+            <div className="flex-1">
+              <FieldValue field={items} value={item} path={[...path, idx]} onChange={(next) => setItem(idx, next)} ctx={ctx} />
+            </div>
+            <button onClick={() => removeItem(idx)} className={iconButton} title="Remove">✕</button>
+          </div>
+        )
+      ))}
+      <button
+        onClick={() => onChange([...value, defaultValue(items)])}
+        className="text-xs text-green-400 hover:text-green-300"
+      >
+        + Add
+      </button>
+    </div>
+  );
+}
+
+function RecordEditor({ field, value, path, onChange, ctx }: {
+  field: FieldSchema;
+  value: Record<string, any>;
+  path: PathSegment[];
+  onChange: (value: Record<string, any>) => void;
+  ctx: FormContext;
+}) {
+  const items = field.items || { kind: 'any' };
+  const entries = Object.entries(value);
+
+  const renameKey = (from: string, to: string) => {
+    if (!to || (to !== from && to in value)) return;
+    // rebuild to keep the entry in place
+    onChange(Object.fromEntries(entries.map(([k, v]) => [k === from ? to : k, v])));
+  };
+  const setValue = (key: string, child: any) => onChange({ ...value, [key]: child });
+  const removeKey = (key: string) => onChange(Object.fromEntries(entries.filter(([k]) => k !== key)));
+  const addKey = () => {
+    let n = entries.length + 1;
+    while (`key${n}` in value) n++;
+    onChange({ ...value, [`key${n}`]: defaultValue(items) });
+  };
+
+  const inline = !['object', 'array', 'record', 'any'].includes(items.kind);
+
+  return (
+    <div className="space-y-1">
+      {entries.map(([key, child]) => (
+        <div key={key} className={inline ? 'flex items-start gap-1' : 'bg-gray-900/60 border border-gray-700 rounded p-2'}>
+          <div className={inline ? 'w-1/3' : 'flex items-center gap-1 mb-1'}>
+            <input
+              type="text"
+              defaultValue={key}
+              onBlur={(e) => renameKey(key, e.target.value.trim())}
+              className={`${inputClass} font-mono`}
+              spellCheck={false}
+            />
+            {!inline && <button onClick={() => removeKey(key)} className={iconButton} title="Remove">✕</button>}
+          </div>
+          <div className="flex-1">
+            <FieldValue field={items} value={child} path={[...path, key]} onChange={(next) => setValue(key, next)} ctx={ctx} />
+          </div>
+          {inline && <button onClick={() => removeKey(key)} className={iconButton} title="Remove">✕</button>}
+        </div>
+      ))}
+      <button onClick={addKey} className="text-xs text-green-400 hover:text-green-300">+ Add entry</button>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Editor
+// ----------------------------------------------------------------------------
+
+export function SpecEditor({ type, spec, onChange, stateKeys = [], serviceIds = [], issues = [] }: SpecEditorProps) {
+  const schema = SCHEMAS[type];
+  const [mode, setMode] = useState<'form' | 'json'>(schema ? 'form' : 'json');
+  const [draft, setDraft] = useState(JSON.stringify(spec, null, 2));
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  // Follow outside changes (form edits, canvas rewiring) unless the draft already says the same thing
+  useEffect(() => {
+    try {
+      if (JSON.stringify(JSON.parse(draft)) === JSON.stringify(spec)) return;
+    } catch {
+      if (mode === 'json') return;
+    }
+    setDraft(JSON.stringify(spec, null, 2));
+    setDraftError(null);
+  }, [spec]);
+
+  const handleDraftChange = (text: string) => {
+    setDraft(text);
+    try {
+      const parsed = JSON.parse(text);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Spec must be a JSON object');
+      }
+      onChange(parsed);
+      setDraftError(null);
+    } catch (err: any) {
+      setDraftError(err.message);
+    }
+  };
+
+  const ctx: FormContext = { stateKeys, serviceIds, issues };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex bg-gray-700 rounded text-xs">
+          <button
+            onClick={() => !draftError && schema && setMode('form')}
+            disabled={!schema || !!draftError}
+            title={draftError ? 'Fix the JSON before switching to the form' : undefined}
+            className={`px-2 py-0.5 rounded-l ${mode === 'form' ? 'bg-green-500 text-black' : 'disabled:opacity-40'}`}
+          >
+            Form
+          </button>
+          <button
+            onClick={() => setMode('json')}
+            className={`px-2 py-0.5 rounded-r ${mode === 'json' ? 'bg-green-500 text-black' : ''}`}
+          >
+            JSON
+          </button>
+        </div>
+        {draftError && <span className="text-red-400 text-xs truncate ml-2">⚠ {draftError}</span>}
+      </div>
+
+      <datalist id={STATE_KEYS_LIST}>
+        {stateKeys.map(key => <option key={key} value={key} />)}
+      </datalist>
+
+      {mode === 'form' && schema ? (
+        <ObjectFields fields={schema.fields} value={spec} path={[]} onChange={onChange} ctx={ctx} />
+      ) : (
+        <textarea
+          value={draft}
+          onChange={(e) => handleDraftChange(e.target.value)}
+          className="w-full bg-gray-950 px-3 py-2 rounded border border-gray-700 text-xs font-mono h-64 focus:border-green-500 focus:outline-none"
+          spellCheck={false}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { BUILTIN_TEMPLATES, checkExpression, formatFromFilename, parseTemplatePack, SPC_FILE_ACCEPT, stringifyTemplatePack, templateDefaults, templateFromServices, templatePackFilename } from '../engine';
+import type { Service, SpcFormat, SpcTemplate, TemplateValues } from '../engine';
+import { CheckedInput } from './spec_form';
+import { loadUserTemplates, storeUserTemplates } from './template_store';
+
+// ============================================================================
+// TEMPLATE LIBRARY
+// ============================================================================
+
+type AddLog = (level: string, message: string) => void;
+
+const BUILTIN_IDS = new Set(BUILTIN_TEMPLATES.map(template => template.id));
+
+const inputClass = 'w-full bg-gray-900 px-2 py-1 rounded border border-gray-700 text-xs focus:border-green-500 focus:outline-none';
+
+/** Built-in templates plus the user's own, saved or imported. */
+export function useTemplateLibrary(addLog: AddLog) {
+  const [userTemplates, setUserTemplates] = useState<SpcTemplate[]>(loadUserTemplates);
+  const addLogRef = useRef(addLog);
+  addLogRef.current = addLog;
+
+  const templates = useMemo(() => [...BUILTIN_TEMPLATES, ...userTemplates], [userTemplates]);
+
+  const update = useCallback((change: (prev: SpcTemplate[]) => SpcTemplate[]) => {
+    setUserTemplates(prev => {
+      const next = change(prev);
+      storeUserTemplates(next);
+      return next;
+    });
+  }, []);
+
+  /** Same id replaces the stored template, so re-importing a pack updates it */
+  const addTemplates = useCallback((added: SpcTemplate[]) => {
+    const ids = new Set(added.map(template => template.id));
+    update(prev => [...prev.filter(template => !ids.has(template.id)), ...added]);
+  }, [update]);
+
+  const removeTemplate = useCallback((id: string) => {
+    update(prev => prev.filter(template => template.id !== id));
+  }, [update]);
+
+  const importPack = useCallback(async (file: File) => {
+    try {
+      const imported = parseTemplatePack(await file.text(), formatFromFilename(file.name));
+      const clashes = imported.filter(template => BUILTIN_IDS.has(template.id));
+      if (clashes.length > 0) throw new Error(`Template id(s) reserved by built-ins: ${clashes.map(t => t.id).join(', ')}`);
+      addTemplates(imported);
+      addLogRef.current('info', `Imported ${imported.length} template(s) from ${file.name}`);
+    } catch (error: any) {
+      addLogRef.current('error', `Template import of ${file.name} failed: ${error?.message ?? error}`);
+    }
+  }, [addTemplates]);
+
+  const exportPack = useCallback((format: SpcFormat) => {
+    if (userTemplates.length === 0) {
+      addLogRef.current('warn', 'No saved templates to export; save a selection as a template first');
+      return;
+    }
+    const type = format === 'yaml' ? 'application/yaml' : 'application/json';
+    const blob = new Blob([stringifyTemplatePack(userTemplates, format)], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = templatePackFilename('my', format);
+    a.click();
+    URL.revokeObjectURL(url);
+    addLogRef.current('info', `Exported ${userTemplates.length} template(s) as ${a.download}`);
+  }, [userTemplates]);
+
+  return { templates, addTemplates, removeTemplate, importPack, exportPack };
+}
+
+// ----------------------------------------------------------------------------
+// Palette section
+// ----------------------------------------------------------------------------
+
+interface TemplateSectionProps {
+  templates: SpcTemplate[];
+  onPick: (template: SpcTemplate) => void;
+  onRemove: (template: SpcTemplate) => void;
+  onSaveSelection: () => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+export function TemplateSection({ templates, onPick, onRemove, onSaveSelection, onImport, onExport }: TemplateSectionProps) {
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-700">
+      <h3 className="text-xs font-bold text-gray-400 mb-3 uppercase">Templates</h3>
+      <div className="space-y-2">
+        {templates.map(template => (
+          <div key={template.id} className="group relative">
+            <button
+              onClick={() => onPick(template)}
+              className="w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm text-left truncate"
+              title={template.description || template.name}
+            >
+              {template.icon || '🧩'} {template.name}
+            </button>
+            {!BUILTIN_IDS.has(template.id) && (
+              <button
+                onClick={() => onRemove(template)}
+                className="absolute right-1 top-1 hidden group-hover:block text-gray-400 hover:text-red-400 text-xs px-1"
+                title="Delete template"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 space-y-1 text-xs">
+        <button onClick={onSaveSelection} className="block text-green-400 hover:text-green-300">+ Save as template…</button>
+        <label className="block text-blue-400 hover:text-blue-300 cursor-pointer">
+          Import pack…
+          <input
+            type="file"
+            accept={SPC_FILE_ACCEPT}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+            className="hidden"
+          />
+        </label>
+        <button onClick={onExport} className="block text-blue-400 hover:text-blue-300">Export my templates</button>
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Dialogs
+// ----------------------------------------------------------------------------
+
+function Dialog({ title, onClose, children }: { title: string; onClose: () => void; children: React.ReactNode }) {
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center" style={{ zIndex: 50 }} onMouseDown={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded w-96 max-h-[80vh] flex flex-col" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 pb-2">
+          <h3 className="font-bold text-green-400">{title}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+/** Parameter form shown before a template is placed on the canvas. */
+export function InsertTemplateDialog({ template, onInsert, onClose }: {
+  template: SpcTemplate;
+  onInsert: (values: TemplateValues) => void;
+  onClose: () => void;
+}) {
+  const [values, setValues] = useState<TemplateValues>(() => templateDefaults(template));
+  const set = (name: string, value: string) => setValues(prev => ({ ...prev, [name]: value }));
+
+  return (
+    <Dialog title={`${template.icon || '🧩'} ${template.name}`} onClose={onClose}>
+      <div className="px-4 pb-4 space-y-3 overflow-y-auto text-xs">
+        {template.description && <p className="text-gray-400">{template.description}</p>}
+        {template.params.map(param => (
+          <div key={param.name}>
+            <label className="block text-gray-400 mb-1" title={param.description}>{param.label || param.name}</label>
+            {param.kind === 'expression' ? (
+              <CheckedInput
+                value={values[param.name]}
+                onChange={(value) => set(param.name, value)}
+                check={checkExpression}
+                className={`${inputClass} font-mono`}
+                placeholder="row.total > 100"
+              />
+            ) : (
+              <input
+                type={param.kind === 'number' ? 'number' : param.kind === 'url' ? 'url' : 'text'}
+                value={values[param.name] ?? ''}
+                onChange={(e) => set(param.name, e.target.value)}
+                className={inputClass}
+              />
+            )}
+            {param.description && <div className="text-gray-500 mt-0.5">{param.description}</div>}
+          </div>
+        ))}
+        <div className="text-gray-500">
+          {Object.keys(template.services).length} service(s): {Object.keys(template.services).join(', ')}
+        </div>
+      </div>
+      <div className="p-3 border-t border-gray-700 flex justify-end gap-2">
+        <button onClick={onClose} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded text-xs">Cancel</button>
+        <button onClick={() => onInsert(values)} className="bg-green-600 hover:bg-green-500 px-3 py-1 rounded text-xs">Insert</button>
+      </div>
+    </Dialog>
+  );
+}
+
+/** Picks services to keep as a reusable template; the selected services are pre-checked. */
+export function SaveTemplateDialog({ services, selected, onSave, onClose }: {
+  services: Record<string, Service>;
+  selected: string[];
+  onSave: (template: SpcTemplate) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [ids, setIds] = useState<string[]>(() => (selected.length > 0 ? selected : Object.keys(services)));
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (id: string) => setIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+
+  const save = () => {
+    try {
+      if (!name.trim()) throw new Error('Give the template a name');
+      onSave(templateFromServices({ services }, ids, { name, description: description.trim() || undefined }));
+    } catch (error: any) {
+      setError(error?.message ?? String(error));
+    }
+  };
+
+  return (
+    <Dialog title="Save as Template" onClose={onClose}>
+      <div className="px-4 pb-4 space-y-2 overflow-y-auto text-xs">
+        <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="Template name" autoFocus />
+        <input value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} placeholder="Description (optional)" />
+        <div className="text-gray-400 pt-1">Services</div>
+        {Object.entries(services).map(([id, service]) => (
+          <label key={id} className="flex items-center gap-2">
+            <input type="checkbox" checked={ids.includes(id)} onChange={() => toggle(id)} />
+            <span className="font-mono">{id}</span>
+            <span className="text-gray-500">{service.type}</span>
+          </label>
+        ))}
+        {error && <div className="text-red-400">{error}</div>}
+      </div>
+      <div className="p-3 border-t border-gray-700 flex justify-end gap-2">
+        <button onClick={onClose} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded text-xs">Cancel</button>
+        <button onClick={save} className="bg-green-600 hover:bg-green-500 px-3 py-1 rounded text-xs">Save</button>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,27 @@
+import type { SpcTemplate } from '../engine';
+
+// ============================================================================
+// USER TEMPLATES (localStorage)
+// ============================================================================
+//
+// Built-in templates ship with the engine; the ones users save or import are
+// kept in the browser. Templates are small, so one JSON entry holds them all.
+
+const TEMPLATES_KEY = 'edt-studio-templates';
+
+export function loadUserTemplates(): SpcTemplate[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeUserTemplates(templates: SpcTemplate[]): void {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  } catch {
+    // storage disabled or full; templates last for this session only
+  }
+}
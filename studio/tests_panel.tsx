@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { runTestCase } from '../engine';
+import type { SPC, SpcTest, TestResult } from '../engine';
+import { FieldChangeRow } from './spc_diff_view';
+
+// ============================================================================
+// TESTS PANEL (shared by both editors)
+// ============================================================================
+//
+// Runs the document's `tests` on private engines, so the canvas and its state
+// are never touched, and lists each failing check with expected against
+// actual values.
+
+type AddLog = (level: string, message: string) => void;
+
+export function TestsPanel({ spc, addLog, onClose }: { spc: SPC; addLog: AddLog; onClose: () => void }) {
+  const [results, setResults] = useState<Record<string, TestResult>>({});
+  const [running, setRunning] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const tests = spc.tests || [];
+
+  const run = async (cases: SpcTest[]) => {
+    setRunning(true);
+    const finished: TestResult[] = [];
+    try {
+      for (const test of cases) {
+        const result = await runTestCase(spc, test);
+        finished.push(result);
+        setResults(prev => ({ ...prev, [test.name]: result }));
+      }
+      const failed = finished.filter(result => !result.passed);
+      addLog(failed.length ? 'error' : 'info', `Tests: ${finished.length - failed.length} passed, ${failed.length} failed`);
+      if (failed.length === 1) setExpanded(failed[0].name);
+    } catch (error: any) {
+      addLog('error', `Test run failed: ${error?.message ?? error}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const passed = tests.filter(test => results[test.name]?.passed).length;
+  const failed = tests.filter(test => results[test.name] && !results[test.name].passed).length;
+
+  return (
+    <div className="w-96 bg-gray-800 border-l border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between p-4">
+        <h3 className="font-bold text-green-400">Tests</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <div className="px-4 pb-3 flex items-center gap-3 border-b border-gray-700 text-xs">
+        <button
+          onClick={() => run(tests)}
+          disabled={running || tests.length === 0}
+          className="bg-green-600 hover:bg-green-500 disabled:opacity-40 px-2 py-1 rounded"
+        >
+          {running ? 'Running…' : 'Run all'}
+        </button>
+        <span className="text-green-400">{passed} passed</span>
+        <span className="text-red-400">{failed} failed</span>
+        <span className="text-gray-500">{tests.length} case(s)</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {tests.length === 0 && (
+          <div className="text-xs text-gray-500 p-2">
+            No test cases. Add a <span className="font-mono">tests</span> list to the SPC in the JSON editor: each case gives
+            <span className="font-mono"> state</span>, <span className="font-mono">ticks</span>, <span className="font-mono">stubs</span> and
+            <span className="font-mono"> expect</span>.
+          </div>
+        )}
+        {tests.map(test => {
+          const result = results[test.name];
+          return (
+            <div key={test.name} className="rounded p-2 text-xs bg-gray-900">
+              <div className="flex items-start justify-between gap-2">
+                <button onClick={() => setExpanded(expanded === test.name ? null : test.name)} className="text-left flex-1 min-w-0">
+                  <span className={!result ? 'text-gray-500' : result.passed ? 'text-green-400' : 'text-red-400'}>
+                    {!result ? '○' : result.passed ? '✓' : '✗'}
+                  </span>{' '}
+                  <span className="text-gray-100">{test.name}</span>
+                  {test.description && <div className="text-gray-500 truncate">{test.description}</div>}
+                </button>
+                <button onClick={() => run([test])} disabled={running} className="text-green-400 hover:text-green-300 disabled:opacity-40">Run</button>
+              </div>
+
+              {expanded === test.name && result && (
+                <ul className="mt-2 pt-2 border-t border-gray-700 space-y-1">
+                  {result.assertions.map((assertion, idx) => (
+                    <li key={idx}>
+                      <span className={assertion.passed ? 'text-green-400' : 'text-red-400'}>{assertion.passed ? '✓' : '✗'}</span>{' '}
+                      <span className="text-gray-300">{assertion.label}</span>
+                      {assertion.message && <div className="ml-3 text-gray-400 break-all">{assertion.message}</div>}
+                      {assertion.changes && (
+                        <ul className="ml-3 mt-0.5 space-y-0.5">
+                          <li className="text-gray-500">expected <span className="text-red-300 line-through">struck</span> → actual <span className="text-green-300">green</span></li>
+                          {assertion.changes.map((change, i) => <FieldChangeRow key={i} change={change} />)}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                  {result.assertions.length === 0 && <li className="text-gray-500">No expectations</li>}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
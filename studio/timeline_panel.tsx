@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import type { TickComparison, TickSnapshot } from '../engine';
+import { FieldChangeRow } from './spc_diff_view';
+
+// ============================================================================
+// TIMELINE (shared by both editors)
+// ============================================================================
+//
+// Scrubs through the engine's per-tick snapshots. While a past tick is shown
+// the canvas, inspector and data preview read that tick's statuses and state;
+// spec edits still go to the live document, ready for a re-run from there.
+
+const MAX_CHANGES = 20;
+
+function ComparisonList({ comparison }: { comparison: TickComparison[] }) {
+  const [open, setOpen] = useState<number | null>(comparison.find(c => !c.same)?.tick ?? null);
+  const differing = comparison.filter(c => !c.same).length;
+
+  return (
+    <div className="space-y-1">
+      <div className={`text-xs ${differing ? 'text-yellow-400' : 'text-green-400'}`}>
+        {differing ? `${differing} of ${comparison.length} tick(s) differ from the original run` : `Identical to the original run over ${comparison.length} tick(s)`}
+      </div>
+      {comparison.map(c => (
+        <div key={c.tick} className="text-xs bg-gray-900 rounded p-1.5">
+          <button onClick={() => setOpen(open === c.tick ? null : c.tick)} className="w-full text-left" disabled={c.same}>
+            <span className={c.same ? 'text-green-400' : 'text-yellow-400'}>{c.same ? '=' : '≠'}</span>{' '}
+            <span className="text-gray-200">Tick {c.tick}</span>
+            {!c.same && (
+              <span className="text-gray-500">
+                {' '}· {c.state.length} state change(s){c.statuses.length ? `, ${c.statuses.length} status` : ''}
+                {c.events.missing.length + c.events.extra.length ? `, ${c.events.missing.length + c.events.extra.length} event(s)` : ''}
+              </span>
+            )}
+          </button>
+          {open === c.tick && !c.same && (
+            <ul className="mt-1 ml-3 space-y-0.5">
+              <li className="text-gray-500">original <span className="text-red-300 line-through">struck</span> → re-run <span className="text-green-300">green</span></li>
+              {c.statuses.map(s => (
+                <li key={s.id} className="text-gray-300">{s.id}: {s.from ?? '—'} → {s.to ?? '—'}</li>
+              ))}
+              {c.state.slice(0, MAX_CHANGES).map((change, i) => <FieldChangeRow key={i} change={change} />)}
+              {c.state.length > MAX_CHANGES && <li className="text-gray-500">…and {c.state.length - MAX_CHANGES} more</li>}
+              {c.events.missing.map((evt, i) => <li key={`m${i}`} className="text-red-300">− {evt.name} → {evt.for}</li>)}
+              {c.events.extra.map((evt, i) => <li key={`x${i}`} className="text-green-300">+ {evt.name} → {evt.for}</li>)}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function TimelinePanel({ history, viewTick, onView, onReplay, canReplay, comparison, onClose }: {
+  history: TickSnapshot[];
+  /** Shown tick, or null for the live document */
+  viewTick: number | null;
+  onView: (tick: number | null) => void;
+  onReplay: (fromTick: number) => void;
+  canReplay: boolean;
+  comparison: TickComparison[] | null;
+  onClose: () => void;
+}) {
+  const first = history[0]?.tick ?? 0;
+  const last = history[history.length - 1]?.tick ?? 0;
+  const shown = viewTick === null ? history[history.length - 1] : history.find(s => s.tick === viewTick);
+  const step = (delta: number) => onView(Math.min(last, Math.max(first, (viewTick ?? last) + delta)));
+
+  return (
+    <div className="w-96 bg-gray-800 border-l border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between p-4">
+        <h3 className="font-bold text-green-400">Timeline</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      {history.length === 0 ? (
+        <div className="px-4 text-xs text-gray-500">No ticks yet. Run or step the pipeline and every tick is kept here.</div>
+      ) : (
+        <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-3 text-xs">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <button onClick={() => step(-1)} disabled={(viewTick ?? last) <= first} className="px-2 py-0.5 bg-gray-700 rounded disabled:opacity-40">◀</button>
+              <input
+                type="range"
+                min={first}
+                max={last}
+                value={viewTick ?? last}
+                onChange={e => onView(Number(e.target.value))}
+                className="flex-1"
+              />
+              <button onClick={() => step(1)} disabled={(viewTick ?? last) >= last} className="px-2 py-0.5 bg-gray-700 rounded disabled:opacity-40">▶</button>
+              <button
+                onClick={() => onView(null)}
+                className={`px-2 py-0.5 rounded ${viewTick === null ? 'bg-green-700 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+              >
+                Live
+              </button>
+            </div>
+            <div className="text-gray-400">
+              {viewTick === null ? 'Live document' : `Showing tick ${viewTick}`} · ticks {first}–{last} kept
+            </div>
+          </div>
+
+          {shown && (
+            <>
+              <div>
+                <div className="text-gray-300 font-semibold">Tick {shown.tick}</div>
+                <div className="text-gray-500">{shown.timestamp}</div>
+              </div>
+
+              <div>
+                <div className="text-gray-400 mb-1">Outputs</div>
+                {shown.executed.length === 0 && <div className="text-gray-500">Nothing ran</div>}
+                <ul className="space-y-0.5">
+                  {shown.executed.map(id => (
+                    <li key={id}>
+                      <span className="text-blue-300">{id}</span>
+                      <span className="text-gray-500"> → </span>
+                      <span className="font-mono text-gray-300">{Object.keys(shown.patches[id] || {}).join(', ') || '—'}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <div className="text-gray-400 mb-1">Events</div>
+                {shown.events.length === 0 && <div className="text-gray-500">None</div>}
+                <ul className="space-y-0.5">
+                  {shown.events.map((evt, i) => (
+                    <li key={i} className="text-gray-300">
+                      {evt.name} → {evt.for}
+                      {evt.data !== undefined && <span className="text-gray-500 font-mono break-all"> {JSON.stringify(evt.data)}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="border-t border-gray-700 pt-3 space-y-1">
+                <button
+                  onClick={() => onReplay(shown.tick)}
+                  disabled={!canReplay}
+                  className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-40 px-2 py-1 rounded"
+                >
+                  Re-run from tick {shown.tick}
+                </button>
+                <div className="text-gray-500">
+                  Puts state and statuses back to before this tick and runs the later ticks again with the current specs.
+                  {!canReplay && ' Stop the engine first.'}
+                </div>
+              </div>
+            </>
+          )}
+
+          {comparison && (
+            <div className="border-t border-gray-700 pt-3">
+              <div className="text-gray-400 mb-1">Re-run against original</div>
+              <ComparisonList comparison={comparison} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createEngine, withRuntime } from '../engine';
+import type { EDTEngine, LedgerEntry, SPC, TickReport, TickSnapshot } from '../engine';
+
+// ============================================================================
+// STUDIO ↔ ENGINE BRIDGE
+// ============================================================================
+
+type AddLog = (level: string, message: string) => void;
+type SetSpc = (update: (prev: SPC) => SPC) => void;
+
+/**
+ * Folds the engine's view of a finished tick back into the editor document.
+ * Only runtime fields are taken from the engine so that spec edits made while
+ * an async tick was in flight are not overwritten.
+ */
+export function mergeTickReport(prev: SPC, report: TickReport): SPC {
+  return withRuntime(prev, report.spc);
+}
+
+export function useEdtEngine(spc: SPC, setSpc: SetSpc, addLog: AddLog) {
+  const engineRef = useRef<EDTEngine | null>(null);
+  if (!engineRef.current) engineRef.current = createEngine();
+  const engine = engineRef.current;
+
+  const [isRunning, setIsRunning] = useState(false);
+  const [history, setHistory] = useState<TickSnapshot[]>([]);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const addLogRef = useRef(addLog);
+  addLogRef.current = addLog;
+
+  // Keep the engine on the latest document; ticks pick up edits immediately
+  useEffect(() => {
+    engine.load(spc);
+  }, [engine, spc]);
+
+  useEffect(() => {
+    const unsubscribe = [
+      engine.on('log', ({ level, message }) => addLogRef.current(level, message)),
+      engine.on('start', () => setIsRunning(true)),
+      engine.on('stop', () => setIsRunning(false)),
+      engine.on('rewind', ({ spc: rewound }) => {
+        setSpc(prev => withRuntime(prev, rewound));
+        setHistory(engine.history.slice());
+        setLedger(engine.ledger.slice());
+      }),
+      engine.on('tick', (report) => {
+        setSpc(prev => mergeTickReport(prev, report));
+        setHistory(engine.history.slice());
+        setLedger(engine.ledger.slice());
+        for (const evt of report.events) {
+          addLogRef.current('info', `${evt.name} → ${evt.for}`);
+        }
+        addLogRef.current(
+          'success',
+          `⚡ Tick ${report.tick}: ${report.executed.length} services executed, ${report.events.length} events`
+        );
+      })
+    ];
+    return () => {
+      unsubscribe.forEach(off => off());
+      engine.stop();
+    };
+  }, [engine, setSpc]);
+
+  const run = useCallback(() => engine.start(), [engine]);
+  const stop = useCallback(() => engine.stop(), [engine]);
+  const tick = useCallback(() => engine.tick(), [engine]);
+  /** Re-runs from `fromTick` with the current specs; see EDTEngine.replay */
+  const replay = useCallback((fromTick: number) => engine.replay(fromTick), [engine]);
+  /** Continues an imported ledger; throws if its chain is broken */
+  const restoreLedger = useCallback((entries: LedgerEntry[]) => {
+    engine.restoreLedger(entries);
+    setLedger(engine.ledger.slice());
+  }, [engine]);
+  /** Clears a failed service (flat id) and ticks so it is retried at once */
+  const resetService = useCallback((serviceId: string) => {
+    engine.resetService(serviceId);
+    return engine.tick();
+  }, [engine]);
+
+  return { engine, isRunning, run, stop, tick, history, replay, ledger, restoreLedger, resetService };
+}
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { flattenComposites, withRuntime } from '../engine';
+import type { SPC } from '../engine';
+
+// ============================================================================
+// UNDO / REDO
+// ============================================================================
+//
+// Every editor action goes through `setSpc`, which records the previous
+// document. Edits passing the same `coalesce` key in quick succession (a node
+// drag, typing in a field) fold into one step. Engine ticks use `setRuntime`,
+// which updates the document without touching the history.
+//
+// The history holds what the author wrote. Undo and redo bring back specs,
+// services and layout but keep the run as it is now: the engine loads every
+// document the editor holds, so restoring an old state or status would roll
+// the live run back.
+
+const MAX_HISTORY = 100;
+const COALESCE_MS = 1000;
+
+type SpcUpdate = SPC | ((prev: SPC) => SPC);
+
+export interface EditOptions {
+  /** Consecutive edits with the same key within a second become one step */
+  coalesce?: string;
+}
+
+interface History {
+  past: SPC[];
+  present: SPC;
+  future: SPC[];
+}
+
+/** What the history keeps of a document: state belongs to the run */
+function authored(doc: SPC): SPC {
+  return { ...doc, state: {} };
+}
+
+/** `doc` with the statuses, failures and state of `current` */
+function keepRuntime(doc: SPC, current: SPC): SPC {
+  return { ...withRuntime(doc, flattenComposites(current).spc), state: current.state };
+}
+
+export function useSpcHistory(initial: SPC | (() => SPC)) {
+  const [history, setHistory] = useState<History>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? initial() : initial,
+    future: []
+  }));
+  const lastEditRef = useRef<{ key: string; at: number } | null>(null);
+
+  const setSpc = useCallback((update: SpcUpdate, options: EditOptions = {}) => {
+    const now = Date.now();
+    const last = lastEditRef.current;
+    const merge = !!options.coalesce && last?.key === options.coalesce && now - last.at < COALESCE_MS;
+    lastEditRef.current = options.coalesce ? { key: options.coalesce, at: now } : null;
+
+    setHistory(h => {
+      const next = typeof update === 'function' ? update(h.present) : update;
+      if (next === h.present) return h;
+      return {
+        past: merge ? h.past : [...h.past, authored(h.present)].slice(-MAX_HISTORY),
+        present: next,
+        future: []
+      };
+    });
+  }, []);
+
+  const setRuntime = useCallback((update: (prev: SPC) => SPC) => {
+    setHistory(h => ({ ...h, present: update(h.present) }));
+  }, []);
+
+  const undo = useCallback(() => {
+    lastEditRef.current = null;
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: keepRuntime(h.past[h.past.length - 1], h.present),
+      future: [authored(h.present), ...h.future]
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastEditRef.current = null;
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, authored(h.present)],
+      present: keepRuntime(h.future[0], h.present),
+      future: h.future.slice(1)
+    });
+  }, []);
+
+  // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y. Text fields are included on
+  // purpose: their edits live in this history, not the browser's.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if (key === 'y' && e.ctrlKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  return {
+    spc: history.present,
+    setSpc,
+    setRuntime,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}
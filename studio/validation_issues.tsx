@@ -0,0 +1,49 @@
+import React from 'react';
+import type { ValidationIssue } from '../engine';
+
+// ============================================================================
+// VALIDATION ISSUE DISPLAY (shared by both editors)
+// ============================================================================
+
+export function IssueBadge({ issues = [] }: { issues?: ValidationIssue[] }) {
+  if (issues.length === 0) return null;
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  return (
+    <div
+      className="absolute -top-2 -right-2 flex gap-1 pointer-events-auto"
+      title={issues.map(i => `${i.path}: ${i.message}`).join('\n')}
+      style={{ zIndex: 20 }}
+    >
+      {errors > 0 && (
+        <span className="bg-red-500 text-white rounded-full px-1.5 text-xs font-bold">✗ {errors}</span>
+      )}
+      {warnings > 0 && (
+        <span className="bg-yellow-500 text-black rounded-full px-1.5 text-xs font-bold">⚠ {warnings}</span>
+      )}
+    </div>
+  );
+}
+
+/** `relative` drops the `services.<id>.` prefix, for lists shown inside a service's inspector. */
+export function IssueList({ issues, relative = false }: { issues: ValidationIssue[]; relative?: boolean }) {
+  if (issues.length === 0) return null;
+
+  const displayPath = (issue: ValidationIssue) => {
+    const prefix = `services.${issue.serviceId}.`;
+    return relative && issue.path.startsWith(prefix) ? issue.path.slice(prefix.length) : issue.path;
+  };
+
+  return (
+    <ul className="space-y-1 text-xs font-mono">
+      {issues.map((issue, idx) => (
+        <li key={idx} className={issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+          {issue.severity === 'error' ? '✗' : '⚠'}{' '}
+          <span className="text-gray-400">{displayPath(issue)}</span>
+          : {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
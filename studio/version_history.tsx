@@ -0,0 +1,176 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { diffSPC, isEmptyDiff } from '../engine';
+import type { SPC } from '../engine';
+import { DiffSummary, SpcDiffView } from './spc_diff_view';
+import { deleteVersion, getAuthor, listVersions, saveVersion, setAuthor } from './version_store';
+import type { SpcVersion, VersionTrigger } from './version_store';
+
+// ============================================================================
+// VERSION HISTORY (shared by both editors)
+// ============================================================================
+
+type AddLog = (level: string, message: string) => void;
+
+const TRIGGER_LABELS: Record<VersionTrigger, string> = {
+  manual: 'saved',
+  export: 'export',
+  run: 'run'
+};
+
+/**
+ * Versions of the pipeline named `pipeline`. Automatic snapshots (export,
+ * run) are skipped when nothing but runtime fields changed since the last one.
+ */
+export function useVersionHistory(pipeline: string, addLog: AddLog) {
+  const [versions, setVersions] = useState<SpcVersion[]>([]);
+  const versionsRef = useRef(versions);
+  versionsRef.current = versions;
+  const addLogRef = useRef(addLog);
+  addLogRef.current = addLog;
+
+  const refresh = useCallback(async () => {
+    try {
+      setVersions(await listVersions(pipeline));
+    } catch (error: any) {
+      addLogRef.current('error', `Version history unavailable: ${error?.message ?? error}`);
+    }
+  }, [pipeline]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const snapshot = useCallback(async (spc: SPC, trigger: VersionTrigger, message: string) => {
+    const [latest] = versionsRef.current;
+    if (trigger !== 'manual' && latest && isEmptyDiff(diffSPC(latest.spc, spc))) return null;
+    try {
+      const saved = await saveVersion({
+        pipeline,
+        spc,
+        author: getAuthor(),
+        message,
+        trigger,
+        created_at: new Date().toISOString()
+      });
+      await refresh();
+      return saved;
+    } catch (error: any) {
+      addLogRef.current('error', `Could not save version: ${error?.message ?? error}`);
+      return null;
+    }
+  }, [pipeline, refresh]);
+
+  const remove = useCallback(async (id: number) => {
+    await deleteVersion(id);
+    await refresh();
+  }, [refresh]);
+
+  return { versions, snapshot, remove };
+}
+
+interface VersionHistoryPanelProps {
+  spc: SPC;
+  versions: SpcVersion[];
+  onSave: (message: string) => void;
+  onRestore: (version: SpcVersion) => void;
+  onDelete: (version: SpcVersion) => void;
+  onClose: () => void;
+  /** Omit to hide the Preview button */
+  onPreview?: (version: SpcVersion | null) => void;
+  previewId?: number | null;
+}
+
+export function VersionHistoryPanel({ spc, versions, onSave, onRestore, onDelete, onClose, onPreview, previewId }: VersionHistoryPanelProps) {
+  const [author, setAuthorName] = useState(getAuthor);
+  const [message, setMessage] = useState('');
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const expandedVersion = versions.find(v => v.id === expanded);
+  // What changed in the current document since the expanded version
+  const diff = useMemo(() => expandedVersion && diffSPC(expandedVersion.spc, spc), [expandedVersion, spc]);
+
+  const save = () => {
+    onSave(message.trim() || 'Manual save');
+    setMessage('');
+  };
+
+  return (
+    <div className="w-80 bg-gray-800 border-l border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between p-4 pb-2">
+        <h3 className="font-bold text-green-400">Version History</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <div className="px-4 pb-3 space-y-2 border-b border-gray-700">
+        <input
+          type="text"
+          value={author}
+          onChange={(e) => setAuthorName(e.target.value)}
+          onBlur={() => setAuthor(author.trim() || 'anonymous')}
+          className="w-full bg-gray-700 px-2 py-1 rounded text-xs"
+          placeholder="Your name"
+          title="Author recorded on new versions"
+        />
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+            className="flex-1 bg-gray-700 px-2 py-1 rounded text-xs"
+            placeholder="Describe this version"
+          />
+          <button onClick={save} className="bg-green-600 hover:bg-green-500 px-2 py-1 rounded text-xs">Save</button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {versions.length === 0 && (
+          <div className="text-xs text-gray-500 p-2">
+            No versions of “{spc.meta.name}” yet. Versions are also saved on export and run.
+          </div>
+        )}
+        {versions.map(version => (
+          <div
+            key={version.id}
+            className={`rounded p-2 text-xs ${previewId === version.id ? 'bg-blue-900/40 ring-1 ring-blue-500' : 'bg-gray-900'}`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <button
+                onClick={() => setExpanded(expanded === version.id ? null : version.id)}
+                className="text-left flex-1 min-w-0"
+                title="Compare with the current document"
+              >
+                <div className="text-gray-100 truncate">{version.message}</div>
+                <div className="text-gray-500">
+                  {version.author} · {new Date(version.created_at).toLocaleString()}
+                  <span className="ml-1 px-1 rounded bg-gray-700 text-gray-300">{TRIGGER_LABELS[version.trigger]}</span>
+                </div>
+              </button>
+              <button onClick={() => onDelete(version)} className="text-gray-500 hover:text-red-400" title="Delete version">✕</button>
+            </div>
+
+            <div className="flex gap-2 mt-1">
+              {onPreview && (
+                <button
+                  onClick={() => onPreview(previewId === version.id ? null : version)}
+                  className="text-blue-400 hover:text-blue-300"
+                >
+                  {previewId === version.id ? 'Exit preview' : 'Preview'}
+                </button>
+              )}
+              <button onClick={() => onRestore(version)} className="text-green-400 hover:text-green-300">Restore</button>
+            </div>
+
+            {expanded === version.id && diff && (
+              <div className="mt-2 pt-2 border-t border-gray-700">
+                <div className="text-gray-400 mb-1">Since this version: <DiffSummary diff={diff} /></div>
+                <SpcDiffView diff={diff} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
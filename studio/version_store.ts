@@ -0,0 +1,100 @@
+import type { SPC } from '../engine';
+
+// ============================================================================
+// LOCAL VERSION STORE (IndexedDB)
+// ============================================================================
+//
+// Named snapshots of an SPC, kept in the browser. Versions are grouped by
+// pipeline name (`meta.name`), so renaming a pipeline starts a new history.
+
+const DB_NAME = 'edt-studio';
+const DB_VERSION = 1;
+const STORE = 'versions';
+const AUTHOR_KEY = 'edt-studio-author';
+
+/** Oldest versions past this count are dropped, per pipeline */
+const MAX_VERSIONS = 200;
+
+export type VersionTrigger = 'manual' | 'export' | 'run';
+
+export interface SpcVersion {
+  id: number;
+  pipeline: string;
+  spc: SPC;
+  author: string;
+  message: string;
+  trigger: VersionTrigger;
+  created_at: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('pipeline', 'pipeline');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function done<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDb();
+  return db.transaction(STORE, mode).objectStore(STORE);
+}
+
+/** Newest first */
+export async function listVersions(pipeline: string): Promise<SpcVersion[]> {
+  const versions = await done((await store('readonly')).index('pipeline').getAll(pipeline));
+  return (versions as SpcVersion[]).sort((a, b) => b.id - a.id);
+}
+
+export async function saveVersion(version: Omit<SpcVersion, 'id'>): Promise<SpcVersion> {
+  // Snapshot through JSON so later edits never reach the stored copy
+  const record = { ...version, spc: JSON.parse(JSON.stringify(version.spc)) };
+  const id = await done((await store('readwrite')).add(record));
+  const saved = { ...record, id: id as number };
+
+  const existing = await listVersions(version.pipeline);
+  if (existing.length > MAX_VERSIONS) {
+    const objects = await store('readwrite');
+    await Promise.all(existing.slice(MAX_VERSIONS).map(old => done(objects.delete(old.id))));
+  }
+  return saved;
+}
+
+export async function deleteVersion(id: number): Promise<void> {
+  await done((await store('readwrite')).delete(id));
+}
+
+export function getAuthor(): string {
+  try {
+    return localStorage.getItem(AUTHOR_KEY) || 'anonymous';
+  } catch {
+    return 'anonymous';
+  }
+}
+
+export function setAuthor(author: string): void {
+  try {
+    localStorage.setItem(AUTHOR_KEY, author);
+  } catch {
+    // storage disabled; the name just won't stick
+  }
+}